@@ -1,8 +1,9 @@
-import { TFile } from 'obsidian';
+import { App, TFile, getAllTags } from 'obsidian';
 import { injectable, inject } from 'inversify';
 import { TYPES } from './types/symbols';
 import type { TitleChangerSettings } from './settings';
 import { FolderChecker } from './utils/FolderChecker';
+import { getTitleOverride } from './utils/TitleOverrides';
 import { TitleProcessor } from './utils/TitleProcessor';
 import type { ICacheManager } from './types/ObsidianExtensions';
 import { Logger } from './utils/logger';
@@ -23,6 +24,7 @@ export class CacheManager implements ICacheManager {
     private cacheType: LRUCacheType;
 
     constructor(
+        @inject(TYPES.App) private app: App,
         @inject(TYPES.Settings) private settings: TitleChangerSettings,
         @inject(TYPES.Logger) private logger: Logger,
         @inject(TYPES.ErrorManager) private errorManager: ErrorManagerService
@@ -171,8 +173,13 @@ export class CacheManager implements ICacheManager {
      */
     private logSettingsState(): void {
         this.logger.debug('当前缓存设置:', {
-            regexPattern: this.settings.regexPattern,
+            useFrontmatterTitle: this.settings.useFrontmatterTitle,
+            frontmatterTitleKey: this.settings.frontmatterTitleKey,
+            useHeadingTitle: this.settings.useHeadingTitle,
+            headingFallback: this.settings.headingFallback,
+            regexRules: this.settings.regexRules,
             includedFolders: this.settings.includedFolders,
+            excludedFolders: this.settings.excludedFolders,
             enabled: this.settings.enabled,
             cacheCapacity: this.settings.cacheCapacity,
             logCacheStats: this.settings.logCacheStats,
@@ -286,11 +293,17 @@ export class CacheManager implements ICacheManager {
             () => {
                 const fileId = file.path;
                 
+                // 手动标题优先于所有其他来源，且不受文件夹和排除规则限制
+                const override = getTitleOverride(this.settings.titleOverrides, fileId);
+                if (override !== null) {
+                    return override;
+                }
+
                 if (this.titleCache.has(fileId)) {
                     return this.titleCache.get(fileId) ?? null;
                 }
 
-                if (!FolderChecker.shouldApplyToFile(file, this.settings)) {
+                if (!FolderChecker.shouldApplyToFile(file, this.settings, (target) => this.getFileTags(target))) {
                     // 不需要处理的文件缓存较短时间
                     const cacheOptions: CacheOptions = {
                         ttl: Math.min(this.settings.cacheExpiration * 60000, 300000), // 最多5分钟
@@ -301,7 +314,14 @@ export class CacheManager implements ICacheManager {
                     return null;
                 }
 
-                const displayTitle = TitleProcessor.processFile(file, this.settings, this.errorManager, this.logger);
+                const metadata = this.app.metadataCache.getFileCache(file);
+                const displayTitle = TitleProcessor.processFile(
+                    file,
+                    this.settings,
+                    this.errorManager,
+                    this.logger,
+                    metadata
+                );
                 
                 // 配置缓存选项
                 const cacheOptions: CacheOptions = {
@@ -325,6 +345,16 @@ export class CacheManager implements ICacheManager {
         );
     }
 
+    /**
+     * 获取文件的所有标签（包括 frontmatter 中的标签）
+     * @param file 文件
+     * @returns 标签列表
+     */
+    private getFileTags(file: TFile): string[] {
+        const metadata = this.app.metadataCache.getFileCache(file);
+        return metadata ? getAllTags(metadata) ?? [] : [];
+    }
+
     /**
      * 清除所有缓存
      */
@@ -336,26 +366,27 @@ export class CacheManager implements ICacheManager {
 
     /**
      * 使指定文件的缓存失效
+     * @param file 文件
+     * @param oldPath 文件重命名前的路径（如果有）
      */
-    invalidateFile(file: TFile): void {
+    invalidateFile(file: TFile, oldPath?: string): void {
         tryCatchWrapper(
             () => {
                 const fileId = file.path;
                 
+                // 文件标签可能已变化，同时清除排除规则的检查结果
+                FolderChecker.invalidatePath(fileId);
+                
                 // 删除特定文件的缓存
                 if (this.titleCache.has(fileId)) {
                     this.titleCache.delete(fileId);
                     this.logger.debug(`已清除文件 ${file.name} 的缓存`);
                 }
                 
-                // 在文件重命名的情况下，可能需要查找并清除旧路径的缓存
-                // 这里使用一个启发式方法：检查缓存中是否有与当前文件basename相同但路径不同的项
-                const entries = Array.from(this.titleCache.entries());
-                for (const [cachedPath, _] of entries) {
-                    if (cachedPath !== fileId && cachedPath.endsWith(file.basename)) {
-                        this.titleCache.delete(cachedPath);
-                        this.logger.debug(`检测到文件重命名，已清除旧路径 ${cachedPath} 的缓存`);
-                    }
+                // 文件重命名时清除旧路径的缓存，其他文件夹中的同名文件不受影响
+                if (oldPath && oldPath !== fileId && this.titleCache.has(oldPath)) {
+                    this.titleCache.delete(oldPath);
+                    this.logger.debug(`检测到文件重命名，已清除旧路径 ${oldPath} 的缓存`);
                 }
                 
                 return true;
@@ -376,27 +407,45 @@ export class CacheManager implements ICacheManager {
      * 检查设置是否发生变化
      */
     private hasSettingsChanged(newSettings: TitleChangerSettings): boolean {
-        return this.settings.regexPattern !== newSettings.regexPattern ||
-               JSON.stringify(this.settings.includedFolders) !== JSON.stringify(newSettings.includedFolders);
+        return this.settings.useFrontmatterTitle !== newSettings.useFrontmatterTitle ||
+               this.settings.frontmatterTitleKey !== newSettings.frontmatterTitleKey ||
+               this.settings.useHeadingTitle !== newSettings.useHeadingTitle ||
+               this.settings.headingFallback !== newSettings.headingFallback ||
+               JSON.stringify(this.settings.regexRules) !== JSON.stringify(newSettings.regexRules) ||
+               JSON.stringify(this.settings.titleTransforms) !== JSON.stringify(newSettings.titleTransforms) ||
+               JSON.stringify(this.settings.includedFolders) !== JSON.stringify(newSettings.includedFolders) ||
+               JSON.stringify(this.settings.excludedFolders) !== JSON.stringify(newSettings.excludedFolders) ||
+               JSON.stringify(this.settings.excludedFilenamePatterns) !== JSON.stringify(newSettings.excludedFilenamePatterns) ||
+               JSON.stringify(this.settings.excludedTags) !== JSON.stringify(newSettings.excludedTags) ||
+               JSON.stringify(this.settings.excludedExtensions) !== JSON.stringify(newSettings.excludedExtensions);
     }
 
-    getDisplayTitle(fileName: string): string | null {
-        return this.titleCache.get(fileName) ?? null;
+    /**
+     * 获取已缓存的显示标题
+     * @param path 文件完整路径
+     */
+    getDisplayTitle(path: string): string | null {
+        return this.titleCache.get(path) ?? null;
     }
 
-    updateTitleCache(fileName: string, displayTitle: string): void {
+    /**
+     * 更新标题缓存
+     * @param path 文件完整路径
+     * @param displayTitle 显示标题
+     */
+    updateTitleCache(path: string, displayTitle: string): void {
         const cacheOptions: CacheOptions = {
             ttl: this.settings.cacheExpiration * 60000, // 转换为毫秒
             slidingExpiration: this.settings.cacheSlidingExpiration ?? true,
             weight: 5 // 重要文件的标题，较高权重
         };
         
-        this.titleCache.set(fileName, displayTitle, cacheOptions);
+        this.titleCache.set(path, displayTitle, cacheOptions);
     }
     
     /**
      * 获取所有缓存的标题
-     * @returns 文件名到标题的映射
+     * @returns 文件路径到标题的映射
      */
     getAllTitles(): Map<string, string> {
         const result = new Map<string, string>();
@@ -15,6 +15,11 @@ import { EditorLinkView } from "./views/EditorView";
 import { ReadingView } from "./views/ReadingView";
 import { GraphView } from "./views/GraphView";
 import { MarkdownViewManager } from "./views/MarkdownViewManager";
+import { TabTitleView } from "./views/TabTitleView";
+import { LinkPanesView } from "./views/LinkPanesView";
+import { SearchResultsView } from "./views/SearchResultsView";
+import { BookmarksView } from "./views/BookmarksView";
+import { CanvasView } from "./views/CanvasView";
 import { GraphNodeReplacer } from "./utils/GraphNodeReplacer";
 import { ErrorManagerService } from "./services/ErrorManagerService";
 import { Logger } from "./utils/logger";
@@ -26,12 +31,20 @@ import { TitleService } from "./services/TitleService";
 import { UpdateScheduler } from "./services/UpdateSchedulerService";
 import { SelectorFactory } from "./config/selectors";
 import { TitleStateAdapter } from "./services/TitleStateAdapter";
+import { TitleOverrideService } from "./services/TitleOverrideService";
+import { TitleSearchService } from "./services/TitleSearchService";
+import { LinkAliasService } from "./services/LinkAliasService";
+import { TitlePropertyService } from "./services/TitlePropertyService";
+import { FileRenameService } from "./services/FileRenameService";
+import { NewNoteService } from "./services/NewNoteService";
+import { PeekModeService } from "./services/PeekModeService";
 import { EventBusService } from "./services/EventBusService";
 import { SettingsManager } from "./settings/SettingsManager";
 import { VirtualScrollManager } from "./managers/VirtualScrollManager";
 import { DOMObserverManager } from "./managers/DOMObserverManager";
 import { UpdateCoordinator } from "./managers/UpdateCoordinator";
 import { FileItemProcessor } from "./managers/FileItemProcessor";
+import { ExplorerSortManager } from "./managers/ExplorerSortManager";
 
 /**
  * 创建并配置IOC容器
@@ -79,6 +92,7 @@ export function createContainer(
     container.bind(TYPES.DOMObserverManager).to(DOMObserverManager).inSingletonScope();
     container.bind(TYPES.UpdateCoordinator).to(UpdateCoordinator).inSingletonScope();
     container.bind(TYPES.FileItemProcessor).to(FileItemProcessor).inSingletonScope();
+    container.bind(TYPES.ExplorerSortManager).to(ExplorerSortManager).inSingletonScope();
 
     // 注册视图
     container.bind(TYPES.ExplorerView).to(ExplorerView).inSingletonScope();
@@ -86,6 +100,11 @@ export function createContainer(
     container.bind(TYPES.ReadingView).to(ReadingView).inSingletonScope();
     container.bind(TYPES.GraphView).to(GraphView).inSingletonScope();
     container.bind(TYPES.MarkdownViewManager).to(MarkdownViewManager).inSingletonScope();
+    container.bind(TYPES.TabTitleView).to(TabTitleView).inSingletonScope();
+    container.bind(TYPES.LinkPanesView).to(LinkPanesView).inSingletonScope();
+    container.bind(TYPES.SearchResultsView).to(SearchResultsView).inSingletonScope();
+    container.bind(TYPES.BookmarksView).to(BookmarksView).inSingletonScope();
+    container.bind(TYPES.CanvasView).to(CanvasView).inSingletonScope();
 
     // 注册服务
     container.bind<IDOMSelectorService>(TYPES.DOMSelectorService).to(DOMSelectorService).inSingletonScope();
@@ -97,6 +116,13 @@ export function createContainer(
     container.bind(TYPES.FileService).to(FileService).inSingletonScope();
     container.bind(TYPES.TitleService).to(TitleService).inSingletonScope();
     container.bind(TYPES.TitleStateAdapter).to(TitleStateAdapter).inSingletonScope();
+    container.bind(TYPES.TitleOverrideService).to(TitleOverrideService).inSingletonScope();
+    container.bind(TYPES.TitleSearchService).to(TitleSearchService).inSingletonScope();
+    container.bind(TYPES.LinkAliasService).to(LinkAliasService).inSingletonScope();
+    container.bind(TYPES.TitlePropertyService).to(TitlePropertyService).inSingletonScope();
+    container.bind(TYPES.FileRenameService).to(FileRenameService).inSingletonScope();
+    container.bind(TYPES.NewNoteService).to(NewNoteService).inSingletonScope();
+    container.bind(TYPES.PeekModeService).to(PeekModeService).inSingletonScope();
     container.bind(TYPES.UpdateScheduler).to(UpdateScheduler).inSingletonScope();
     container.bind<IEventBusService>(TYPES.EventBusService).to(EventBusService).inSingletonScope();
     
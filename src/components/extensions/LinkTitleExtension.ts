@@ -3,8 +3,10 @@
  */
 import { EditorView, Decoration, DecorationSet, ViewPlugin, ViewUpdate } from '@codemirror/view';
 import { RangeSetBuilder, Annotation, Extension } from '@codemirror/state';
+import { TFile, editorInfoField } from 'obsidian';
 import { LinkTitleWidget } from '../widgets/LinkTitleWidget';
-import { extractWikiLinks, shouldReplaceTitle } from '../../utils/WikiLinkProcessor';
+import { extractWikiLinks, shouldReplaceTitle, formatLinkTitle, getLinkTargetRange } from '../../utils/WikiLinkProcessor';
+import { extractMarkdownLinks, shouldReplaceMarkdownLinkText } from '../../utils/MarkdownLinkProcessor';
 import { handleEditorOperation, tryCatchWithValidation, tryCatchWrapper } from '../../utils/ErrorHelpers';
 import { ErrorManagerService, ErrorLevel } from '../../services/ErrorManagerService';
 import { Logger } from '../../utils/logger';
@@ -86,10 +88,13 @@ export function createLinkTitleExtension(
                         const processFrom = Math.max(0, from - bufferSize);
                         const processTo = Math.min(doc.length, to + bufferSize);
                         
+                        // Markdown链接使用相对路径时需要按当前文件解析
+                        const sourcePath = view.state.field(editorInfoField, false)?.file?.path ?? '';
+                        
                         let pos = processFrom;
                         while (pos <= processTo) {
                             const line = doc.lineAt(pos);
-                            this.processLine(line.text, line.from, builder);
+                            this.processLine(line.text, line.from, sourcePath, builder);
                             pos = line.to + 1;
                         }
                         
@@ -110,9 +115,11 @@ export function createLinkTitleExtension(
             }
             
             /**
-             * 处理单行内容中的Wiki链接
+             * 处理单行内容中的Wiki链接和Markdown链接
              */
-            processLine(text: string, lineStart: number, builder: RangeSetBuilder<Decoration>): void {
+            processLine(text: string, lineStart: number, sourcePath: string, builder: RangeSetBuilder<Decoration>): void {
+                const ranges: { from: number; to: number; decoration: Decoration }[] = [];
+
                 // 使用工具函数提取Wiki链接
                 const wikiLinks = extractWikiLinks(text, lineStart);
                 
@@ -122,17 +129,22 @@ export function createLinkTitleExtension(
                     
                     tryCatchWrapper(
                         () => {
-                            // 使用TitleService获取显示标题
-                            const displayTitle = titleService.getDisplayTitle(link.fileName);
+                            // 使用TitleService获取显示标题，按当前文件解析同名文件
+                            const displayTitle = titleService.getDisplayTitle(link.fileName, true, sourcePath);
                             
                             if (displayTitle && displayTitle !== link.fileName) {
-                                builder.add(
-                                    link.start + 2, // 跳过 [[ 
-                                    link.start + 2 + link.fileName.length,
-                                    Decoration.replace({
-                                        widget: createLinkWidget(link.fileName, displayTitle)
+                                // 替换文件名和子路径，标题链接显示为"显示标题 › 标题"
+                                const { from, to } = getLinkTargetRange(link);
+                                ranges.push({
+                                    from,
+                                    to,
+                                    decoration: Decoration.replace({
+                                        widget: createLinkWidget(
+                                            text.slice(from - lineStart, to - lineStart),
+                                            formatLinkTitle(displayTitle, link.subPath)
+                                        )
                                     })
-                                );
+                                });
                             }
                         },
                         'LinkTitleExtension',
@@ -147,6 +159,50 @@ export function createLinkTitleExtension(
                         }
                     );
                 }
+
+                // 链接文本就是文件名的Markdown链接，自定义文本保持不变
+                const markdownLinks = extractMarkdownLinks(text, lineStart);
+
+                for (const link of markdownLinks) {
+                    if (!shouldReplaceMarkdownLinkText(link)) continue;
+
+                    tryCatchWrapper(
+                        () => {
+                            const file = plugin.app.metadataCache.getFirstLinkpathDest(link.linkpath, sourcePath);
+                            if (!(file instanceof TFile)) return;
+
+                            const displayTitle = titleService.getDisplayTitle(file.path);
+                            if (displayTitle && displayTitle !== file.basename) {
+                                // 只替换方括号中的链接文本，保留链接地址
+                                ranges.push({
+                                    from: link.textStart,
+                                    to: link.textEnd,
+                                    decoration: Decoration.replace({
+                                        widget: createLinkWidget(
+                                            link.text,
+                                            formatLinkTitle(displayTitle, link.subPath)
+                                        )
+                                    })
+                                });
+                            }
+                        },
+                        'LinkTitleExtension',
+                        errorManager,
+                        logger,
+                        {
+                            errorMessage: '处理Markdown链接失败',
+                            category: ErrorCategory.DECORATION,
+                            level: ErrorLevel.WARNING,
+                            userVisible: false,
+                            details: { location: 'processLine', linkpath: link.linkpath }
+                        }
+                    );
+                }
+
+                // RangeSetBuilder 要求按位置顺序添加装饰
+                ranges
+                    .sort((a, b) => a.from - b.from)
+                    .forEach(range => builder.add(range.from, range.to, range.decoration));
             }
         },
         {
@@ -0,0 +1,168 @@
+import { App, ButtonComponent, Modal, Setting } from 'obsidian';
+import type { AliasConversionPlan, LinkAliasService } from '../../services/LinkAliasService';
+
+/**
+ * 批量转换链接别名对话框
+ * 先预览每个文件中将要改写的链接，可以排除文件，确认后再写入
+ */
+export class AliasConversionModal extends Modal {
+    private plans: AliasConversionPlan[] = [];
+    // 被排除的文件路径
+    private excluded = new Set<string>();
+    private resultsEl!: HTMLElement;
+    private applyButton!: ButtonComponent;
+    private busy = false;
+
+    /**
+     * @param app Obsidian应用实例
+     * @param service 链接别名服务
+     * @param folder 转换范围，空字符串表示整个库
+     */
+    constructor(app: App, private service: LinkAliasService, private folder: string) {
+        super(app);
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('title-changer-alias-conversion');
+
+        contentEl.createEl('h3', { text: '将链接转换为别名' });
+        contentEl.createEl('p', {
+            text: '为没有别名的 [[链接]] 添加显示标题作为别名，关闭插件或发布笔记后链接仍然显示标题。写入前会先列出所有改动。',
+            cls: 'setting-item-description'
+        });
+
+        new Setting(contentEl)
+            .setName('转换范围')
+            .addDropdown(dropdown => {
+                dropdown.addOption('', '整个库');
+                this.service.getFolders().forEach(folder => dropdown.addOption(folder, folder));
+                dropdown.setValue(this.folder)
+                    .onChange(value => {
+                        this.folder = value;
+                        void this.refreshPreview();
+                    });
+            });
+
+        this.resultsEl = contentEl.createDiv({ cls: 'title-changer-preview-results' });
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('取消')
+                .onClick(() => this.close()))
+            .addButton(button => {
+                this.applyButton = button
+                    .setButtonText('应用')
+                    .setCta()
+                    .setDisabled(true)
+                    .onClick(() => void this.apply());
+            });
+
+        void this.refreshPreview();
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+
+    /**
+     * 重新计算并显示预览
+     */
+    private async refreshPreview(): Promise<void> {
+        const folder = this.folder;
+        this.resultsEl.empty();
+        this.resultsEl.createEl('p', { text: '正在查找链接…', cls: 'setting-item-description' });
+        this.applyButton.setDisabled(true);
+
+        const plans = await this.service.preview(folder);
+        // 计算期间切换了范围，以最新的范围为准
+        if (folder !== this.folder) return;
+
+        this.plans = plans;
+        this.excluded.clear();
+        this.renderPreview();
+    }
+
+    /**
+     * 显示每个文件中将要改写的链接
+     */
+    private renderPreview(): void {
+        this.resultsEl.empty();
+
+        if (this.plans.length === 0) {
+            this.resultsEl.createEl('p', { text: '没有需要转换的链接', cls: 'setting-item-description' });
+            this.updateSummary();
+            return;
+        }
+
+        const summaryEl = this.resultsEl.createEl('p', { cls: 'title-changer-preview-summary' });
+
+        this.plans.forEach(plan => {
+            const details = this.resultsEl.createEl('details', { cls: 'title-changer-preview-group' });
+            const summary = details.createEl('summary');
+
+            const checkbox = summary.createEl('input', { type: 'checkbox' });
+            checkbox.checked = true;
+            checkbox.addEventListener('click', event => event.stopPropagation());
+            checkbox.addEventListener('change', () => {
+                if (checkbox.checked) {
+                    this.excluded.delete(plan.file.path);
+                } else {
+                    this.excluded.add(plan.file.path);
+                }
+                details.toggleClass('is-excluded', !checkbox.checked);
+                this.updateSummary(summaryEl);
+            });
+
+            summary.createSpan({ text: plan.file.path });
+            summary.createSpan({ text: ` (${plan.changes.length})`, cls: 'setting-item-description' });
+
+            const list = details.createEl('ul');
+            plan.changes.forEach(change => {
+                const item = list.createEl('li');
+                item.createSpan({ text: `第 ${change.line + 1} 行: `, cls: 'setting-item-description' });
+                item.createEl('code', { text: change.original });
+                item.createSpan({ text: ' → ' });
+                item.createEl('code', { text: change.replacement });
+            });
+        });
+
+        this.updateSummary(summaryEl);
+    }
+
+    /**
+     * 更新改动统计和应用按钮状态
+     * @param summaryEl 统计元素
+     */
+    private updateSummary(summaryEl?: HTMLElement): void {
+        const selected = this.getSelectedPlans();
+        const count = selected.reduce((sum, plan) => sum + plan.changes.length, 0);
+
+        summaryEl?.setText(`将转换 ${selected.length} 个文件中的 ${count} 个链接（已排除 ${this.excluded.size} 个文件）`);
+        this.applyButton.setDisabled(this.busy || count === 0);
+    }
+
+    /**
+     * 获取未被排除的转换计划
+     */
+    private getSelectedPlans(): AliasConversionPlan[] {
+        return this.plans.filter(plan => !this.excluded.has(plan.file.path));
+    }
+
+    /**
+     * 写入选中的改动
+     */
+    private async apply(): Promise<void> {
+        if (this.busy) return;
+        this.busy = true;
+        this.applyButton.setDisabled(true);
+
+        try {
+            await this.service.apply(this.getSelectedPlans(), this.folder);
+            this.close();
+        } finally {
+            this.busy = false;
+        }
+    }
+}
@@ -0,0 +1,85 @@
+import { App, Modal, Setting, TFile } from 'obsidian';
+
+/**
+ * 设置显示标题对话框
+ * 用于为单个文件输入手动显示标题
+ */
+export class DisplayTitleModal extends Modal {
+    private value: string;
+
+    /**
+     * @param app Obsidian应用实例
+     * @param file 目标文件
+     * @param currentTitle 当前显示标题
+     * @param hasOverride 文件是否已有手动标题
+     * @param onSubmit 提交回调，传入 null 表示清除手动标题
+     */
+    constructor(
+        app: App,
+        private file: TFile,
+        currentTitle: string,
+        private hasOverride: boolean,
+        private onSubmit: (title: string | null) => Promise<void>
+    ) {
+        super(app);
+        this.value = currentTitle;
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        contentEl.createEl('h3', { text: '设置显示标题' });
+        contentEl.createEl('p', {
+            text: `文件: ${this.file.path}`,
+            cls: 'setting-item-description'
+        });
+
+        new Setting(contentEl)
+            .setName('显示标题')
+            .setDesc('手动标题优先于 frontmatter、一级标题和正则规则。留空保存等同于清除。')
+            .addText(text => {
+                text.setValue(this.value)
+                    .onChange(value => {
+                        this.value = value;
+                    });
+                text.inputEl.style.width = '100%';
+                text.inputEl.addEventListener('keydown', (event: KeyboardEvent) => {
+                    if (event.key === 'Enter' && !event.isComposing) {
+                        event.preventDefault();
+                        void this.submit(this.value);
+                    }
+                });
+                window.setTimeout(() => text.inputEl.select(), 0);
+            });
+
+        const buttons = new Setting(contentEl);
+        if (this.hasOverride) {
+            buttons.addButton(button => button
+                .setButtonText('清除手动标题')
+                .setWarning()
+                .onClick(() => void this.submit(null)));
+        }
+        buttons
+            .addButton(button => button
+                .setButtonText('取消')
+                .onClick(() => this.close()))
+            .addButton(button => button
+                .setButtonText('保存')
+                .setCta()
+                .onClick(() => void this.submit(this.value)));
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+
+    /**
+     * 提交结果并关闭对话框
+     * @param title 手动标题，null 表示清除
+     */
+    private async submit(title: string | null): Promise<void> {
+        this.close();
+        await this.onSubmit(title);
+    }
+}
@@ -0,0 +1,46 @@
+import { App, Keymap, SuggestModal, TFile } from 'obsidian';
+import type { TitleSearchService } from '../../services/TitleSearchService';
+import { TitleSearchCandidate, TitleSearchMatch } from '../../utils/TitleSearch';
+import { renderTitleSuggestion } from '../suggest/renderTitleSuggestion';
+
+/**
+ * 按显示标题快速切换笔记的对话框
+ */
+export class DisplayTitleSwitcherModal extends SuggestModal<TitleSearchMatch<TFile>> {
+    // 打开时收集一次，避免每次输入都重新计算所有标题
+    private candidates: TitleSearchCandidate<TFile>[];
+
+    /**
+     * @param app Obsidian应用实例
+     * @param searchService 标题搜索服务
+     */
+    constructor(app: App, private searchService: TitleSearchService) {
+        super(app);
+        this.candidates = searchService.getCandidates();
+
+        this.setPlaceholder('按显示标题或文件名查找笔记…');
+        this.setInstructions([
+            { command: '↑↓', purpose: '选择' },
+            { command: '↵', purpose: '打开' },
+            { command: 'Ctrl ↵', purpose: '在新标签页中打开' },
+            { command: 'esc', purpose: '关闭' }
+        ]);
+
+        this.scope.register(['Mod'], 'Enter', (evt: KeyboardEvent) => {
+            this.selectActiveSuggestion(evt);
+            return false;
+        });
+    }
+
+    getSuggestions(query: string): TitleSearchMatch<TFile>[] {
+        return this.searchService.search(this.candidates, query);
+    }
+
+    renderSuggestion(match: TitleSearchMatch<TFile>, el: HTMLElement): void {
+        renderTitleSuggestion(match, el);
+    }
+
+    onChooseSuggestion(match: TitleSearchMatch<TFile>, evt: MouseEvent | KeyboardEvent): void {
+        void this.app.workspace.getLeaf(Keymap.isModEvent(evt)).openFile(match.item);
+    }
+}
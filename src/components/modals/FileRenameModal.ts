@@ -0,0 +1,138 @@
+import { App, ButtonComponent, Modal, Setting, TFile } from 'obsidian';
+import type { FileRenameEntry, FileRenameService } from '../../services/FileRenameService';
+
+/**
+ * 按命名模板重命名文件的对话框
+ * 修改模板时实时预览新文件名，冲突和无法生成文件名的文件单独列出且不会重命名
+ */
+export class FileRenameModal extends Modal {
+    private entries: FileRenameEntry[] = [];
+    private template: string;
+    private resultsEl!: HTMLElement;
+    private applyButton!: ButtonComponent;
+    private busy = false;
+
+    /**
+     * @param app Obsidian应用实例
+     * @param service 文件重命名服务
+     * @param files 要重命名的文件
+     */
+    constructor(app: App, private service: FileRenameService, private files: TFile[]) {
+        super(app);
+        this.template = service.getTemplate();
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('title-changer-file-rename');
+
+        contentEl.createEl('h3', { text: '按命名模板重命名' });
+        contentEl.createEl('p', {
+            text: '{{title}} 取自当前显示标题，{{date:YYYY_MM_DD}} 取自文件创建时间。链接按 Obsidian 的"自动更新内部链接"设置更新。',
+            cls: 'setting-item-description'
+        });
+
+        new Setting(contentEl)
+            .setName('命名模板')
+            .addText(text => text
+                .setPlaceholder('{{date:YYYY_MM_DD}}_{{title}}')
+                .setValue(this.template)
+                .onChange(value => {
+                    this.template = value;
+                    this.refreshPreview();
+                }));
+
+        this.resultsEl = contentEl.createDiv({ cls: 'title-changer-preview-results' });
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('取消')
+                .onClick(() => this.close()))
+            .addButton(button => {
+                this.applyButton = button
+                    .setButtonText('重命名')
+                    .setCta()
+                    .setDisabled(true)
+                    .onClick(() => void this.apply());
+            });
+
+        this.refreshPreview();
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+
+    /**
+     * 重新计算并显示预览
+     */
+    private refreshPreview(): void {
+        this.entries = this.service.preview(this.files, this.template);
+        this.resultsEl.empty();
+
+        const renames = this.getRenames();
+        const collisions = this.entries.filter(entry => entry.status === 'collision');
+        const invalid = this.entries.filter(entry => entry.status === 'invalid');
+        const unchanged = this.entries.length - renames.length - collisions.length - invalid.length;
+
+        this.resultsEl.createEl('p', {
+            text: `将重命名 ${renames.length} 个文件，跳过 ${collisions.length + invalid.length} 个，${unchanged} 个已符合模板`,
+            cls: 'title-changer-preview-summary'
+        });
+
+        this.renderGroup('将重命名', renames, true);
+        this.renderGroup('目标文件已存在（跳过）', collisions, true);
+        this.renderGroup('无法生成文件名（跳过）', invalid, false);
+
+        this.applyButton.setDisabled(this.busy || renames.length === 0);
+    }
+
+    /**
+     * 显示一组文件的重命名
+     * @param title 分组标题
+     * @param entries 重命名计划
+     * @param open 是否默认展开
+     */
+    private renderGroup(title: string, entries: FileRenameEntry[], open: boolean): void {
+        if (entries.length === 0) return;
+
+        const details = this.resultsEl.createEl('details', { cls: 'title-changer-preview-group' });
+        details.open = open;
+        details.createEl('summary', { text: `${title} (${entries.length})` });
+
+        const list = details.createEl('ul');
+        entries.forEach(entry => {
+            const item = list.createEl('li');
+            item.createEl('code', { text: entry.path });
+            if (entry.status !== 'invalid') {
+                item.createSpan({ text: ' → ' });
+                item.createEl('code', { text: entry.newPath });
+            }
+        });
+    }
+
+    /**
+     * 获取将要重命名的文件
+     */
+    private getRenames(): FileRenameEntry[] {
+        return this.entries.filter(entry => entry.status === 'rename');
+    }
+
+    /**
+     * 重命名文件并保存模板
+     */
+    private async apply(): Promise<void> {
+        if (this.busy) return;
+        this.busy = true;
+        this.applyButton.setDisabled(true);
+
+        try {
+            await this.service.setTemplate(this.template);
+            await this.service.apply(this.getRenames());
+            this.close();
+        } finally {
+            this.busy = false;
+        }
+    }
+}
@@ -0,0 +1,140 @@
+import { App, ButtonComponent, Modal, Setting, TFolder } from 'obsidian';
+import type { NewNoteService } from '../../services/NewNoteService';
+import { createTemplateId } from '../../utils/FileNameTemplate';
+
+/**
+ * 按命名约定新建笔记的对话框
+ * 只需输入标题，实时预览生成的文件名以及按当前规则显示的标题
+ */
+export class NewNoteModal extends Modal {
+    private title = '';
+    // 同一次新建中 {{id}} 保持不变，预览与创建的文件名一致
+    private ids = new Map<number, string>();
+    private previewEl!: HTMLElement;
+    private createButton!: ButtonComponent;
+    private busy = false;
+
+    /**
+     * @param app Obsidian应用实例
+     * @param service 新建笔记服务
+     * @param folder 新笔记所在的文件夹
+     */
+    constructor(app: App, private service: NewNoteService, private folder: TFolder) {
+        super(app);
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('title-changer-new-note');
+
+        contentEl.createEl('h3', { text: '新建笔记（按命名约定）' });
+
+        new Setting(contentEl)
+            .setName('标题')
+            .setDesc(`新笔记位于 "${this.folder.isRoot() ? '/' : this.folder.path}"`)
+            .addText(text => {
+                text.setPlaceholder('输入标题')
+                    .onChange(value => {
+                        this.title = value;
+                        this.refreshPreview();
+                    });
+                text.inputEl.addEventListener('keydown', (event: KeyboardEvent) => {
+                    if (event.key === 'Enter' && !event.isComposing) {
+                        event.preventDefault();
+                        void this.create();
+                    }
+                });
+                window.setTimeout(() => text.inputEl.focus(), 0);
+            });
+
+        this.previewEl = contentEl.createDiv({ cls: 'title-changer-new-note-preview' });
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('取消')
+                .onClick(() => this.close()))
+            .addButton(button => {
+                this.createButton = button
+                    .setButtonText('创建')
+                    .setCta()
+                    .setDisabled(true)
+                    .onClick(() => void this.create());
+            });
+
+        this.refreshPreview();
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+
+    /**
+     * 重新计算并显示文件名预览
+     */
+    private refreshPreview(): void {
+        this.previewEl.empty();
+
+        const note = this.service.preview(this.folder, this.title, length => this.getId(length));
+        this.previewEl.createEl('p', { text: `命名模板: ${note.template}`, cls: 'setting-item-description' });
+
+        if (this.title.trim() === '' || !note.baseName) {
+            this.createButton.setDisabled(true);
+            return;
+        }
+
+        const nameEl = this.previewEl.createEl('p');
+        nameEl.createSpan({ text: '文件名: ' });
+        nameEl.createEl('code', { text: `${note.baseName}.md` });
+
+        const titleEl = this.previewEl.createEl('p');
+        titleEl.createSpan({ text: '显示为: ' });
+        titleEl.createEl('code', { text: note.displayTitle });
+
+        if (note.exists) {
+            this.previewEl.createEl('p', { text: '同名文件已存在', cls: 'mod-warning' });
+        } else if (note.displayTitle !== this.title.trim()) {
+            this.previewEl.createEl('p', {
+                text: '按当前的正则规则，这个文件名不会显示为输入的标题，请检查命名模板或规则',
+                cls: 'mod-warning'
+            });
+        }
+
+        this.createButton.setDisabled(this.busy || note.exists);
+    }
+
+    /**
+     * 获取指定长度的 ID，同一长度只生成一次
+     * @param length 长度
+     */
+    private getId(length: number): string {
+        let id = this.ids.get(length);
+        if (id === undefined) {
+            id = createTemplateId(length);
+            this.ids.set(length, id);
+        }
+        return id;
+    }
+
+    /**
+     * 创建笔记
+     */
+    private async create(): Promise<void> {
+        if (this.busy || this.title.trim() === '') return;
+        this.busy = true;
+        this.createButton.setDisabled(true);
+
+        let created = false;
+        try {
+            created = (await this.service.create(this.folder, this.title, length => this.getId(length))) !== null;
+        } finally {
+            this.busy = false;
+        }
+
+        if (created) {
+            this.close();
+        } else {
+            this.refreshPreview();
+        }
+    }
+}
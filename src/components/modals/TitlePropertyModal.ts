@@ -0,0 +1,147 @@
+import { App, ButtonComponent, Modal, Setting } from 'obsidian';
+import type { TitlePropertyEntry, TitlePropertyService } from '../../services/TitlePropertyService';
+
+/**
+ * 将显示标题写入 frontmatter 的对话框
+ * 先预览每个文件的属性变化，已有用户填写值的文件单独列出且不会写入
+ */
+export class TitlePropertyModal extends Modal {
+    private entries: TitlePropertyEntry[] = [];
+    private resultsEl!: HTMLElement;
+    private applyButton!: ButtonComponent;
+    private busy = false;
+
+    /**
+     * @param app Obsidian应用实例
+     * @param service 标题属性服务
+     * @param folder 范围，空字符串表示整个库
+     */
+    constructor(app: App, private service: TitlePropertyService, private folder: string) {
+        super(app);
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('title-changer-title-property');
+
+        contentEl.createEl('h3', { text: '将显示标题写入 frontmatter' });
+        contentEl.createEl('p', {
+            text: `显示标题将写入 "${this.service.getKey()}" 属性，只处理插件生效范围内的文件。写入前会先列出所有改动。`,
+            cls: 'setting-item-description'
+        });
+
+        new Setting(contentEl)
+            .setName('范围')
+            .addDropdown(dropdown => {
+                dropdown.addOption('', '整个库');
+                this.service.getFolders().forEach(folder => dropdown.addOption(folder, folder));
+                dropdown.setValue(this.folder)
+                    .onChange(value => {
+                        this.folder = value;
+                        this.refreshPreview();
+                    });
+            });
+
+        this.resultsEl = contentEl.createDiv({ cls: 'title-changer-preview-results' });
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('取消')
+                .onClick(() => this.close()))
+            .addButton(button => {
+                this.applyButton = button
+                    .setButtonText('写入')
+                    .setCta()
+                    .setDisabled(true)
+                    .onClick(() => void this.apply());
+            });
+
+        this.refreshPreview();
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+
+    /**
+     * 重新计算并显示预览
+     */
+    private refreshPreview(): void {
+        this.entries = this.service.preview(this.folder);
+        this.resultsEl.empty();
+
+        const writable = this.getWritableEntries();
+        const conflicts = this.entries.filter(entry => entry.action === 'conflict');
+
+        if (this.entries.length === 0) {
+            this.resultsEl.createEl('p', { text: '所有文件的属性都已是最新', cls: 'setting-item-description' });
+        } else {
+            this.resultsEl.createEl('p', {
+                text: `将写入 ${writable.length} 个文件，跳过 ${conflicts.length} 个已有其他值的文件`,
+                cls: 'title-changer-preview-summary'
+            });
+        }
+
+        this.renderGroup('将写入', writable, true);
+        this.renderGroup('已有其他值（跳过，可在设置中允许覆盖）', conflicts, false);
+
+        this.applyButton.setDisabled(this.busy || writable.length === 0);
+    }
+
+    /**
+     * 显示一组文件的属性变化
+     * @param title 分组标题
+     * @param entries 写入计划
+     * @param open 是否默认展开
+     */
+    private renderGroup(title: string, entries: TitlePropertyEntry[], open: boolean): void {
+        if (entries.length === 0) return;
+
+        const details = this.resultsEl.createEl('details', { cls: 'title-changer-preview-group' });
+        details.open = open;
+        details.createEl('summary', { text: `${title} (${entries.length})` });
+
+        const list = details.createEl('ul');
+        entries.forEach(entry => {
+            const item = list.createEl('li');
+            item.createSpan({ text: `${entry.file.path}: ` });
+            if (entry.action !== 'add') {
+                item.createEl('code', { text: this.formatValue(entry.existing) });
+                item.createSpan({ text: ' → ' });
+            }
+            item.createEl('code', { text: entry.title });
+        });
+    }
+
+    /**
+     * 将属性值转换为可显示的文本
+     * @param value 属性值
+     */
+    private formatValue(value: unknown): string {
+        return typeof value === 'string' ? value : JSON.stringify(value);
+    }
+
+    /**
+     * 获取将要写入的文件
+     */
+    private getWritableEntries(): TitlePropertyEntry[] {
+        return this.entries.filter(entry => entry.action === 'add' || entry.action === 'update');
+    }
+
+    /**
+     * 写入属性
+     */
+    private async apply(): Promise<void> {
+        if (this.busy) return;
+        this.busy = true;
+        this.applyButton.setDisabled(true);
+
+        try {
+            await this.service.apply(this.getWritableEntries());
+            this.close();
+        } finally {
+            this.busy = false;
+        }
+    }
+}
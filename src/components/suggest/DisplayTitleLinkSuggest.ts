@@ -0,0 +1,111 @@
+import {
+    App,
+    Editor,
+    EditorPosition,
+    EditorSuggest,
+    EditorSuggestContext,
+    EditorSuggestTriggerInfo,
+    TFile
+} from 'obsidian';
+import type { TitleChangerSettings } from '../../settings';
+import type { TitleSearchService } from '../../services/TitleSearchService';
+import { TitleSearchCandidate, TitleSearchMatch } from '../../utils/TitleSearch';
+import { renderTitleSuggestion } from './renderTitleSuggestion';
+
+/**
+ * 带编辑器建议列表的工作区（Obsidian 内部 API）
+ */
+interface WorkspaceWithEditorSuggest {
+    editorSuggest?: {
+        suggests?: unknown[];
+    };
+}
+
+/**
+ * 输入 [[ 时按显示标题补全链接
+ */
+export class DisplayTitleLinkSuggest extends EditorSuggest<TitleSearchMatch<TFile>> {
+    // 每次弹出时收集一次，关闭后释放
+    private candidates: TitleSearchCandidate<TFile>[] | null = null;
+
+    /**
+     * @param app Obsidian应用实例
+     * @param settings 插件设置
+     * @param searchService 标题搜索服务
+     */
+    constructor(
+        app: App,
+        private settings: TitleChangerSettings,
+        private searchService: TitleSearchService
+    ) {
+        super(app);
+        this.limit = 50;
+    }
+
+    /**
+     * 将本补全移到内置链接补全之前，使其优先触发
+     */
+    prioritize(): void {
+        const suggests = (this.app.workspace as unknown as WorkspaceWithEditorSuggest).editorSuggest?.suggests;
+        if (!suggests) return;
+
+        const index = suggests.indexOf(this);
+        if (index > 0) {
+            suggests.splice(index, 1);
+            suggests.unshift(this);
+        }
+    }
+
+    onTrigger(cursor: EditorPosition, editor: Editor, _file: TFile | null): EditorSuggestTriggerInfo | null {
+        if (!this.settings.enableTitleLinkSuggest) return null;
+
+        const line = editor.getLine(cursor.line).substring(0, cursor.ch);
+        const start = line.lastIndexOf('[[');
+        if (start === -1) return null;
+
+        // 已闭合、或正在输入别名、标题和块引用时交给内置补全
+        const query = line.substring(start + 2);
+        if (/[\]|#^]/.test(query)) return null;
+
+        return {
+            start: { line: cursor.line, ch: start + 2 },
+            end: cursor,
+            query
+        };
+    }
+
+    getSuggestions(context: EditorSuggestContext): TitleSearchMatch<TFile>[] {
+        if (!this.candidates) {
+            this.candidates = this.searchService.getCandidates();
+        }
+        return this.searchService.search(this.candidates, context.query, this.limit);
+    }
+
+    renderSuggestion(match: TitleSearchMatch<TFile>, el: HTMLElement): void {
+        renderTitleSuggestion(match, el);
+    }
+
+    selectSuggestion(match: TitleSearchMatch<TFile>, _evt: MouseEvent | KeyboardEvent): void {
+        const context = this.context;
+        if (!context) return;
+
+        const { editor, start } = context;
+        const linktext = this.app.metadataCache.fileToLinktext(match.item, context.file.path, true);
+
+        // 编辑器自动补全的 ]] 一并替换，避免重复
+        let end = context.end;
+        const closing = editor.getRange(end, { line: end.line, ch: end.ch + 2 });
+        if (closing === ']]') {
+            end = { line: end.line, ch: end.ch + 2 };
+        }
+
+        editor.replaceRange(`${linktext}]]`, start, end);
+        editor.setCursor({ line: start.line, ch: start.ch + linktext.length + 2 });
+        this.close();
+    }
+
+    close(): void {
+        this.candidates = null;
+        super.close();
+    }
+}
@@ -0,0 +1,15 @@
+import { TFile, renderMatches } from 'obsidian';
+import { TitleSearchMatch } from '../../utils/TitleSearch';
+
+/**
+ * 渲染标题建议项：显示标题为主文本，文件路径为次要文本
+ * @param match 搜索结果
+ * @param el 建议项容器
+ */
+export function renderTitleSuggestion(match: TitleSearchMatch<TFile>, el: HTMLElement): void {
+    el.addClass('mod-complex');
+
+    const content = el.createDiv({ cls: 'suggestion-content' });
+    renderMatches(content.createDiv({ cls: 'suggestion-title' }), match.title, match.titleMatches);
+    renderMatches(content.createDiv({ cls: 'suggestion-note' }), match.path, match.pathMatches);
+}
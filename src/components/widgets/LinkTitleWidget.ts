@@ -3,6 +3,7 @@ import { Plugin } from 'obsidian';
 import { createSpan } from '../../utils/DomHelpers';
 import { ErrorManagerService } from '../../services/ErrorManagerService';
 import { Logger } from '../../utils/logger';
+import type { UIStateManager } from '../../services/UIStateManager';
 
 /**
  * 插件类型声明
@@ -12,6 +13,7 @@ export interface TitleChangerPlugin extends Plugin {
     // 使用可选属性，适配主插件类
     getErrorManager?(): ErrorManagerService;
     getLogger?(): Logger;
+    getUIStateManager?(): UIStateManager;
 }
 
 /**
@@ -38,6 +40,21 @@ export class LinkTitleWidget extends WidgetType {
      * @returns 创建的HTML元素
      */
     toDOM(): HTMLElement {
+        const element = this.createElement();
+        
+        // 编辑器视图样式的链接登记到UI状态管理器，以支持预览原始文件名
+        if (this.plugin) {
+            this.plugin.getUIStateManager?.()?.applyDisplayText(element, this.originalText, this.displayTitle);
+        }
+        
+        return element;
+    }
+
+    /**
+     * 根据是否有错误管理器创建元素
+     * @returns 创建的HTML元素
+     */
+    private createElement(): HTMLElement {
         // 检查是否有错误管理器和日志记录器
         const errorManager = this.plugin?.getErrorManager?.();
         const logger = this.plugin?.getLogger?.();
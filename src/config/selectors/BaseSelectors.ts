@@ -52,6 +52,32 @@ export const baseSelectors = {
         ]
     },
     
+    // 搜索面板结果列表选择器
+    searchPane: {
+        primary: '.workspace-leaf-content[data-type="search"] .search-result-container',
+        alternatives: [
+            '.search-result-container',
+            '.workspace-leaf-content[data-type="search"] .search-results-children'
+        ],
+        fallbacks: [
+            '.workspace-leaf-content[data-type="search"] .view-content',
+            '.workspace-leaf[data-type="search"]'
+        ]
+    },
+    
+    // 搜索结果中的文件标题选择器
+    searchResultTitles: {
+        primary: '.search-result-file-title .tree-item-inner',
+        alternatives: [
+            '.search-result-file-title .search-result-file-title-content',
+            '.search-result-file-title > span'
+        ],
+        fallbacks: [
+            '.search-result-file-title',
+            '.search-result .tree-item-self'
+        ]
+    },
+    
     // 属性选择器
     attributes: {
         path: 'data-path',
@@ -37,5 +37,14 @@ export const legacySelectors = {
             '.nav-file-title',
             ...baseSelectors.titleElements.alternatives
         ]
+    },
+    
+    searchResultTitles: {
+        ...baseSelectors.searchResultTitles,
+        primary: '.search-result-file-title > span',
+        alternatives: [
+            '.search-result-file-title .search-result-file-title-content',
+            '.search-result-file-title .tree-item-inner'
+        ]
     }
-}; 
\ No newline at end of file
+};
\ No newline at end of file
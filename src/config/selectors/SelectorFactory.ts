@@ -28,6 +28,16 @@ export interface SelectorConfig {
         alternatives: string[];
         fallbacks: string[];
     };
+    searchPane: {
+        primary: string;
+        alternatives: string[];
+        fallbacks: string[];
+    };
+    searchResultTitles: {
+        primary: string;
+        alternatives: string[];
+        fallbacks: string[];
+    };
     attributes: {
         path: string;
         title: string;
@@ -1,6 +1,6 @@
-import { App, Plugin, Vault } from 'obsidian';
+import { App, Plugin, TFile, TFolder, Vault } from 'obsidian';
 import { Container } from 'inversify';
-import { TitleChangerSettings, DEFAULT_SETTINGS } from './settings/TitleChangerSettings';
+import { TitleChangerSettings, migrateSettings } from './settings/TitleChangerSettings';
 import { TitleChangerSettingTab } from './settings/SettingTab';
 import { ViewManager } from './views/ViewManager';
 import { CacheManager } from './CacheManager';
@@ -17,9 +17,18 @@ import { LinkTransformerService } from './services/LinkTransformerService';
 import { UpdateScheduler } from './services/UpdateSchedulerService';
 import { ErrorManagerService } from './services/ErrorManagerService';
 import { TitleStateAdapter } from './services/TitleStateAdapter';
+import { TitleOverrideService } from './services/TitleOverrideService';
+import { TitleSearchService } from './services/TitleSearchService';
+import { LinkAliasService } from './services/LinkAliasService';
+import { TitlePropertyService } from './services/TitlePropertyService';
+import { FileRenameService } from './services/FileRenameService';
+import { NewNoteService } from './services/NewNoteService';
+import { PeekModeService } from './services/PeekModeService';
 import { EventBusService } from './services/EventBusService';
 import { IEventBusService } from './types/ObsidianExtensions';
 import { GraphView } from './views/GraphView';
+import { DisplayTitleSwitcherModal } from './components/modals/DisplayTitleSwitcherModal';
+import { DisplayTitleLinkSuggest } from './components/suggest/DisplayTitleLinkSuggest';
 import { ICacheManager } from './types/ObsidianExtensions';
 
 export class TitleChangerPlugin extends Plugin {
@@ -30,6 +39,13 @@ export class TitleChangerPlugin extends Plugin {
     private explorerView!: ExplorerView;
     private logger!: Logger;
     private titleStateAdapter!: TitleStateAdapter;
+    private titleOverrideService!: TitleOverrideService;
+    private titleSearchService!: TitleSearchService;
+    private linkAliasService!: LinkAliasService;
+    private titlePropertyService!: TitlePropertyService;
+    private fileRenameService!: FileRenameService;
+    private newNoteService!: NewNoteService;
+    private peekModeService!: PeekModeService;
     private eventBus!: IEventBusService;
 
     async onload() {
@@ -52,7 +68,17 @@ export class TitleChangerPlugin extends Plugin {
         this.explorerView = this.container.get<ExplorerView>(TYPES.ExplorerView);
         this.linkTransformer = this.container.get<LinkTransformerService>(TYPES.LinkTransformerService);
         this.titleStateAdapter = this.container.get<TitleStateAdapter>(TYPES.TitleStateAdapter);
+        this.titleOverrideService = this.container.get<TitleOverrideService>(TYPES.TitleOverrideService);
+        this.titleSearchService = this.container.get<TitleSearchService>(TYPES.TitleSearchService);
+        this.linkAliasService = this.container.get<LinkAliasService>(TYPES.LinkAliasService);
+        this.titlePropertyService = this.container.get<TitlePropertyService>(TYPES.TitlePropertyService);
+        this.fileRenameService = this.container.get<FileRenameService>(TYPES.FileRenameService);
+        this.newNoteService = this.container.get<NewNoteService>(TYPES.NewNoteService);
+        this.peekModeService = this.container.get<PeekModeService>(TYPES.PeekModeService);
         this.eventBus = this.container.get<IEventBusService>(TYPES.EventBusService);
+        
+        // 将 Obsidian 的文件和工作区事件转发到事件总线
+        this.eventBus.bridgeObsidianEvents();
 
         // 确保设置在容器初始化后立即应用到服务中
         this.linkTransformer.setSettings(this.settings);
@@ -65,6 +91,9 @@ export class TitleChangerPlugin extends Plugin {
 
         // 初始化数据管理和事件监听
         this.titleStateAdapter.initialize();
+        this.titleOverrideService.initialize();
+        this.titlePropertyService.initialize();
+        this.peekModeService.initialize();
         
         // 初始化视图管理器 - 延迟一些组件初始化以确保Obsidian完全加载
         try {
@@ -111,6 +140,31 @@ export class TitleChangerPlugin extends Plugin {
             this.viewManager.disableView('editor');
         }
 
+        // 根据设置初始化TabTitleView状态
+        if (!this.settings.enableTabTitleView) {
+            this.viewManager.disableView('tab');
+        }
+
+        // 根据设置初始化LinkPanesView状态
+        if (!this.settings.enableLinkPanesView) {
+            this.viewManager.disableView('links');
+        }
+
+        // 根据设置初始化SearchResultsView状态
+        if (!this.settings.enableSearchResultsView) {
+            this.viewManager.disableView('search');
+        }
+
+        // 根据设置初始化BookmarksView状态
+        if (!this.settings.enableBookmarksView) {
+            this.viewManager.disableView('bookmarks');
+        }
+
+        // 根据设置初始化CanvasView状态
+        if (!this.settings.enableCanvasView) {
+            this.viewManager.disableView('canvas');
+        }
+
         // 添加命令，刷新所有视图
         this.addCommand({
             id: 'refresh-title-changer-views',
@@ -120,15 +174,157 @@ export class TitleChangerPlugin extends Plugin {
             }
         });
 
+        // 添加命令，切换显示原始文件名
+        this.addCommand({
+            id: 'toggle-original-filenames',
+            name: '切换显示原始文件名',
+            callback: () => {
+                this.peekModeService.toggle();
+            }
+        });
+
+        // 添加命令，为当前文件设置手动显示标题
+        this.addCommand({
+            id: 'set-display-title',
+            name: '设置显示标题…',
+            checkCallback: (checking: boolean) => {
+                const file = this.app.workspace.getActiveFile();
+                if (!file) return false;
+                
+                if (!checking) {
+                    this.titleOverrideService.openEditor(file);
+                }
+                return true;
+            }
+        });
+        
+        // 添加命令，按显示标题快速切换笔记
+        this.addCommand({
+            id: 'open-display-title-switcher',
+            name: '快速切换（按显示标题）',
+            callback: () => {
+                new DisplayTitleSwitcherModal(this.app, this.titleSearchService).open();
+            }
+        });
+        
+        // 添加命令，将链接批量转换为以显示标题为别名的链接
+        this.addCommand({
+            id: 'convert-links-to-aliases',
+            name: '将链接转换为别名…',
+            callback: () => {
+                this.linkAliasService.openConverter();
+            }
+        });
+        
+        // 添加命令，撤销上次链接别名转换
+        this.addCommand({
+            id: 'undo-alias-conversion',
+            name: '撤销上次链接别名转换',
+            checkCallback: (checking: boolean) => {
+                if (!this.linkAliasService.canUndo()) return false;
+                
+                if (!checking) {
+                    void this.linkAliasService.undoLast();
+                }
+                return true;
+            }
+        });
+        
+        // 添加命令，将显示标题写入 frontmatter 属性
+        this.addCommand({
+            id: 'write-title-property',
+            name: '将显示标题写入 frontmatter…',
+            callback: () => {
+                this.titlePropertyService.openWriter();
+            }
+        });
+        
+        // 添加命令，按命名模板重命名当前文件
+        this.addCommand({
+            id: 'rename-from-template',
+            name: '按命名模板重命名…',
+            checkCallback: (checking: boolean) => {
+                const file = this.app.workspace.getActiveFile();
+                if (!file) return false;
+                
+                if (!checking) {
+                    this.fileRenameService.openRenamer([file]);
+                }
+                return true;
+            }
+        });
+        
+        // 添加命令，按命名约定新建笔记
+        this.addCommand({
+            id: 'new-note-with-convention',
+            name: '新建笔记（按命名约定）',
+            callback: () => {
+                this.newNoteService.openCreator();
+            }
+        });
+        
+        // 注册链接补全，输入 [[ 时按显示标题搜索
+        const linkSuggest = new DisplayTitleLinkSuggest(this.app, this.settings, this.titleSearchService);
+        this.registerEditorSuggest(linkSuggest);
+        linkSuggest.prioritize();
+        
+        // 在文件浏览器右键菜单中添加设置显示标题、按命名模板重命名和文件夹批量操作入口
+        this.registerEvent(
+            this.app.workspace.on('file-menu', (menu, file) => {
+                if (file instanceof TFolder) {
+                    menu.addItem(item => item
+                        .setTitle('新建笔记（按命名约定）')
+                        .setIcon('file-plus')
+                        .onClick(() => this.newNoteService.openCreator(file)));
+                    menu.addItem(item => item
+                        .setTitle('将链接转换为别名…')
+                        .setIcon('link')
+                        .onClick(() => this.linkAliasService.openConverter(file.isRoot() ? '' : file.path)));
+                    menu.addItem(item => item
+                        .setTitle('将显示标题写入 frontmatter…')
+                        .setIcon('file-input')
+                        .onClick(() => this.titlePropertyService.openWriter(file.isRoot() ? '' : file.path)));
+                    menu.addItem(item => item
+                        .setTitle('按命名模板重命名…')
+                        .setIcon('text-cursor-input')
+                        .onClick(() => this.fileRenameService.openRenamer([file])));
+                    return;
+                }
+                if (!(file instanceof TFile)) return;
+                
+                menu.addItem(item => item
+                    .setTitle('设置显示标题…')
+                    .setIcon('pencil')
+                    .onClick(() => this.titleOverrideService.openEditor(file)));
+                menu.addItem(item => item
+                    .setTitle('按命名模板重命名…')
+                    .setIcon('text-cursor-input')
+                    .onClick(() => this.fileRenameService.openRenamer([file])));
+            })
+        );
+        
+        // 在文件浏览器多选的右键菜单中添加按命名模板重命名
+        this.registerEvent(
+            this.app.workspace.on('files-menu', (menu, files) => {
+                menu.addItem(item => item
+                    .setTitle('按命名模板重命名…')
+                    .setIcon('text-cursor-input')
+                    .onClick(() => this.fileRenameService.openRenamer(files)));
+            })
+        );
+
         // 注册后处理器，确保阅读视图中的链接得到处理
         this.registerMarkdownPostProcessor((element, context) => {
             // 处理渲染后的Markdown内容中的内部链接
-            this.linkTransformer.processInternalLinks(element);
+            this.linkTransformer.processInternalLinks(element, context.sourcePath);
             
             // 使用requestAnimationFrame替代setTimeout进行延迟处理
             // 确保动态加载的内容也能正确显示
             requestAnimationFrame(() => {
-                this.linkTransformer.processInternalLinks(element);
+                this.linkTransformer.processInternalLinks(element, context.sourcePath);
+                
+                // 嵌入内容（包括实时预览中的嵌入）渲染完成后才挂载到嵌入元素中
+                this.linkTransformer.processEmbedTitles(element, context.sourcePath);
             });
         });
     }
@@ -145,6 +341,11 @@ export class TitleChangerPlugin extends Plugin {
             this.eventBus.unsubscribeAll();
         }
         
+        // 结束原始文件名预览
+        if (this.peekModeService) {
+            this.peekModeService.unload();
+        }
+        
         // 卸载视图管理器
         if (this.viewManager) {
             this.viewManager.unload();
@@ -160,6 +361,16 @@ export class TitleChangerPlugin extends Plugin {
             this.titleStateAdapter.unload();
         }
         
+        // 取消手动标题服务的事件订阅
+        if (this.titleOverrideService) {
+            this.titleOverrideService.unload();
+        }
+        
+        // 取消标题属性服务的事件订阅
+        if (this.titlePropertyService) {
+            this.titlePropertyService.unload();
+        }
+        
         // 处理缓存管理器资源释放
         if (this.container) {
             try {
@@ -186,12 +397,15 @@ export class TitleChangerPlugin extends Plugin {
     }
 
     async loadSettings() {
-        this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+        this.settings = migrateSettings(await this.loadData());
     }
 
     async saveSettings() {
         await this.saveData(this.settings);
         
+        // 规则等设置变更后，已缓存的标题可能失效
+        this.getCacheManager().clearCache();
+        
         // 更新链接转换器的设置
         this.linkTransformer.setSettings(this.settings);
         
@@ -239,6 +453,14 @@ export class TitleChangerPlugin extends Plugin {
         return this.container.get<ErrorManagerService>(TYPES.ErrorManager);
     }
 
+    /**
+     * 获取UI状态管理器实例
+     * @returns UI状态管理器实例
+     */
+    getUIStateManager(): UIStateManager {
+        return this.container.get<UIStateManager>(TYPES.UIStateManager);
+    }
+
     /**
      * 获取事件总线实例
      * @returns 事件总线实例
@@ -247,6 +469,22 @@ export class TitleChangerPlugin extends Plugin {
         return this.eventBus;
     }
 
+    /**
+     * 获取手动标题服务实例
+     * @returns 手动标题服务实例
+     */
+    getTitleOverrideService(): TitleOverrideService {
+        return this.titleOverrideService;
+    }
+
+    /**
+     * 获取标题属性服务实例
+     * @returns 标题属性服务实例
+     */
+    getTitlePropertyService(): TitlePropertyService {
+        return this.titlePropertyService;
+    }
+
     /**
      * 获取缓存管理器实例
      * @returns 缓存管理器实例
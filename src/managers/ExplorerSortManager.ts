@@ -0,0 +1,244 @@
+import { TAbstractFile, TFile, TFolder, View } from 'obsidian';
+import { injectable, inject } from 'inversify';
+import { TYPES } from '../types/symbols';
+import type { TitleChangerPlugin } from '../main';
+import { Logger } from '../utils/logger';
+import { ErrorManagerService, ErrorLevel } from '../services/ErrorManagerService';
+import { ErrorCategory } from '../utils/errors';
+import { AbstractManager } from './base/AbstractManager';
+import { CacheManager } from '../CacheManager';
+import { UpdateScheduler } from '../services/UpdateSchedulerService';
+import { ExplorerSortMode, sortByDisplayTitle } from '../utils/TitleSort';
+
+/**
+ * 文件浏览器中的单个条目（Obsidian 内部 API）
+ */
+interface FileExplorerItem {
+    file: TAbstractFile;
+}
+
+/**
+ * 文件浏览器视图（Obsidian 内部 API）
+ * 文件浏览器按 getSortedFolderItems 的结果渲染虚拟列表，因此在数据层排序，
+ * 滚动和重新渲染时顺序保持不变
+ */
+interface FileExplorerView extends View {
+    getSortedFolderItems?: (folder: TFolder) => FileExplorerItem[];
+    sort?: () => void;
+    requestSort?: () => void;
+}
+
+/**
+ * 文件浏览器排序管理器
+ * 负责按显示标题对文件浏览器中的文件排序
+ */
+@injectable()
+export class ExplorerSortManager extends AbstractManager {
+    private static readonly MANAGER_ID = 'explorer-sort-manager';
+    private static readonly RESORT_DELAY = 300; // 标题变化后重新排序的延迟(ms)
+
+    private mode: ExplorerSortMode = 'default';
+    private patchedViews = new Map<FileExplorerView, FileExplorerView['getSortedFolderItems']>();
+
+    constructor(
+        @inject(TYPES.Plugin) plugin: TitleChangerPlugin,
+        @inject(TYPES.Logger) logger: Logger,
+        @inject(TYPES.ErrorManager) errorManager: ErrorManagerService,
+        @inject(TYPES.CacheManager) private cacheManager: CacheManager,
+        @inject(TYPES.UpdateScheduler) private updateScheduler: UpdateScheduler
+    ) {
+        super(plugin, logger, errorManager);
+    }
+
+    /**
+     * 初始化排序管理器
+     */
+    initialize(): void {
+        this.logInfo(`[${ExplorerSortManager.MANAGER_ID}] 正在初始化...`);
+
+        this.safeOperation(
+            () => {
+                const { workspace, metadataCache, vault } = this.plugin.app;
+
+                // 显示标题可能变化时重新排序
+                this.plugin.registerEvent(workspace.on('title-changed', () => this.scheduleResort()));
+                this.plugin.registerEvent(metadataCache.on('changed', () => this.scheduleResort()));
+                this.plugin.registerEvent(vault.on('rename', () => this.scheduleResort()));
+            },
+            'ExplorerSortManager',
+            '初始化文件浏览器排序管理器失败',
+            ErrorCategory.LIFECYCLE,
+            ErrorLevel.ERROR,
+            { action: 'initialize' }
+        );
+
+        this.logInfo(`[${ExplorerSortManager.MANAGER_ID}] 初始化完成`);
+    }
+
+    /**
+     * 应用排序方式
+     * 排序方式未变且所有文件浏览器都已处理时不做任何操作，可在每次视图更新时调用
+     * @param mode 排序方式
+     */
+    applySortMode(mode: ExplorerSortMode): void {
+        this.safeOperation(
+            () => {
+                const modeChanged = mode !== this.mode;
+                this.mode = mode;
+
+                if (mode === 'default') {
+                    if (this.patchedViews.size > 0) {
+                        this.restoreAll();
+                    }
+                    return;
+                }
+
+                const views = this.getExplorerViews();
+
+                // 清理已关闭的文件浏览器
+                this.patchedViews.forEach((_original, view) => {
+                    if (!views.includes(view)) {
+                        this.patchedViews.delete(view);
+                    }
+                });
+
+                views.forEach(view => {
+                    if (!this.patchedViews.has(view)) {
+                        if (this.patchView(view)) {
+                            this.resortView(view);
+                        }
+                    } else if (modeChanged) {
+                        this.resortView(view);
+                    }
+                });
+            },
+            'ExplorerSortManager',
+            '应用文件浏览器排序失败',
+            ErrorCategory.UI,
+            ErrorLevel.WARNING,
+            { mode }
+        );
+    }
+
+    /**
+     * 卸载排序管理器，恢复 Obsidian 的默认排序
+     */
+    unload(): void {
+        this.logInfo(`[${ExplorerSortManager.MANAGER_ID}] 正在卸载...`);
+
+        this.updateScheduler.cancelScheduledUpdate(ExplorerSortManager.MANAGER_ID);
+        this.restoreAll();
+        this.mode = 'default';
+
+        this.logInfo(`[${ExplorerSortManager.MANAGER_ID}] 卸载完成`);
+    }
+
+    /**
+     * 获取所有文件浏览器视图
+     */
+    private getExplorerViews(): FileExplorerView[] {
+        return this.plugin.app.workspace
+            .getLeavesOfType('file-explorer')
+            .map(leaf => leaf.view as FileExplorerView);
+    }
+
+    /**
+     * 替换文件浏览器的排序方法
+     * @param view 文件浏览器视图
+     * @returns 是否替换成功
+     */
+    private patchView(view: FileExplorerView): boolean {
+        const original = view.getSortedFolderItems;
+        if (typeof original !== 'function') {
+            this.logDebug(`[${ExplorerSortManager.MANAGER_ID}] 当前版本的文件浏览器不支持自定义排序`);
+            return false;
+        }
+
+        const hadOwnMethod = Object.prototype.hasOwnProperty.call(view, 'getSortedFolderItems');
+        this.patchedViews.set(view, hadOwnMethod ? original : undefined);
+
+        view.getSortedFolderItems = (folder: TFolder) => this.sortItems(original.call(view, folder));
+        return true;
+    }
+
+    /**
+     * 按显示标题排序条目，文件夹保持原有顺序并排在文件之前
+     * @param items Obsidian 排序后的条目
+     * @returns 排序后的条目
+     */
+    private sortItems(items: FileExplorerItem[]): FileExplorerItem[] {
+        return this.safeOperation(
+            () => {
+                const folders = items.filter(item => !(item.file instanceof TFile));
+                const files = items.filter(item => item.file instanceof TFile);
+
+                const sortedFiles = sortByDisplayTitle(
+                    files,
+                    item => {
+                        const file = item.file as TFile;
+                        return {
+                            title: this.cacheManager.processFile(file) ?? file.basename,
+                            name: file.name
+                        };
+                    },
+                    this.mode
+                );
+
+                return [...folders, ...sortedFiles];
+            },
+            'ExplorerSortManager',
+            '按显示标题排序失败',
+            ErrorCategory.UI,
+            ErrorLevel.WARNING
+        ) ?? items;
+    }
+
+    /**
+     * 请求文件浏览器重新排序
+     * @param view 文件浏览器视图
+     */
+    private resortView(view: FileExplorerView): void {
+        if (typeof view.requestSort === 'function') {
+            view.requestSort();
+        } else if (typeof view.sort === 'function') {
+            view.sort();
+        }
+    }
+
+    /**
+     * 显示标题变化后延迟重新排序
+     */
+    private scheduleResort(): void {
+        if (this.mode === 'default' || this.patchedViews.size === 0) return;
+
+        this.updateScheduler.scheduleUpdate(
+            ExplorerSortManager.MANAGER_ID,
+            () => this.patchedViews.forEach((_original, view) => this.resortView(view)),
+            ExplorerSortManager.RESORT_DELAY
+        );
+    }
+
+    /**
+     * 恢复所有文件浏览器的排序方法并重新排序
+     */
+    private restoreAll(): void {
+        this.safeOperation(
+            () => {
+                this.patchedViews.forEach((original, view) => {
+                    if (original) {
+                        view.getSortedFolderItems = original;
+                    } else {
+                        // 原方法来自原型，删除实例上的覆盖即可
+                        delete view.getSortedFolderItems;
+                    }
+                    this.resortView(view);
+                });
+                this.patchedViews.clear();
+            },
+            'ExplorerSortManager',
+            '恢复文件浏览器排序失败',
+            ErrorCategory.UI,
+            ErrorLevel.WARNING
+        );
+    }
+}
@@ -75,6 +75,11 @@ export class FileItemProcessor extends AbstractManager {
             () => {
                 const fileExplorers = this.domSelector.getFileExplorers();
                 
+                // 预览原始文件名期间不处理，新渲染的文件项保持原始文件名
+                if (this.uiStateManager.isPeekMode()) {
+                    return fileExplorers.length;
+                }
+                
                 // 检查是否需要节流
                 const now = performance.now();
                 const timeSinceLastProcess = now - this.lastProcessTime;
@@ -212,6 +217,8 @@ export class FileItemProcessor extends AbstractManager {
     processExplorer(explorer: HTMLElement, isEnabled: boolean): void {
         this.safeOperation(
             () => {
+                if (this.uiStateManager.isPeekMode()) return;
+                
                 const fileItems = this.domSelector.getFileItems(explorer);
                 
                 if (fileItems.length === 0) {
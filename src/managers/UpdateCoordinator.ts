@@ -97,7 +97,7 @@ export class UpdateCoordinator extends AbstractManager {
         this.safeOperation(
             () => {
                 // 在初始化时为缓存失效设置回调函数
-                const invalidateFileCallback = (file: TFile) => this.cacheManager.invalidateFile(file);
+                const invalidateFileCallback = (file: TFile, oldPath?: string) => this.cacheManager.invalidateFile(file, oldPath);
                 const updateCallback = () => this.scheduleUpdate();
                 
                 // 使用统一的注册事件方法
@@ -1,11 +1,13 @@
 import { EditorView, Decoration, DecorationSet, ViewUpdate, ViewPlugin } from '@codemirror/view';
 import { RangeSetBuilder } from '@codemirror/state';
+import { App, TFile, editorInfoField } from 'obsidian';
 import type { ICacheManager } from '../types/ObsidianExtensions';
 import { injectable, inject } from 'inversify';
 import { TYPES } from '../types/symbols';
 import { ErrorManagerService, ErrorLevel } from './ErrorManagerService';
 import { LinkTitleWidget } from '../components/widgets/LinkTitleWidget';
-import { extractSimpleWikiLinks, shouldReplaceTitle } from '../utils/WikiLinkProcessor';
+import { extractSimpleWikiLinks, formatLinkTitle, shouldReplaceTitle } from '../utils/WikiLinkProcessor';
+import { extractMarkdownLinks, shouldReplaceMarkdownLinkText } from '../utils/MarkdownLinkProcessor';
 import { tryCatchWrapper, logErrorsWithoutThrowing } from '../utils/ErrorHelpers';
 import { ErrorCategory, DecorationError } from '../utils/errors';
 import { Logger } from '../utils/logger';
@@ -18,7 +20,8 @@ export class DecorationManager {
     constructor(
         @inject(TYPES.CacheManager) private cacheManager: ICacheManager,
         @inject(TYPES.ErrorManager) private errorManager: ErrorManagerService,
-        @inject(TYPES.Logger) private logger: Logger
+        @inject(TYPES.Logger) private logger: Logger,
+        @inject(TYPES.App) private app: App
     ) {}
 
     /**
@@ -86,10 +89,13 @@ export class DecorationManager {
                 const processFrom = Math.max(0, from - dynamicBufferSize);
                 const processTo = Math.min(doc.length, to + dynamicBufferSize);
 
+                // Markdown链接的相对路径按当前文件解析
+                const sourcePath = view.state.field(editorInfoField, false)?.file?.path ?? '';
+
                 let pos = processFrom;
                 while (pos <= processTo) {
                     const line = doc.lineAt(pos);
-                    this.processLine(line.text, line.from, builder);
+                    this.processLine(line.text, line.from, sourcePath, builder);
                     pos = line.to + 1;
                 }
 
@@ -122,19 +128,25 @@ export class DecorationManager {
     /**
      * 处理单行内容
      */
-    private processLine(text: string, lineStart: number, builder: RangeSetBuilder<Decoration>): void {
+    private processLine(text: string, lineStart: number, sourcePath: string, builder: RangeSetBuilder<Decoration>): void {
+        const ranges: { from: number; to: number; decoration: Decoration }[] = [];
+
         // 使用新的工具函数提取Wiki链接
         const wikiLinks = extractSimpleWikiLinks(text, lineStart);
         
         for (const link of wikiLinks) {
             logErrorsWithoutThrowing(
                 () => {
-                    const displayTitle = this.cacheManager.getDisplayTitle(link.fileName);
+                    // 按链接所在位置解析文件，同名文件各自使用自己的标题
+                    const file = this.app.metadataCache.getFirstLinkpathDest(link.fileName, sourcePath);
+                    if (!(file instanceof TFile)) return true;
+
+                    const displayTitle = this.cacheManager.processFile(file);
                     if (displayTitle && displayTitle !== link.fileName && shouldReplaceTitle(link)) {
                         const decoration = Decoration.replace({
                             widget: new LinkTitleWidget(displayTitle, link.fileName)
                         });
-                        builder.add(link.start, link.end, decoration);
+                        ranges.push({ from: link.start, to: link.end, decoration });
                     }
                     return true;
                 },
@@ -154,6 +166,47 @@ export class DecorationManager {
                 }
             );
         }
+
+        // 链接文本就是文件名的Markdown链接
+        for (const link of extractMarkdownLinks(text, lineStart)) {
+            if (!shouldReplaceMarkdownLinkText(link)) continue;
+
+            logErrorsWithoutThrowing(
+                () => {
+                    const file = this.app.metadataCache.getFirstLinkpathDest(link.linkpath, sourcePath);
+                    if (!(file instanceof TFile)) return true;
+
+                    const displayTitle = this.cacheManager.processFile(file);
+                    if (displayTitle && displayTitle !== file.basename) {
+                        // 标题链接显示为"显示标题 › 标题"，与 LinkTitleExtension 一致
+                        const decoration = Decoration.replace({
+                            widget: new LinkTitleWidget(formatLinkTitle(displayTitle, link.subPath), link.text)
+                        });
+                        ranges.push({ from: link.textStart, to: link.textEnd, decoration });
+                    }
+                    return true;
+                },
+                this.constructor.name,
+                this.errorManager,
+                this.logger,
+                {
+                    errorMessage: '处理Markdown链接装饰时出错',
+                    category: ErrorCategory.DECORATION,
+                    level: ErrorLevel.WARNING,
+                    defaultValue: true,
+                    details: {
+                        linkPath: link.linkpath,
+                        linkStart: link.start,
+                        linkEnd: link.end
+                    }
+                }
+            );
+        }
+
+        // RangeSetBuilder 要求按位置顺序添加装饰
+        ranges
+            .sort((a, b) => a.from - b.from)
+            .forEach(range => builder.add(range.from, range.to, range.decoration));
     }
 
     /**
@@ -216,6 +216,99 @@ export class DOMSelectorService implements IDOMSelectorService {
         ) || [];
     }
 
+    /**
+     * 获取搜索面板元素
+     * 优先通过Obsidian API获取，失败时回退到DOM选择器
+     */
+    getSearchPanes(): HTMLElement[] {
+        return tryCatchWrapper(
+            () => {
+                const panes: HTMLElement[] = [];
+                
+                this.app.workspace.getLeavesOfType('search').forEach((leaf: WorkspaceLeaf) => {
+                    const containerEl = leaf.view?.containerEl;
+                    if (containerEl && !panes.includes(containerEl)) {
+                        panes.push(containerEl);
+                    }
+                });
+                
+                if (panes.length > 0) return panes;
+                
+                const { primary, alternatives, fallbacks } = this.selectorConfig.searchPane;
+                for (const selector of [primary, alternatives.join(', '), fallbacks.join(', ')]) {
+                    const elements = this.safeQuerySelector<HTMLElement>(document, selector, true);
+                    if (elements.length > 0) return elements;
+                }
+                
+                return [];
+            },
+            this.constructor.name,
+            this.errorManager,
+            this.logger,
+            {
+                errorMessage: '获取搜索面板时出错',
+                category: ErrorCategory.UI,
+                level: ErrorLevel.WARNING,
+                details: { selectors: this.selectorConfig.searchPane },
+                userVisible: false
+            }
+        ) || [];
+    }
+
+    /**
+     * 获取搜索结果中的文件标题元素
+     * 回退选择器匹配到的元素可能包含图标等子元素，此时取其中只包含文本的元素
+     */
+    getSearchResultTitles(container: HTMLElement): HTMLElement[] {
+        return tryCatchWrapper(
+            () => {
+                const { primary, alternatives, fallbacks } = this.selectorConfig.searchResultTitles;
+                
+                for (const selector of [primary, ...alternatives]) {
+                    const titles = this.safeQuerySelector<HTMLElement>(container, selector, true);
+                    if (titles.length > 0) return titles;
+                }
+                
+                const titles: HTMLElement[] = [];
+                this.safeQuerySelector<HTMLElement>(container, fallbacks.join(', '), true).forEach(el => {
+                    const textEl = this.findTextLeaf(el);
+                    if (textEl && !titles.includes(textEl)) {
+                        titles.push(textEl);
+                    }
+                });
+                return titles;
+            },
+            this.constructor.name,
+            this.errorManager,
+            this.logger,
+            {
+                errorMessage: '获取搜索结果标题时出错',
+                category: ErrorCategory.UI,
+                level: ErrorLevel.WARNING,
+                details: { selectors: this.selectorConfig.searchResultTitles },
+                userVisible: false
+            }
+        ) || [];
+    }
+
+    /**
+     * 查找元素自身或其后代中第一个只包含文本的元素
+     */
+    private findTextLeaf(element: HTMLElement): HTMLElement | null {
+        if (element.children.length === 0) {
+            return element.textContent?.trim() ? element : null;
+        }
+        
+        for (const child of Array.from(element.querySelectorAll<HTMLElement>('*'))) {
+            if (child.children.length === 0 &&
+                child.textContent?.trim() &&
+                !(child instanceof SVGElement)) {
+                return child;
+            }
+        }
+        return null;
+    }
+
     /**
      * 获取文本元素
      */
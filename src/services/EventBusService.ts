@@ -1,11 +1,12 @@
-import { App, EventRef } from 'obsidian';
+import { App, EventRef, Events } from 'obsidian';
 import { injectable, inject } from 'inversify';
 import { TYPES } from '../types/symbols';
 import { 
     EventType, 
     IEvent, 
     EventCallback, 
-    IEventBusService 
+    IEventBusService,
+    TitleChangedEvent
 } from '../types/ObsidianExtensions';
 import { ErrorManagerService, ErrorLevel } from './ErrorManagerService';
 import { ErrorCategory, EventError } from '../utils/errors';
@@ -26,7 +27,7 @@ interface Subscription {
 export class EventBusService implements IEventBusService {
     private subscriptions: Map<string, Subscription> = new Map();
     private subscriptionsByType: Map<EventType, Set<string>> = new Map();
-    private obsidianEventRefs: EventRef[] = [];
+    private obsidianEventRefs: { source: Events; ref: EventRef }[] = [];
 
     constructor(
         @inject(TYPES.App) private app: App,
@@ -195,8 +196,8 @@ export class EventBusService implements IEventBusService {
             });
             
             // 取消所有Obsidian事件监听
-            this.obsidianEventRefs.forEach(ref => {
-                this.app.workspace.offref(ref);
+            this.obsidianEventRefs.forEach(({ source, ref }) => {
+                source.offref(ref);
             });
             this.obsidianEventRefs = [];
             
@@ -220,6 +221,11 @@ export class EventBusService implements IEventBusService {
      * 将Obsidian的内置事件转发到事件总线系统
      */
     public bridgeObsidianEvents(): void {
+        // 避免重复桥接
+        if (this.obsidianEventRefs.length > 0) {
+            return;
+        }
+        
         // 注册文件事件
         const fileCreatedRef = this.app.vault.on('create', (file) => {
             this.publish({
@@ -228,7 +234,7 @@ export class EventBusService implements IEventBusService {
                 source: 'obsidian.vault'
             });
         });
-        this.obsidianEventRefs.push(fileCreatedRef);
+        this.obsidianEventRefs.push({ source: this.app.vault, ref: fileCreatedRef });
 
         const fileRenamedRef = this.app.vault.on('rename', (file, oldPath) => {
             this.publish({
@@ -237,7 +243,7 @@ export class EventBusService implements IEventBusService {
                 source: 'obsidian.vault'
             });
         });
-        this.obsidianEventRefs.push(fileRenamedRef);
+        this.obsidianEventRefs.push({ source: this.app.vault, ref: fileRenamedRef });
 
         const fileDeletedRef = this.app.vault.on('delete', (file) => {
             this.publish({
@@ -246,7 +252,7 @@ export class EventBusService implements IEventBusService {
                 source: 'obsidian.vault'
             });
         });
-        this.obsidianEventRefs.push(fileDeletedRef);
+        this.obsidianEventRefs.push({ source: this.app.vault, ref: fileDeletedRef });
 
         const fileModifiedRef = this.app.vault.on('modify', (file) => {
             this.publish({
@@ -255,7 +261,7 @@ export class EventBusService implements IEventBusService {
                 source: 'obsidian.vault'
             });
         });
-        this.obsidianEventRefs.push(fileModifiedRef);
+        this.obsidianEventRefs.push({ source: this.app.vault, ref: fileModifiedRef });
 
         // 监听工作区布局变化
         const layoutChangedRef = this.app.workspace.on('layout-change', () => {
@@ -264,7 +270,7 @@ export class EventBusService implements IEventBusService {
                 source: 'obsidian.workspace'
             });
         });
-        this.obsidianEventRefs.push(layoutChangedRef);
+        this.obsidianEventRefs.push({ source: this.app.workspace, ref: layoutChangedRef });
 
         // 监听活动叶子变化
         const activeLeafChangedRef = this.app.workspace.on('active-leaf-change', () => {
@@ -273,7 +279,17 @@ export class EventBusService implements IEventBusService {
                 source: 'obsidian.workspace'
             });
         });
-        this.obsidianEventRefs.push(activeLeafChangedRef);
+        this.obsidianEventRefs.push({ source: this.app.workspace, ref: activeLeafChangedRef });
+
+        // 标题服务通过工作区事件通知标题变更
+        const titleChangedRef = this.app.workspace.on('title-changed', (data: TitleChangedEvent) => {
+            this.publish({
+                type: EventType.TITLE_CHANGED,
+                payload: data,
+                source: 'obsidian.workspace'
+            });
+        });
+        this.obsidianEventRefs.push({ source: this.app.workspace, ref: titleChangedRef });
 
         this.logger.debug('已桥接Obsidian事件到事件总线');
     }
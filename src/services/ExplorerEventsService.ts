@@ -64,7 +64,7 @@ export class ExplorerEventsService {
      * 注册所有事件监听器
      * @param callback 事件触发时的回调函数
      */
-    public registerEvents(callback: () => void, invalidateCallback?: (file: TFile) => void): void {
+    public registerEvents(callback: () => void, invalidateCallback?: (file: TFile, oldPath?: string) => void): void {
         try {
             // 订阅事件总线中的事件
             this.registerEventBusEvents(callback, invalidateCallback);
@@ -101,7 +101,7 @@ export class ExplorerEventsService {
      */
     private registerEventBusEvents(
         updateCallback: () => void, 
-        invalidateCallback?: (file: TFile) => void
+        invalidateCallback?: (file: TFile, oldPath?: string) => void
     ): void {
         try {
             // 文件重命名事件
@@ -111,7 +111,7 @@ export class ExplorerEventsService {
                     try {
                         if (event.payload.file instanceof TFile) {
                             if (invalidateCallback) {
-                                invalidateCallback(event.payload.file);
+                                invalidateCallback(event.payload.file, event.payload.oldPath);
                             }
                             
                             // 使用立即更新函数提高响应速度
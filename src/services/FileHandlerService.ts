@@ -16,6 +16,7 @@ export interface IStateService {
     getOriginalText(element: Element): string | undefined;
     hasOriginalText(element: Element): boolean;
     restoreOriginalText(element: Element): boolean;
+    applyDisplayText(element: Element, originalText: string, displayText: string): void;
 }
 
 /**
@@ -43,6 +44,21 @@ export class FileHandlerService {
         return files.find(file => file.basename === basename) || null;
     }
 
+    /**
+     * 查找文本元素对应的文件
+     * 优先使用所在条目的 data-path，找不到时按基本名称查找
+     * @param element 文本元素
+     * @param basename 元素中的文件名
+     */
+    private findFileForElement(element: Element, basename: string): TFile | null {
+        const path = element.closest('[data-path]')?.getAttribute('data-path');
+        if (path) {
+            const file = this.vault.getAbstractFileByPath(path);
+            if (file instanceof TFile) return file;
+        }
+        return this.findFileByBasename(basename);
+    }
+
     /**
      * 安全地设置文本内容
      */
@@ -130,12 +146,9 @@ export class FileHandlerService {
         // 获取显示标题 - 强制重新处理文件确保最新状态
         const displayTitle = cacheManager.processFile(file);
 
-        // 如果有自定义显示标题，更新显示
+        // 如果有自定义显示标题，更新显示（预览原始文件名期间保持原始文件名）
         if (displayTitle) {
-            // 仅当当前显示的文本与目标显示标题不同时才更新
-            if (currentText !== displayTitle) {
-                this.safeSetTextContent(titleEl, displayTitle);
-            }
+            stateService.applyDisplayText(titleEl, originalText, displayTitle);
         } else {
             // 如果没有自定义标题，显示原始文件名
             if (currentText !== originalText) {
@@ -203,12 +216,12 @@ export class FileHandlerService {
             return true;
         }
 
-        // 尝试查找对应的文件
-        const file = this.findFileByBasename(fileName);
+        // 尝试查找对应的文件，元素所在条目记录了路径时按路径查找以区分同名文件
+        const file = this.findFileForElement(element, fileName);
         if (!file) return null;
 
         // 获取显示标题
-        const displayTitle = cacheManager.getDisplayTitle(fileName);
+        const displayTitle = cacheManager.processFile(file);
         if (!displayTitle || displayTitle === fileName) return true;
 
         // 替换文本中的文件名为显示标题
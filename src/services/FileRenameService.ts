@@ -0,0 +1,261 @@
+import { App, Notice, TFile, TFolder, getAllTags, moment } from 'obsidian';
+import type { TAbstractFile } from 'obsidian';
+import { injectable, inject } from 'inversify';
+import { TYPES } from '../types/symbols';
+import type { TitleChangerPlugin } from '../main';
+import { Logger } from '../utils/logger';
+import { ErrorManagerService, ErrorLevel } from './ErrorManagerService';
+import { ErrorCategory } from '../utils/errors';
+import { asyncTryCatch } from '../utils/ErrorHelpers';
+import { TitleService } from './TitleService';
+import { planRenames, renderFileNameTemplate, replaceBaseName, sanitizeFileName } from '../utils/FileNameTemplate';
+import type { RenameTarget } from '../utils/FileNameTemplate';
+import type { RegexRule } from '../settings';
+import { FileRenameModal } from '../components/modals/FileRenameModal';
+import { FolderChecker } from '../utils/FolderChecker';
+import { getTitleOverride } from '../utils/TitleOverrides';
+import { getFirstHeadingTitle, getFrontmatterTitle } from '../utils/MetadataTitle';
+import { applyRuleTemplate, findFirstMatchingRule, getActiveRules } from '../utils/RegexRules';
+import { findTitleInversion, invertDisplayTitle } from '../utils/TitleInversion';
+
+/**
+ * 单个文件的重命名计划
+ */
+export interface FileRenameEntry extends RenameTarget {
+    file: TFile;
+}
+
+/**
+ * 文件重命名服务 - 按命名模板重命名文件
+ * 标题部分取自当前显示标题，用于整理不符合命名约定的文件
+ */
+@injectable()
+export class FileRenameService {
+    constructor(
+        @inject(TYPES.App) private app: App,
+        @inject(TYPES.Plugin) private plugin: TitleChangerPlugin,
+        @inject(TYPES.TitleService) private titleService: TitleService,
+        @inject(TYPES.Logger) private logger: Logger,
+        @inject(TYPES.ErrorManager) private errorManager: ErrorManagerService
+    ) {}
+
+    /**
+     * 打开重命名对话框
+     * @param files 选中的文件或文件夹，文件夹包含其中所有笔记
+     */
+    openRenamer(files: TAbstractFile[]): void {
+        const targets = this.collectFiles(files);
+        if (targets.length === 0) {
+            new Notice('没有可以重命名的笔记');
+            return;
+        }
+
+        new FileRenameModal(this.app, this, targets).open();
+    }
+
+    /**
+     * 获取命名模板
+     */
+    getTemplate(): string {
+        return this.plugin.settings.renameTemplate;
+    }
+
+    /**
+     * 保存命名模板
+     * @param template 命名模板
+     */
+    async setTemplate(template: string): Promise<void> {
+        if (template === this.plugin.settings.renameTemplate) return;
+
+        this.plugin.settings.renameTemplate = template;
+        await asyncTryCatch(
+            this.plugin.saveData(this.plugin.settings),
+            'FileRenameService',
+            this.errorManager,
+            this.logger,
+            {
+                errorMessage: '保存命名模板失败',
+                category: ErrorCategory.CONFIG,
+                level: ErrorLevel.WARNING
+            }
+        );
+    }
+
+    /**
+     * 计算重命名计划，不修改文件
+     * {{date}} 使用文件的创建时间
+     * @param files 要重命名的文件
+     * @param template 命名模板
+     * @returns 每个文件的重命名计划
+     */
+    preview(files: TFile[], template: string): FileRenameEntry[] {
+        const occupied = new Set(this.app.vault.getAllLoadedFiles().map(file => file.path.toLowerCase()));
+
+        const targets = planRenames(
+            files.map(file => ({
+                path: file.path,
+                baseName: renderFileNameTemplate(template, {
+                    title: this.titleService.getDisplayTitle(file.path, true) ?? file.basename,
+                    formatDate: format => moment.unix(Math.floor(file.stat.ctime / 1000)).format(format)
+                })
+            })),
+            path => occupied.has(path.toLowerCase())
+        );
+
+        return targets.map((target, index) => ({ ...target, file: files[index] }));
+    }
+
+    /**
+     * 重命名文件
+     * 通过 Obsidian 的文件管理器重命名，链接按"自动更新内部链接"设置更新
+     * @param entries 重命名计划
+     * @returns 实际重命名的文件数
+     */
+    async apply(entries: FileRenameEntry[]): Promise<number> {
+        let count = 0;
+        let skipped = 0;
+
+        for (const entry of entries) {
+            if (entry.status !== 'rename') continue;
+
+            // 预览后目标路径可能已被占用
+            if (this.app.vault.getAbstractFileByPath(entry.newPath)) {
+                skipped++;
+                continue;
+            }
+
+            const result = await asyncTryCatch(
+                this.app.fileManager.renameFile(entry.file, entry.newPath).then(() => true),
+                'FileRenameService',
+                this.errorManager,
+                this.logger,
+                {
+                    errorMessage: '重命名文件失败',
+                    category: ErrorCategory.FILE,
+                    level: ErrorLevel.WARNING,
+                    userVisible: true,
+                    details: { path: entry.path, newPath: entry.newPath }
+                }
+            );
+
+            if (result) {
+                count++;
+            } else {
+                skipped++;
+            }
+        }
+
+        this.logger.info(`已按命名模板重命名 ${count} 个文件`, { skipped });
+        new Notice(skipped > 0
+            ? `已重命名 ${count} 个文件，${skipped} 个文件未能重命名`
+            : `已重命名 ${count} 个文件`);
+        return count;
+    }
+
+    /**
+     * 获取可编辑的显示标题
+     * 只有来自正则规则、且规则的输出模板只引用一个捕获组时才能反推；
+     * 返回规则生成的未经后处理的标题，编辑后的文本按同样的方式与规则输出比较
+     * @param file 文件
+     * @returns 未经后处理的标题，无法反推时返回 null
+     */
+    getEditableTitle(file: TFile): string | null {
+        const rules = this.getTitleRules(file);
+        const first = rules ? findFirstMatchingRule(file.basename, rules) : null;
+        return first ? applyRuleTemplate(first.rule, first.match) : null;
+    }
+
+    /**
+     * 将编辑后的显示标题代回文件名并重命名文件
+     * @param file 文件
+     * @param title 编辑后的显示标题（未经后处理）
+     * @returns 是否重命名
+     */
+    async renameFromTitle(file: TFile, title: string): Promise<boolean> {
+        const rules = this.getTitleRules(file);
+        const baseName = rules ? invertDisplayTitle(file.basename, title, rules) : null;
+        if (!baseName) {
+            new Notice('无法根据该标题生成文件名，标题需要符合当前的正则规则');
+            return false;
+        }
+        if (baseName === file.basename) return false;
+
+        if (sanitizeFileName(baseName) !== baseName) {
+            new Notice('文件名不能包含 \\ / : * ? " < > | # ^ [ ] 等字符');
+            return false;
+        }
+
+        const newPath = replaceBaseName(file.path, baseName);
+        const existing = this.app.vault.getAllLoadedFiles()
+            .some(item => item !== file && item.path.toLowerCase() === newPath.toLowerCase());
+        if (existing) {
+            new Notice(`"${newPath}" 已存在`);
+            return false;
+        }
+
+        const result = await asyncTryCatch(
+            this.app.fileManager.renameFile(file, newPath).then(() => true),
+            'FileRenameService',
+            this.errorManager,
+            this.logger,
+            {
+                errorMessage: '重命名文件失败',
+                category: ErrorCategory.FILE,
+                level: ErrorLevel.WARNING,
+                userVisible: true,
+                details: { path: file.path, newPath }
+            }
+        );
+
+        if (result) {
+            this.logger.info(`已根据显示标题重命名文件: ${file.path}`, { title });
+        }
+        return result === true;
+    }
+
+    /**
+     * 获取产生文件显示标题的正则规则列表
+     * @param file 文件
+     * @returns 规则列表，标题来自手动标题、frontmatter、一级标题或无法反推时返回 null
+     */
+    private getTitleRules(file: TFile): RegexRule[] | null {
+        const { settings } = this.plugin;
+        if (getTitleOverride(settings.titleOverrides, file.path) !== null) return null;
+
+        const metadata = this.app.metadataCache.getFileCache(file);
+        if (!FolderChecker.shouldApplyToFile(file, settings, () => metadata ? getAllTags(metadata) ?? [] : [])) {
+            return null;
+        }
+
+        if (settings.useFrontmatterTitle && getFrontmatterTitle(metadata?.frontmatter, settings.frontmatterTitleKey) !== null) {
+            return null;
+        }
+        if (settings.useHeadingTitle
+            && (getFirstHeadingTitle(metadata?.headings) !== null || settings.headingFallback === 'original')) {
+            return null;
+        }
+
+        const rules = getActiveRules(FolderChecker.getApplicableRules(file, settings));
+        return findTitleInversion(file.basename, rules) ? rules : null;
+    }
+
+    /**
+     * 将选中的文件和文件夹展开为笔记列表
+     * @param files 选中的文件或文件夹
+     * @returns 按路径排序且不重复的笔记
+     */
+    private collectFiles(files: TAbstractFile[]): TFile[] {
+        const result = new Map<string, TFile>();
+
+        const visit = (item: TAbstractFile) => {
+            if (item instanceof TFile) {
+                if (item.extension === 'md') result.set(item.path, item);
+            } else if (item instanceof TFolder) {
+                item.children.forEach(visit);
+            }
+        };
+        files.forEach(visit);
+
+        return Array.from(result.values()).sort((a, b) => a.path.localeCompare(b.path));
+    }
+}
@@ -1,4 +1,4 @@
-import { TFile } from 'obsidian';
+import { TFile, TFolder } from 'obsidian';
 import { injectable, inject } from 'inversify';
 import { TYPES } from '../types/symbols';
 import type { TitleChangerPlugin } from '../main';
@@ -20,21 +20,21 @@ export class FileService {
     
     /**
      * 查找给定文件名的文件
-     * @param fileName 文件名（可以是basename或完整路径）
+     * 使用 Obsidian 的链接解析，同名文件按链接所在位置选择最近的一个
+     * @param fileName 文件名（可以是basename、链接路径或完整路径）
+     * @param sourcePath 链接所在文件的路径，用于解析相对链接
      * @returns 找到的文件或null
      */
-    findFile(fileName: string): TFile | null {
+    findFile(fileName: string, sourcePath = ''): TFile | null {
         return tryCatchWrapper(
             () => {
-                // 获取所有Markdown文件
-                const files = this.plugin.app.vault.getMarkdownFiles();
+                const { vault, metadataCache } = this.plugin.app;
                 
-                // 寻找匹配的文件
-                return files.find(file => 
-                    file.basename === fileName || 
-                    file.path === fileName || 
-                    file.path === `${fileName}.md`
-                ) || null;
+                // 完整路径直接查找
+                const exact = vault.getAbstractFileByPath(fileName);
+                if (exact instanceof TFile) return exact;
+                
+                return metadataCache.getFirstLinkpathDest(fileName, sourcePath);
             },
             'FileService',
             this.errorManager,
@@ -43,7 +43,7 @@ export class FileService {
                 errorMessage: '查找文件时发生错误',
                 category: ErrorCategory.FILE,
                 level: ErrorLevel.WARNING,
-                details: { fileName }
+                details: { fileName, sourcePath }
             }
         );
     }
@@ -106,6 +106,17 @@ export class FileService {
         ) || ''; // 发生错误时返回空字符串
     }
     
+    /**
+     * 获取库中所有文件夹的路径，不包括根目录
+     * @returns 按路径排序的文件夹列表
+     */
+    getAllFolderPaths(): string[] {
+        return this.plugin.app.vault.getAllLoadedFiles()
+            .filter((file): file is TFolder => file instanceof TFolder && !file.isRoot())
+            .map(folder => folder.path)
+            .sort((a, b) => a.localeCompare(b));
+    }
+    
     /**
      * 检查文件是否存在
      * @param fileName 文件名或路径
@@ -0,0 +1,228 @@
+import { App, Notice, TFile } from 'obsidian';
+import { injectable, inject } from 'inversify';
+import { TYPES } from '../types/symbols';
+import type { TitleChangerPlugin } from '../main';
+import { Logger } from '../utils/logger';
+import { ErrorManagerService, ErrorLevel } from './ErrorManagerService';
+import { ErrorCategory } from '../utils/errors';
+import { asyncTryCatch } from '../utils/ErrorHelpers';
+import { TitleService } from './TitleService';
+import { FileService } from './FileService';
+import { formatLinkTitle } from '../utils/WikiLinkProcessor';
+import { applyAliasChanges, planAliasChanges, revertAliasChanges } from '../utils/LinkAliasConverter';
+import type { AliasChange, AliasConversionFileLog } from '../utils/LinkAliasConverter';
+import { AliasConversionModal } from '../components/modals/AliasConversionModal';
+
+/**
+ * 单个文件的转换计划
+ */
+export interface AliasConversionPlan {
+    file: TFile;
+    changes: AliasChange[];
+}
+
+/**
+ * 链接别名服务 - 将Wiki链接批量改写为以显示标题为别名的链接
+ * 改写后的链接在关闭插件或发布笔记后仍然显示标题
+ */
+@injectable()
+export class LinkAliasService {
+    constructor(
+        @inject(TYPES.App) private app: App,
+        @inject(TYPES.Plugin) private plugin: TitleChangerPlugin,
+        @inject(TYPES.TitleService) private titleService: TitleService,
+        @inject(TYPES.FileService) private fileService: FileService,
+        @inject(TYPES.Logger) private logger: Logger,
+        @inject(TYPES.ErrorManager) private errorManager: ErrorManagerService
+    ) {}
+
+    /**
+     * 打开批量转换对话框
+     * @param folder 默认转换范围，空字符串表示整个库
+     */
+    openConverter(folder = ''): void {
+        new AliasConversionModal(this.app, this, folder).open();
+    }
+
+    /**
+     * 获取可选的转换范围
+     * @returns 按路径排序的文件夹列表
+     */
+    getFolders(): string[] {
+        return this.fileService.getAllFolderPaths();
+    }
+
+    /**
+     * 计算转换计划，不修改文件
+     * @param folder 转换范围，空字符串表示整个库
+     * @returns 有链接需要改写的文件及其改写
+     */
+    async preview(folder: string): Promise<AliasConversionPlan[]> {
+        const prefix = folder ? `${folder}/` : '';
+        const files = this.app.vault.getMarkdownFiles()
+            .filter(file => file.path.startsWith(prefix))
+            .sort((a, b) => a.path.localeCompare(b.path));
+
+        const plans: AliasConversionPlan[] = [];
+        for (const file of files) {
+            const content = await asyncTryCatch(
+                this.app.vault.cachedRead(file),
+                'LinkAliasService',
+                this.errorManager,
+                this.logger,
+                {
+                    errorMessage: '读取文件失败',
+                    category: ErrorCategory.FILE,
+                    level: ErrorLevel.WARNING,
+                    details: { path: file.path }
+                }
+            );
+            if (content === null) continue;
+
+            const changes = planAliasChanges(content, link => this.getAlias(link.fileName, link.subPath, file.path));
+            if (changes.length > 0) {
+                plans.push({ file, changes });
+            }
+        }
+
+        return plans;
+    }
+
+    /**
+     * 应用转换计划并记录撤销信息
+     * 预览后被修改过的链接会被跳过
+     * @param plans 转换计划
+     * @param folder 转换范围，记录在撤销信息中
+     * @returns 实际改写的链接数
+     */
+    async apply(plans: AliasConversionPlan[], folder: string): Promise<number> {
+        const files: AliasConversionFileLog[] = [];
+
+        for (const plan of plans) {
+            let applied: AliasChange[] = [];
+            const result = await asyncTryCatch(
+                this.app.vault.process(plan.file, data => {
+                    const converted = applyAliasChanges(data, plan.changes);
+                    applied = converted.applied;
+                    return converted.content;
+                }),
+                'LinkAliasService',
+                this.errorManager,
+                this.logger,
+                {
+                    errorMessage: '改写链接失败',
+                    category: ErrorCategory.FILE,
+                    level: ErrorLevel.WARNING,
+                    userVisible: true,
+                    details: { path: plan.file.path }
+                }
+            );
+
+            if (result !== null && applied.length > 0) {
+                files.push({ path: plan.file.path, changes: applied });
+            }
+        }
+
+        const count = files.reduce((sum, file) => sum + file.changes.length, 0);
+        if (count > 0) {
+            this.plugin.settings.lastAliasConversion = { timestamp: Date.now(), folder, files };
+            await this.save();
+        }
+
+        this.logger.info(`已将 ${count} 个链接转换为别名`, { folder, files: files.length });
+        new Notice(`已转换 ${count} 个链接（${files.length} 个文件），可使用命令"撤销上次链接别名转换"恢复`);
+        return count;
+    }
+
+    /**
+     * 是否有可撤销的转换
+     */
+    canUndo(): boolean {
+        return this.plugin.settings.lastAliasConversion !== null;
+    }
+
+    /**
+     * 撤销最近一次转换
+     * 转换后被手动修改过的链接保持不变
+     */
+    async undoLast(): Promise<void> {
+        const log = this.plugin.settings.lastAliasConversion;
+        if (!log) {
+            new Notice('没有可撤销的链接别名转换');
+            return;
+        }
+
+        let reverted = 0;
+        let skipped = 0;
+
+        for (const entry of log.files) {
+            const file = this.app.vault.getAbstractFileByPath(entry.path);
+            if (!(file instanceof TFile)) {
+                skipped += entry.changes.length;
+                continue;
+            }
+
+            const result = await asyncTryCatch(
+                this.app.vault.process(file, data => {
+                    const restored = revertAliasChanges(data, entry.changes);
+                    reverted += restored.reverted;
+                    skipped += restored.skipped;
+                    return restored.content;
+                }),
+                'LinkAliasService',
+                this.errorManager,
+                this.logger,
+                {
+                    errorMessage: '撤销链接改写失败',
+                    category: ErrorCategory.FILE,
+                    level: ErrorLevel.WARNING,
+                    userVisible: true,
+                    details: { path: entry.path }
+                }
+            );
+            if (result === null) {
+                skipped += entry.changes.length;
+            }
+        }
+
+        this.plugin.settings.lastAliasConversion = null;
+        await this.save();
+
+        this.logger.info(`已撤销 ${reverted} 个链接别名`, { skipped });
+        new Notice(skipped > 0
+            ? `已撤销 ${reverted} 个链接，${skipped} 个链接已被修改或删除，未能撤销`
+            : `已撤销 ${reverted} 个链接`);
+    }
+
+    /**
+     * 获取链接的别名
+     * @param fileName 链接中的文件名
+     * @param subPath 子路径
+     * @param sourcePath 链接所在文件的路径
+     * @returns 显示标题，没有显示标题时返回 null
+     */
+    private getAlias(fileName: string, subPath: string | undefined, sourcePath: string): string | null {
+        const displayTitle = this.titleService.getDisplayTitle(fileName, false, sourcePath);
+        if (!displayTitle || displayTitle === fileName) return null;
+
+        return formatLinkTitle(displayTitle, subPath);
+    }
+
+    /**
+     * 保存撤销记录
+     */
+    private async save(): Promise<void> {
+        await asyncTryCatch(
+            this.plugin.saveData(this.plugin.settings),
+            'LinkAliasService',
+            this.errorManager,
+            this.logger,
+            {
+                errorMessage: '保存链接别名转换记录失败',
+                category: ErrorCategory.CONFIG,
+                level: ErrorLevel.WARNING,
+                userVisible: true
+            }
+        );
+    }
+}
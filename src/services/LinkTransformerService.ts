@@ -1,8 +1,9 @@
 import { injectable, inject } from 'inversify';
 import { TitleChangerSettings, DEFAULT_SETTINGS } from '../settings';
+import type { RegexRule } from '../settings';
 import { TYPES } from '../types/symbols';
 import { CacheManager } from '../CacheManager';
-import { TFile } from 'obsidian';
+import { App, TFile } from 'obsidian';
 import { ErrorManagerService, ErrorLevel } from './ErrorManagerService';
 import { ErrorCategory, RegexError, ValidationError } from '../utils/errors';
 import { 
@@ -15,18 +16,33 @@ import {
 // 导入新的正则表达式辅助函数
 import { createSafeRegex, executeSafeRegex, ErrorType, ErrorSeverity, getRegexErrorDescription, reportError } from '../utils/RegexHelper';
 import { Logger } from '../utils/logger';
+import { UIStateManager } from './UIStateManager';
+import { applyRuleTemplate, getActiveRules, normalizeRegexFlags } from '../utils/RegexRules';
+import { applyTitleTransforms } from '../utils/TitleTransforms';
+import { parseLinkTarget, getDefaultLinkText, formatLinkTitle } from '../utils/WikiLinkProcessor';
+import { decodeLinkPath, isFileNameLinkText } from '../utils/MarkdownLinkProcessor';
+
+/**
+ * 已编译的规则
+ */
+interface CompiledRule {
+    rule: RegexRule;
+    regex: RegExp;
+}
 
 @injectable()
 export class LinkTransformerService {
     private settings: TitleChangerSettings = DEFAULT_SETTINGS;
     // 添加正则表达式缓存
-    private cachedRegex: RegExp | null = null;
-    private cachedPattern: string = '';
+    private cachedRegexes: CompiledRule[] = [];
+    private cachedRulesKey: string = '';
 
     constructor(
+        @inject(TYPES.App) private app: App,
         @inject(TYPES.CacheManager) private cacheManager: CacheManager,
         @inject(TYPES.ErrorManager) private errorManager: ErrorManagerService,
-        @inject(TYPES.Logger) private logger: Logger
+        @inject(TYPES.Logger) private logger: Logger,
+        @inject(TYPES.UIStateManager) private uiStateManager: UIStateManager
     ) {}
 
     /**
@@ -43,8 +59,8 @@ export class LinkTransformerService {
                 );
                 this.settings = settings;
                 // 清除缓存的正则表达式，以便在下次需要时重新创建
-                this.cachedRegex = null;
-                this.cachedPattern = '';
+                this.cachedRegexes = [];
+                this.cachedRulesKey = '';
                 return true;
             },
             (result) => result === true,
@@ -63,20 +79,29 @@ export class LinkTransformerService {
     }
 
     /**
-     * 获取缓存的正则表达式或创建新正则表达式
-     * @returns 正则表达式对象或null
+     * 获取缓存的正则表达式列表或重新创建
+     * 只包含启用且有效的规则，顺序与设置中的规则顺序一致
+     * @returns 规则与对应正则表达式的列表
      */
-    private getRegex(): RegExp | null {
-        // 如果模式已更改或尚未缓存，则创建新的正则表达式
-        if (this.settings.regexPattern !== this.cachedPattern) {
-            const result = createSafeRegex(this.settings.regexPattern, '');
-            this.cachedRegex = result.regex;
-            this.cachedPattern = this.settings.regexPattern;
+    private getRegexes(): CompiledRule[] {
+        // 如果规则已更改或尚未缓存，则重新创建正则表达式
+        const rulesKey = JSON.stringify(this.settings.regexRules);
+        if (rulesKey !== this.cachedRulesKey) {
+            this.cachedRegexes = [];
+            this.cachedRulesKey = rulesKey;
             
-            // 如果正则表达式无效，记录错误但不中断运行
-            if (result.error) {
-                // 使用新的错误报告机制
-                const friendlyError = getRegexErrorDescription(this.settings.regexPattern, result.error);
+            // 链接文本没有对应的文件夹信息，只使用未限定文件夹的规则
+            const unscopedRules = this.settings.regexRules.filter(rule => !rule.folders || rule.folders.length === 0);
+            for (const rule of getActiveRules(unscopedRules)) {
+                const result = createSafeRegex(rule.pattern, normalizeRegexFlags(rule.flags));
+                
+                if (result.regex) {
+                    this.cachedRegexes.push({ rule, regex: result.regex });
+                    continue;
+                }
+                
+                // 如果正则表达式无效，记录错误但不中断运行
+                const friendlyError = getRegexErrorDescription(rule.pattern, result.error || '未知错误');
                 
                 // 报告错误
                 reportError(
@@ -84,20 +109,21 @@ export class LinkTransformerService {
                     `正则表达式语法错误: ${friendlyError}`, 
                     ErrorSeverity.WARNING,
                     { 
-                        pattern: this.settings.regexPattern,
+                        pattern: rule.pattern,
+                        flags: rule.flags,
                         component: 'LinkTransformerService'
                     }
                 );
                 
                 // 同时保持日志记录
                 this.logger.warn('正则表达式无效', { 
-                    pattern: this.settings.regexPattern,
+                    pattern: rule.pattern,
                     error: friendlyError
                 });
             }
         }
         
-        return this.cachedRegex;
+        return this.cachedRegexes;
     }
 
     /**
@@ -119,15 +145,8 @@ export class LinkTransformerService {
                 return safeText;
             }
 
-            // 检查正则表达式模式
-            if (!this.settings.regexPattern || this.settings.regexPattern.trim() === '') {
-                return safeText;
-            }
-
-            // 使用缓存的正则表达式
-            const regex = this.getRegex();
-            
-            if (regex) {
+            // 按顺序使用缓存的正则表达式，第一条匹配的规则生效
+            for (const { rule, regex } of this.getRegexes()) {
                 // 使用新的安全正则表达式执行函数
                 const result = executeSafeRegex(regex, safeText);
                 
@@ -138,19 +157,24 @@ export class LinkTransformerService {
                         `正则表达式执行错误: ${result.error}`,
                         ErrorSeverity.WARNING, 
                         { 
-                            pattern: this.settings.regexPattern,
+                            pattern: regex.source,
                             input: safeText.substring(0, 20) // 仅记录前20个字符以防文本过长
                         }
                     );
                     this.logger.warn('正则表达式执行错误', {
-                        pattern: this.settings.regexPattern,
+                        pattern: regex.source,
                         text: safeText.substring(0, 20),
                         error: result.error
                     });
+                    continue;
                 }
                 
-                if (result.matches && result.matches.length > 1) {
-                    const matchResult = result.matches[1].trim(); // 返回第一个捕获组并清理空白
+                // 有输出模板时按模板生成，否则返回第一个捕获组
+                if (result.matches && (result.matches.length > 1 || rule.template)) {
+                    const matchResult = applyTitleTransforms(
+                        applyRuleTemplate(rule, result.matches),
+                        this.settings.titleTransforms
+                    ).trim(); // 清理空白
                     return matchResult || safeText; // 确保不返回空字符串
                 }
             }
@@ -190,13 +214,14 @@ export class LinkTransformerService {
     /**
      * 处理 DOM 中的内部链接
      * @param element 要处理的 DOM 元素
+     * @param sourcePath 链接所在文件的路径，用于解析相对链接和同名文件
      */
     @ErrorHandler({
         errorMessage: '处理内部链接失败',
         category: ErrorCategory.UI,
         level: ErrorLevel.ERROR
     })
-    processInternalLinks(element: HTMLElement): void {
+    processInternalLinks(element: HTMLElement, sourcePath = ''): void {
         // 验证输入参数
         validateData(
             element,
@@ -215,49 +240,63 @@ export class LinkTransformerService {
         }
         
         internalLinks.forEach((link: Element) => {
-            this.processLink(link);
+            this.processLink(link, sourcePath);
         });
     }
 
     /**
      * 处理单个链接
      * @param link 链接元素
+     * @param sourcePath 链接所在文件的路径
      */
     @ErrorHandler({
         errorMessage: '处理单个内部链接失败',
         category: ErrorCategory.UI,
         level: ErrorLevel.DEBUG
     })
-    private processLink(link: Element): void {
+    private processLink(link: Element, sourcePath: string): void {
         // 跳过已处理的链接
         if (link.hasAttribute('data-title-processed')) return;
         
         const linkElement = link as HTMLElement;
-        // 获取原始文件名
-        const href = linkElement.getAttribute('href');
-        const originalFileName = href?.replace(/^#/, '') || linkElement.getAttribute('data-href');
+        // 获取原始链接目标，保留开头的 #，以便识别指向当前笔记的标题和块链接
+        const originalFileName = linkElement.getAttribute('data-href') || linkElement.getAttribute('href');
         if (!originalFileName) return;
         
-        // 获取显示标题
-        let displayTitle = null;
+        // 使用了别名的链接显示的不是默认文本，保持不变
+        const target = parseLinkTarget(decodeLinkPath(originalFileName));
+        const linkText = linkElement.textContent ?? '';
+        // [[#标题]] 和 [[#^块]] 指向当前笔记，与编辑器中一样保持不变
+        if (!target.fileName) return;
         
-        // 首先尝试从缓存获取
-        const baseName = originalFileName.replace(/\.[^.]+$/, '');
-        displayTitle = this.cacheManager.getDisplayTitle(baseName);
+        const isDefaultText = linkText === getDefaultLinkText(target);
+        if (!isDefaultText) {
+            // Markdown链接的文本是文件名时同样替换，自定义文本保持不变
+            if (isFileNameLinkText(linkText, target.fileName)) {
+                this.processMarkdownLink(linkElement, linkText, target.fileName, sourcePath, target.subPath);
+            }
+            return;
+        }
         
-        // 如果缓存中没有，尝试处理链接文本
-        if (!displayTitle) {
-            const linkText = linkElement.innerText;
-            const transformedText = this.transformLinkText(linkText);
+        // 按链接所在位置解析文件，同名文件各自使用自己的标题
+        const file = this.app.metadataCache.getFirstLinkpathDest(target.fileName, sourcePath);
+        let fileTitle = file instanceof TFile ? this.cacheManager.processFile(file) : null;
+        
+        // 未解析到文件时，尝试处理链接中的文件名
+        if (!file) {
+            const transformedText = this.transformLinkText(target.fileName);
             
-            if (transformedText !== linkText) {
-                displayTitle = transformedText;
+            if (transformedText !== target.fileName) {
+                fileTitle = transformedText;
             }
         }
         
+        // 标题链接显示为"显示标题 › 标题"
+        const displayTitle = fileTitle ? formatLinkTitle(fileTitle, target.subPath) : null;
+        
         // 更新链接显示
-        if (displayTitle && displayTitle !== linkElement.innerText) {
-            linkElement.innerText = displayTitle;
+        if (displayTitle && displayTitle !== linkText) {
+            this.uiStateManager.applyDisplayText(linkElement, linkText, displayTitle);
             
             // 保留原始文本作为 title 属性以便悬停查看
             linkElement.title = originalFileName;
@@ -267,63 +306,93 @@ export class LinkTransformerService {
         }
     }
 
-    private transformFileLink(originalName: string): string | null {
-        // 获取缓存的正则表达式
-        const regex = this.getRegex();
-        if (!regex) {
-            // 当无法创建正则表达式时，使用原始文件名
-            return originalName;
-        }
-        
-        // 执行正则表达式
-        const result = executeSafeRegex(regex, originalName);
-        
-        // 如果执行出错，记录错误并使用原始名称
-        if (result.error) {
-            reportError(
-                ErrorType.REGEX_EXECUTION, 
-                `正则表达式执行错误: ${result.error}`, 
-                ErrorSeverity.WARNING, 
-                { 
-                    pattern: this.settings.regexPattern, 
-                    input: originalName,
-                    component: 'LinkTransformerService'
-                }
-            );
-            return originalName;
-        }
-        
-        // 如果没有匹配或没有捕获组
-        if (!result.matches || result.matches.length <= 1) {
-            // 检查是否是没有捕获组的问题
-            if (result.matches && result.matches.length === 1) {
-                reportError(
-                    ErrorType.REGEX_NO_CAPTURE,
-                    '正则表达式未包含捕获组，请使用()括号来捕获要显示的部分', 
-                    ErrorSeverity.WARNING,
-                    { 
-                        pattern: this.settings.regexPattern, 
-                        input: originalName,
-                        component: 'LinkTransformerService'
-                    }
-                );
-            } else {
-                // 没有匹配
-                reportError(
-                    ErrorType.REGEX_NO_MATCH,
-                    '正则表达式没有匹配到内容', 
-                    ErrorSeverity.INFO,
-                    { 
-                        pattern: this.settings.regexPattern, 
-                        input: originalName,
-                        component: 'LinkTransformerService'
-                    }
-                );
-            }
-            return originalName;
-        }
-        
-        // 返回第一个捕获组
-        return result.matches[1];
+    /**
+     * 处理文本为文件名的Markdown链接（[note.md](path/to/note.md)）
+     * @param linkElement 链接元素
+     * @param linkText 链接文本
+     * @param linkpath 解码后的链接路径
+     * @param sourcePath 链接所在文件的路径
+     * @param subPath 子路径
+     */
+    private processMarkdownLink(linkElement: HTMLElement, linkText: string, linkpath: string, sourcePath: string, subPath?: string): void {
+        const file = this.app.metadataCache.getFirstLinkpathDest(linkpath, sourcePath);
+        if (!(file instanceof TFile)) return;
+
+        const fileTitle = this.cacheManager.processFile(file);
+        if (!fileTitle || fileTitle === file.basename) return;
+
+        this.uiStateManager.applyDisplayText(linkElement, linkText, formatLinkTitle(fileTitle, subPath));
+        linkElement.title = file.path;
+        linkElement.setAttribute('data-title-processed', 'true');
+    }
+
+    /**
+     * 处理 DOM 中嵌入笔记（![[note]]）的标题
+     * 元素本身位于嵌入内容中时，同时处理其所在的嵌入
+     * @param element 要处理的 DOM 元素
+     * @param sourcePath 嵌入所在文件的路径，用于解析相对链接
+     */
+    @ErrorHandler({
+        errorMessage: '处理嵌入标题失败',
+        category: ErrorCategory.UI,
+        level: ErrorLevel.WARNING
+    })
+    processEmbedTitles(element: HTMLElement, sourcePath = ''): void {
+        const embeds = new Set<HTMLElement>();
+
+        const parentEmbed = element.closest<HTMLElement>('.internal-embed[src]');
+        if (parentEmbed) embeds.add(parentEmbed);
+        element.querySelectorAll<HTMLElement>('.internal-embed[src]').forEach(embed => embeds.add(embed));
+
+        embeds.forEach(embed => this.processEmbedTitle(embed, sourcePath));
+    }
+
+    /**
+     * 恢复 DOM 中已替换的嵌入标题
+     * @param element 要恢复的 DOM 元素
+     */
+    @ErrorHandler({
+        errorMessage: '恢复嵌入标题失败',
+        category: ErrorCategory.UI,
+        level: ErrorLevel.WARNING
+    })
+    restoreEmbedTitles(element: HTMLElement): void {
+        element.querySelectorAll<HTMLElement>('.markdown-embed-title[data-title-processed]').forEach(titleEl => {
+            this.uiStateManager.restoreOriginalText(titleEl);
+            titleEl.removeAttribute('data-title-processed');
+        });
+    }
+
+    /**
+     * 处理单个嵌入的标题
+     * @param embed 嵌入元素
+     * @param sourcePath 嵌入所在文件的路径
+     */
+    @ErrorHandler({
+        errorMessage: '处理单个嵌入标题失败',
+        category: ErrorCategory.UI,
+        level: ErrorLevel.DEBUG
+    })
+    private processEmbedTitle(embed: HTMLElement, sourcePath: string): void {
+        // 嵌套的嵌入有各自的标题，只取属于当前嵌入的标题元素
+        const titleEl = Array.from(embed.querySelectorAll<HTMLElement>('.markdown-embed-title'))
+            .find(el => el.closest('.internal-embed') === embed);
+        if (!titleEl || titleEl.hasAttribute('data-title-processed')) return;
+
+        const linkpath = (embed.getAttribute('src') ?? '').split('#')[0];
+        if (!linkpath) return;
+
+        const file = this.app.metadataCache.getFirstLinkpathDest(linkpath, sourcePath);
+        if (!(file instanceof TFile)) return;
+
+        // 标题已被其他方式修改时保持不变
+        const current = titleEl.textContent ?? '';
+        if (current !== file.basename) return;
+
+        const displayTitle = this.cacheManager.processFile(file);
+        if (!displayTitle || displayTitle === current) return;
+
+        this.uiStateManager.applyDisplayText(titleEl, current, displayTitle);
+        titleEl.setAttribute('data-title-processed', 'true');
     }
-} 
\ No newline at end of file
+}
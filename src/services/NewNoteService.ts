@@ -0,0 +1,144 @@
+import { App, Notice, TFile, TFolder, moment } from 'obsidian';
+import { injectable, inject } from 'inversify';
+import { TYPES } from '../types/symbols';
+import type { TitleChangerPlugin } from '../main';
+import { Logger } from '../utils/logger';
+import { ErrorManagerService, ErrorLevel } from './ErrorManagerService';
+import { ErrorCategory } from '../utils/errors';
+import { asyncTryCatch } from '../utils/ErrorHelpers';
+import { FolderChecker } from '../utils/FolderChecker';
+import { applyRuleTemplate, findFirstMatchingRule, getActiveRules } from '../utils/RegexRules';
+import { applyTitleTransforms } from '../utils/TitleTransforms';
+import { getFolderNamingTemplate, getNextCounter, renderFileNameTemplate } from '../utils/FileNameTemplate';
+import { NewNoteModal } from '../components/modals/NewNoteModal';
+
+/**
+ * 新建笔记的预览
+ */
+export interface NewNotePreview {
+    /** 使用的命名模板 */
+    template: string;
+    /** 生成的文件名（不含扩展名），无法生成时为空 */
+    baseName: string;
+    /** 新笔记的路径 */
+    path: string;
+    /** 按当前规则新笔记将显示的标题 */
+    displayTitle: string;
+    /** 路径是否已被占用 */
+    exists: boolean;
+}
+
+/**
+ * 新建笔记服务 - 按文件夹的命名模板新建笔记
+ * 只需输入标题，日期、编号和 ID 由模板生成
+ */
+@injectable()
+export class NewNoteService {
+    constructor(
+        @inject(TYPES.App) private app: App,
+        @inject(TYPES.Plugin) private plugin: TitleChangerPlugin,
+        @inject(TYPES.Logger) private logger: Logger,
+        @inject(TYPES.ErrorManager) private errorManager: ErrorManagerService
+    ) {}
+
+    /**
+     * 打开新建笔记对话框
+     * @param folder 新笔记所在的文件夹，未提供时使用 Obsidian 设置的新笔记位置
+     */
+    openCreator(folder?: TFolder): void {
+        const sourcePath = this.app.workspace.getActiveFile()?.path ?? '';
+        const parent = folder ?? this.app.fileManager.getNewFileParent(sourcePath);
+        new NewNoteModal(this.app, this, parent).open();
+    }
+
+    /**
+     * 计算新笔记的文件名和显示标题，不创建文件
+     * @param folder 新笔记所在的文件夹
+     * @param title 输入的标题
+     * @param createId 生成 {{id}} 的函数
+     * @returns 新笔记的预览
+     */
+    preview(folder: TFolder, title: string, createId: (length: number) => string): NewNotePreview {
+        const { settings } = this.plugin;
+        const folderPath = folder.isRoot() ? '' : folder.path;
+        const template = getFolderNamingTemplate(settings.folderNamingTemplates, folderPath, settings.renameTemplate);
+
+        const now = moment.unix(Math.floor(Date.now() / 1000));
+        const formatDate = (format: string) => now.format(format);
+        const baseNames = folder.children
+            .filter((child): child is TFile => child instanceof TFile)
+            .map(child => child.basename);
+
+        const baseName = renderFileNameTemplate(template, {
+            title: title.trim(),
+            formatDate,
+            counter: getNextCounter(template, formatDate, baseNames),
+            createId
+        });
+        const path = folderPath ? `${folderPath}/${baseName}.md` : `${baseName}.md`;
+        const occupied = path.toLowerCase();
+
+        return {
+            template,
+            baseName,
+            path,
+            displayTitle: this.getRuleTitle(path, baseName),
+            exists: this.app.vault.getAllLoadedFiles().some(file => file.path.toLowerCase() === occupied)
+        };
+    }
+
+    /**
+     * 新建笔记并打开
+     * @param folder 新笔记所在的文件夹
+     * @param title 输入的标题
+     * @param createId 生成 {{id}} 的函数
+     * @returns 新建的笔记，失败时返回 null
+     */
+    async create(folder: TFolder, title: string, createId: (length: number) => string): Promise<TFile | null> {
+        const note = this.preview(folder, title, createId);
+        if (!note.baseName) {
+            new Notice('无法根据命名模板生成文件名');
+            return null;
+        }
+        if (note.exists) {
+            new Notice(`"${note.path}" 已存在`);
+            return null;
+        }
+
+        const file = await asyncTryCatch(
+            this.app.vault.create(note.path, ''),
+            'NewNoteService',
+            this.errorManager,
+            this.logger,
+            {
+                errorMessage: '新建笔记失败',
+                category: ErrorCategory.FILE,
+                level: ErrorLevel.WARNING,
+                userVisible: true,
+                details: { path: note.path }
+            }
+        );
+        if (!file) return null;
+
+        this.logger.info(`已按命名模板新建笔记: ${file.path}`, { template: note.template });
+        await this.app.workspace.getLeaf(false).openFile(file);
+        return file;
+    }
+
+    /**
+     * 按当前的正则规则计算文件名将显示的标题
+     * 新笔记没有 frontmatter 和一级标题，标题只来自正则规则
+     * @param path 笔记路径
+     * @param baseName 不含扩展名的文件名
+     * @returns 显示标题，没有规则匹配时为文件名
+     */
+    private getRuleTitle(path: string, baseName: string): string {
+        const { settings } = this.plugin;
+        if (settings.useHeadingTitle && settings.headingFallback === 'original') return baseName;
+
+        const first = findFirstMatchingRule(baseName, getActiveRules(FolderChecker.getApplicableRules({ path }, settings)));
+        if (!first) return baseName;
+
+        return applyTitleTransforms(applyRuleTemplate(first.rule, first.match), settings.titleTransforms) || baseName;
+    }
+}
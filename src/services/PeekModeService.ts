@@ -0,0 +1,131 @@
+import { injectable, inject } from 'inversify';
+import { TYPES } from '../types/symbols';
+import type { TitleChangerPlugin } from '../main';
+import { Logger } from '../utils/logger';
+import { UIStateManager } from './UIStateManager';
+import { GraphNodeReplacer } from '../utils/GraphNodeReplacer';
+import { EventType } from '../types/ObsidianExtensions';
+import type { IEventBusService, PeekModeEvent } from '../types/ObsidianExtensions';
+
+/**
+ * 原始文件名预览服务
+ * 按住设置的按键或通过命令切换时，所有视图临时显示原始文件名
+ */
+@injectable()
+export class PeekModeService {
+    // 按住按键超过此时间才开始预览，避免输入组合键时闪烁
+    private static readonly HOLD_DELAY = 200;
+
+    private keyHeld = false;
+    private toggled = false;
+    private holdTimer: number | null = null;
+
+    constructor(
+        @inject(TYPES.Plugin) private plugin: TitleChangerPlugin,
+        @inject(TYPES.UIStateManager) private uiStateManager: UIStateManager,
+        @inject(TYPES.GraphNodeReplacer) private graphNodeReplacer: GraphNodeReplacer,
+        @inject(TYPES.EventBusService) private eventBus: IEventBusService,
+        @inject(TYPES.Logger) private logger: Logger
+    ) {}
+
+    /**
+     * 注册按键事件
+     */
+    initialize(): void {
+        this.plugin.registerDomEvent(document, 'keydown', (event: KeyboardEvent) => this.onKeyDown(event));
+        this.plugin.registerDomEvent(document, 'keyup', (event: KeyboardEvent) => this.onKeyUp(event));
+        // 窗口失去焦点时收不到 keyup，直接结束预览
+        this.plugin.registerDomEvent(window, 'blur', () => this.release());
+    }
+
+    /**
+     * 切换原始文件名预览
+     */
+    toggle(): void {
+        this.toggled = !this.toggled;
+        this.update();
+    }
+
+    /**
+     * 是否正在预览原始文件名
+     */
+    isActive(): boolean {
+        return this.uiStateManager.isPeekMode();
+    }
+
+    /**
+     * 结束预览
+     */
+    unload(): void {
+        this.toggled = false;
+        this.release();
+    }
+
+    /**
+     * 处理按键按下
+     * @param event 键盘事件
+     */
+    private onKeyDown(event: KeyboardEvent): void {
+        const peekKey = this.plugin.settings.peekKey;
+        if (peekKey === 'none') return;
+
+        if (event.key === peekKey) {
+            if (event.repeat || this.keyHeld || this.holdTimer !== null) return;
+
+            this.holdTimer = window.setTimeout(() => {
+                this.holdTimer = null;
+                this.keyHeld = true;
+                this.update();
+            }, PeekModeService.HOLD_DELAY);
+        } else {
+            // 按下了其他键，说明是在使用组合键
+            this.release();
+        }
+    }
+
+    /**
+     * 处理按键松开
+     * @param event 键盘事件
+     */
+    private onKeyUp(event: KeyboardEvent): void {
+        if (event.key === this.plugin.settings.peekKey) {
+            this.release();
+        }
+    }
+
+    /**
+     * 松开按键，结束按住触发的预览
+     */
+    private release(): void {
+        if (this.holdTimer !== null) {
+            window.clearTimeout(this.holdTimer);
+            this.holdTimer = null;
+        }
+        this.keyHeld = false;
+        this.update();
+    }
+
+    /**
+     * 根据当前状态切换预览
+     */
+    private update(): void {
+        const active = this.toggled || this.keyHeld;
+        if (active === this.uiStateManager.isPeekMode()) return;
+
+        this.uiStateManager.setPeekMode(active);
+
+        // 图表节点文本由画布绘制，需要重新渲染
+        if (this.graphNodeReplacer.isApplied()) {
+            this.graphNodeReplacer.refresh();
+        }
+
+        // 由插件自行渲染标题的视图（如书签面板）需要重新渲染
+        this.eventBus.publish<PeekModeEvent>({
+            type: EventType.PEEK_MODE_CHANGED,
+            payload: { active },
+            source: 'PeekModeService'
+        });
+
+        this.logger.debug(active ? '已切换为显示原始文件名' : '已恢复显示标题');
+    }
+}
@@ -0,0 +1,148 @@
+import { App, TFile } from 'obsidian';
+import { injectable, inject } from 'inversify';
+import { TYPES } from '../types/symbols';
+import type { TitleChangerPlugin } from '../main';
+import { Logger } from '../utils/logger';
+import { ErrorManagerService, ErrorLevel } from './ErrorManagerService';
+import { ErrorCategory } from '../utils/errors';
+import { asyncTryCatch } from '../utils/ErrorHelpers';
+import { EventType, FileEvent } from '../types/ObsidianExtensions';
+import type { IEventBusService } from '../types/ObsidianExtensions';
+import { getTitleOverride, renameTitleOverride } from '../utils/TitleOverrides';
+import { DisplayTitleModal } from '../components/modals/DisplayTitleModal';
+
+/**
+ * 手动标题服务 - 管理按文件保存在插件数据中的手动显示标题
+ */
+@injectable()
+export class TitleOverrideService {
+    private subscriptionIds: string[] = [];
+
+    constructor(
+        @inject(TYPES.App) private app: App,
+        @inject(TYPES.Plugin) private plugin: TitleChangerPlugin,
+        @inject(TYPES.EventBusService) private eventBus: IEventBusService,
+        @inject(TYPES.Logger) private logger: Logger,
+        @inject(TYPES.ErrorManager) private errorManager: ErrorManagerService
+    ) {}
+
+    /**
+     * 注册文件重命名和删除事件，保持手动标题与文件路径同步
+     */
+    initialize(): void {
+        this.subscriptionIds.push(
+            this.eventBus.subscribe<FileEvent>(EventType.FILE_RENAMED, (event) => {
+                const { file, oldPath } = event.payload;
+                if (file instanceof TFile && oldPath) {
+                    if (renameTitleOverride(this.plugin.settings.titleOverrides, oldPath, file.path)) {
+                        this.logger.debug(`手动标题已随文件移动: ${oldPath} -> ${file.path}`);
+                        void this.save();
+                    }
+                }
+            }),
+            this.eventBus.subscribe<FileEvent>(EventType.FILE_DELETED, (event) => {
+                const { file } = event.payload;
+                if (file instanceof TFile && this.getOverride(file.path) !== null) {
+                    void this.clearOverride(file.path);
+                }
+            })
+        );
+    }
+
+    /**
+     * 获取文件的手动标题
+     * @param path 文件路径
+     * @returns 手动标题，没有时返回 null
+     */
+    getOverride(path: string): string | null {
+        return getTitleOverride(this.plugin.settings.titleOverrides, path);
+    }
+
+    /**
+     * 获取所有手动标题
+     * @returns 按路径排序的 [路径, 标题] 列表
+     */
+    getAllOverrides(): [string, string][] {
+        return Object.entries(this.plugin.settings.titleOverrides)
+            .sort(([a], [b]) => a.localeCompare(b));
+    }
+
+    /**
+     * 设置文件的手动标题，空标题等同于清除
+     * @param path 文件路径
+     * @param title 手动标题
+     */
+    async setOverride(path: string, title: string): Promise<void> {
+        const trimmed = title.trim();
+        if (trimmed === '') {
+            await this.clearOverride(path);
+            return;
+        }
+
+        this.plugin.settings.titleOverrides[path] = trimmed;
+        this.logger.debug(`已设置手动标题: ${path} -> ${trimmed}`);
+        await this.save();
+    }
+
+    /**
+     * 清除文件的手动标题
+     * @param path 文件路径
+     */
+    async clearOverride(path: string): Promise<void> {
+        if (!Object.prototype.hasOwnProperty.call(this.plugin.settings.titleOverrides, path)) return;
+
+        delete this.plugin.settings.titleOverrides[path];
+        this.logger.debug(`已清除手动标题: ${path}`);
+        await this.save();
+    }
+
+    /**
+     * 打开设置显示标题的对话框
+     * @param file 目标文件
+     */
+    openEditor(file: TFile): void {
+        const currentTitle = this.getOverride(file.path)
+            ?? this.plugin.getCacheManager().processFile(file)
+            ?? file.basename;
+
+        new DisplayTitleModal(
+            this.app,
+            file,
+            currentTitle,
+            this.getOverride(file.path) !== null,
+            async (title) => {
+                if (title === null) {
+                    await this.clearOverride(file.path);
+                } else {
+                    await this.setOverride(file.path, title);
+                }
+            }
+        ).open();
+    }
+
+    /**
+     * 取消事件订阅
+     */
+    unload(): void {
+        this.subscriptionIds.forEach(id => this.eventBus.unsubscribe(id));
+        this.subscriptionIds = [];
+    }
+
+    /**
+     * 保存设置并刷新显示
+     */
+    private async save(): Promise<void> {
+        await asyncTryCatch(
+            this.plugin.saveSettings(),
+            'TitleOverrideService',
+            this.errorManager,
+            this.logger,
+            {
+                errorMessage: '保存手动标题失败',
+                category: ErrorCategory.CONFIG,
+                level: ErrorLevel.WARNING,
+                userVisible: true
+            }
+        );
+    }
+}
@@ -0,0 +1,277 @@
+import { App, Notice, TFile, getAllTags } from 'obsidian';
+import { injectable, inject } from 'inversify';
+import { TYPES } from '../types/symbols';
+import type { TitleChangerPlugin } from '../main';
+import { CacheManager } from '../CacheManager';
+import { Logger } from '../utils/logger';
+import { ErrorManagerService, ErrorLevel } from './ErrorManagerService';
+import { ErrorCategory } from '../utils/errors';
+import { asyncTryCatch } from '../utils/ErrorHelpers';
+import { UpdateScheduler } from './UpdateSchedulerService';
+import { FileService } from './FileService';
+import { EventType, FileEvent } from '../types/ObsidianExtensions';
+import type { IEventBusService } from '../types/ObsidianExtensions';
+import { FolderChecker } from '../utils/FolderChecker';
+import { renameTitleOverride } from '../utils/TitleOverrides';
+import { getTitlePropertyAction, isTitleSourceKey } from '../utils/TitleProperty';
+import type { TitlePropertyAction } from '../utils/TitleProperty';
+import { TitlePropertyModal } from '../components/modals/TitlePropertyModal';
+
+/**
+ * 单个文件的写入计划
+ */
+export interface TitlePropertyEntry {
+    file: TFile;
+    title: string;
+    /** 属性的当前值 */
+    existing: unknown;
+    action: TitlePropertyAction;
+}
+
+/**
+ * 标题属性服务 - 将显示标题写入 frontmatter 属性
+ * 供静态站点生成器、Dataview 等读取 frontmatter 的工具使用
+ */
+@injectable()
+export class TitlePropertyService {
+    private static readonly SYNC_DELAY = 1000;
+
+    private subscriptionIds: string[] = [];
+
+    constructor(
+        @inject(TYPES.App) private app: App,
+        @inject(TYPES.Plugin) private plugin: TitleChangerPlugin,
+        @inject(TYPES.CacheManager) private cacheManager: CacheManager,
+        @inject(TYPES.FileService) private fileService: FileService,
+        @inject(TYPES.UpdateScheduler) private updateScheduler: UpdateScheduler,
+        @inject(TYPES.EventBusService) private eventBus: IEventBusService,
+        @inject(TYPES.Logger) private logger: Logger,
+        @inject(TYPES.ErrorManager) private errorManager: ErrorManagerService
+    ) {}
+
+    /**
+     * 注册自动同步和文件移动事件
+     */
+    initialize(): void {
+        // 标题来自 frontmatter、一级标题和文件名，三者变化都会触发元数据或重命名事件
+        this.plugin.registerEvent(
+            this.app.metadataCache.on('changed', (file) => this.scheduleSync(file))
+        );
+
+        this.subscriptionIds.push(
+            this.eventBus.subscribe<FileEvent>(EventType.FILE_RENAMED, (event) => {
+                const { file, oldPath } = event.payload;
+                if (!(file instanceof TFile)) return;
+
+                if (oldPath && renameTitleOverride(this.plugin.settings.titlePropertyValues, oldPath, file.path)) {
+                    void this.save();
+                }
+                this.scheduleSync(file);
+            }),
+            this.eventBus.subscribe<FileEvent>(EventType.FILE_DELETED, (event) => {
+                const { file } = event.payload;
+                if (file instanceof TFile && Object.prototype.hasOwnProperty.call(this.plugin.settings.titlePropertyValues, file.path)) {
+                    delete this.plugin.settings.titlePropertyValues[file.path];
+                    void this.save();
+                }
+            })
+        );
+    }
+
+    /**
+     * 取消事件订阅
+     */
+    unload(): void {
+        this.subscriptionIds.forEach(id => this.eventBus.unsubscribe(id));
+        this.subscriptionIds = [];
+    }
+
+    /**
+     * 打开写入标题属性的对话框
+     * @param folder 默认范围，空字符串表示整个库
+     */
+    openWriter(folder = ''): void {
+        const reason = this.getBlockedReason();
+        if (reason) {
+            new Notice(reason);
+            return;
+        }
+
+        new TitlePropertyModal(this.app, this, folder).open();
+    }
+
+    /**
+     * 获取当前设置下无法写入的原因
+     * @returns 原因，可以写入时返回 null
+     */
+    getBlockedReason(): string | null {
+        const key = this.getKey();
+        if (!key) return '请先在设置中填写标题属性名';
+
+        if (isTitleSourceKey(key, this.plugin.settings)) {
+            return `属性 "${key}" 同时是读取标题的 frontmatter 键，写入后显示标题将不再随规则变化`;
+        }
+        return null;
+    }
+
+    /**
+     * 获取可选的写入范围
+     * @returns 按路径排序的文件夹列表
+     */
+    getFolders(): string[] {
+        return this.fileService.getAllFolderPaths();
+    }
+
+    /**
+     * 获取写入的属性名
+     */
+    getKey(): string {
+        return this.plugin.settings.titlePropertyKey.trim();
+    }
+
+    /**
+     * 计算写入计划，不修改文件
+     * 只包含插件生效范围内、有显示标题且属性需要变化的文件
+     * @param folder 范围，空字符串表示整个库
+     * @returns 按路径排序的写入计划
+     */
+    preview(folder: string): TitlePropertyEntry[] {
+        const prefix = folder ? `${folder}/` : '';
+
+        return this.app.vault.getMarkdownFiles()
+            .filter(file => file.path.startsWith(prefix))
+            .sort((a, b) => a.path.localeCompare(b.path))
+            .map(file => this.planFile(file))
+            .filter((entry): entry is TitlePropertyEntry => entry !== null && entry.action !== 'unchanged');
+    }
+
+    /**
+     * 写入标题属性
+     * 写入时会重新检查属性，预览后被用户修改的属性同样不会被覆盖
+     * @param entries 写入计划
+     * @returns 实际写入的文件数
+     */
+    async apply(entries: TitlePropertyEntry[]): Promise<number> {
+        let count = 0;
+        for (const entry of entries) {
+            if (entry.action !== 'add' && entry.action !== 'update') continue;
+            if (await this.write(entry.file, entry.title)) count++;
+        }
+
+        await this.save();
+        this.logger.info(`已将显示标题写入 ${count} 个文件的 frontmatter`, { key: this.getKey() });
+        new Notice(`已将显示标题写入 ${count} 个文件的 "${this.getKey()}" 属性`);
+        return count;
+    }
+
+    /**
+     * 标题可能变化后延迟同步单个文件
+     * @param file 文件
+     */
+    private scheduleSync(file: TFile): void {
+        if (!this.plugin.settings.syncTitleProperty || file.extension !== 'md') return;
+
+        this.updateScheduler.scheduleUpdate(
+            `title-property-${file.path}`,
+            () => void this.syncFile(file),
+            TitlePropertyService.SYNC_DELAY
+        );
+    }
+
+    /**
+     * 同步单个文件的标题属性
+     * 写入后再次触发的元数据事件中属性已是显示标题，不会重复写入
+     * @param file 文件
+     */
+    private async syncFile(file: TFile): Promise<void> {
+        if (!this.plugin.settings.syncTitleProperty || this.getBlockedReason() !== null) return;
+        if (this.app.vault.getAbstractFileByPath(file.path) !== file) return;
+
+        const entry = this.planFile(file);
+        if (!entry || (entry.action !== 'add' && entry.action !== 'update')) return;
+
+        if (await this.write(file, entry.title)) {
+            this.logger.debug(`已同步标题属性: ${file.path} -> ${entry.title}`);
+            await this.save();
+        }
+    }
+
+    /**
+     * 计算单个文件的写入操作
+     * @param file 文件
+     * @returns 写入计划，不在生效范围内或没有显示标题时返回 null
+     */
+    private planFile(file: TFile): TitlePropertyEntry | null {
+        const { settings } = this.plugin;
+        const metadata = this.app.metadataCache.getFileCache(file);
+        if (!FolderChecker.shouldApplyToFile(file, settings, () => metadata ? getAllTags(metadata) ?? [] : [])) {
+            return null;
+        }
+
+        const title = this.cacheManager.processFile(file);
+        if (!title) return null;
+
+        const existing = metadata?.frontmatter?.[this.getKey()];
+        return {
+            file,
+            title,
+            existing,
+            action: getTitlePropertyAction(existing, title, settings.titlePropertyValues[file.path], settings.overwriteTitleProperty)
+        };
+    }
+
+    /**
+     * 将标题写入文件的 frontmatter
+     * @param file 文件
+     * @param title 显示标题
+     * @returns 是否写入
+     */
+    private async write(file: TFile, title: string): Promise<boolean> {
+        const { settings } = this.plugin;
+        const key = this.getKey();
+        let written = false;
+
+        await asyncTryCatch(
+            this.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+                const action = getTitlePropertyAction(frontmatter[key], title, settings.titlePropertyValues[file.path], settings.overwriteTitleProperty);
+                if (action === 'add' || action === 'update') {
+                    frontmatter[key] = title;
+                    written = true;
+                }
+            }),
+            'TitlePropertyService',
+            this.errorManager,
+            this.logger,
+            {
+                errorMessage: '写入标题属性失败',
+                category: ErrorCategory.FILE,
+                level: ErrorLevel.WARNING,
+                userVisible: true,
+                details: { path: file.path, key }
+            }
+        );
+
+        if (written) {
+            settings.titlePropertyValues[file.path] = title;
+        }
+        return written;
+    }
+
+    /**
+     * 保存插件写入过的属性值
+     * 不刷新标题缓存和视图，写入属性不会改变显示标题
+     */
+    private async save(): Promise<void> {
+        await asyncTryCatch(
+            this.plugin.saveData(this.plugin.settings),
+            'TitlePropertyService',
+            this.errorManager,
+            this.logger,
+            {
+                errorMessage: '保存标题属性记录失败',
+                category: ErrorCategory.CONFIG,
+                level: ErrorLevel.WARNING
+            }
+        );
+    }
+}
@@ -0,0 +1,68 @@
+import { App, TFile, prepareFuzzySearch } from 'obsidian';
+import { injectable, inject } from 'inversify';
+import { TYPES } from '../types/symbols';
+import { Logger } from '../utils/logger';
+import { ErrorManagerService, ErrorLevel } from './ErrorManagerService';
+import { ErrorCategory } from '../utils/errors';
+import { tryCatchWrapper } from '../utils/ErrorHelpers';
+import { TitleService } from './TitleService';
+import { searchByTitle, TitleSearchCandidate, TitleSearchMatch } from '../utils/TitleSearch';
+
+/**
+ * 标题搜索服务 - 为快速切换和链接补全提供按显示标题搜索笔记的能力
+ */
+@injectable()
+export class TitleSearchService {
+    constructor(
+        @inject(TYPES.App) private app: App,
+        @inject(TYPES.TitleService) private titleService: TitleService,
+        @inject(TYPES.Logger) private logger: Logger,
+        @inject(TYPES.ErrorManager) private errorManager: ErrorManagerService
+    ) {}
+
+    /**
+     * 收集所有笔记及其显示标题
+     * 最近打开的笔记排在最前，其余按修改时间从新到旧排列
+     * @returns 候选项列表
+     */
+    getCandidates(): TitleSearchCandidate<TFile>[] {
+        return tryCatchWrapper(
+            () => {
+                const recent = new Map<string, number>();
+                this.app.workspace.getLastOpenFiles().forEach((path, index) => recent.set(path, index));
+
+                const files = this.app.vault.getMarkdownFiles().sort((a, b) => {
+                    const recentA = recent.get(a.path) ?? Infinity;
+                    const recentB = recent.get(b.path) ?? Infinity;
+                    if (recentA !== recentB) return recentA < recentB ? -1 : 1;
+                    return b.stat.mtime - a.stat.mtime;
+                });
+
+                return files.map(file => ({
+                    item: file,
+                    title: this.titleService.getDisplayTitle(file.path) ?? file.basename,
+                    path: file.path
+                }));
+            },
+            'TitleSearchService',
+            this.errorManager,
+            this.logger,
+            {
+                errorMessage: '收集笔记标题失败',
+                category: ErrorCategory.DATA,
+                level: ErrorLevel.WARNING
+            }
+        ) ?? [];
+    }
+
+    /**
+     * 按显示标题和文件路径模糊搜索
+     * @param candidates 候选项列表
+     * @param query 查询文本
+     * @param limit 最大结果数
+     * @returns 搜索结果
+     */
+    search(candidates: TitleSearchCandidate<TFile>[], query: string, limit = 50): TitleSearchMatch<TFile>[] {
+        return searchByTitle(candidates, query, prepareFuzzySearch(query.trim()), limit);
+    }
+}
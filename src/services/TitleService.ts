@@ -8,6 +8,9 @@ import { ErrorManagerService, ErrorLevel } from './ErrorManagerService';
 import { ErrorCategory } from '../utils/errors';
 import { ErrorHandled, AsyncErrorHandled } from '../utils/ErrorDecorators';
 import { TitleChangedEvent } from '../types/ObsidianExtensions';
+import type { TitleChangerSettings } from '../settings';
+import { findTitleOverride } from '../utils/TitleOverrides';
+import { TitleOverrideService } from './TitleOverrideService';
 
 /**
  * 标题服务 - 处理文件标题的获取、缓存和事件分发
@@ -16,7 +19,9 @@ import { TitleChangedEvent } from '../types/ObsidianExtensions';
 export class TitleService {
     constructor(
         @inject(TYPES.App) private app: App,
+        @inject(TYPES.Settings) private settings: TitleChangerSettings,
         @inject(TYPES.FileService) private fileService: FileService,
+        @inject(TYPES.TitleOverrideService) private titleOverrideService: TitleOverrideService,
         @inject(TYPES.CacheManager) private cacheManager: CacheManager,
         @inject(TYPES.Logger) private logger: Logger,
         @inject(TYPES.ErrorManager) private errorManager: ErrorManagerService
@@ -26,8 +31,10 @@ export class TitleService {
     
     /**
      * 获取文件的显示标题
-     * @param fileName 文件名或路径
+     * 通过 Obsidian 的链接解析找到对应文件，同名文件按所在位置区分
+     * @param fileName 文件路径或链接文本
      * @param fallbackToOriginal 如果没有找到标题是否返回原始文件名
+     * @param sourcePath 链接所在文件的路径，用于解析相对链接和同名文件
      * @returns 显示标题或原始文件名（如果设置了fallbackToOriginal）或null
      */
     @ErrorHandled({
@@ -35,30 +42,25 @@ export class TitleService {
         category: ErrorCategory.DATA,
         level: ErrorLevel.WARNING
     })
-    getDisplayTitle(fileName: string | undefined, fallbackToOriginal = true): string | null {
+    getDisplayTitle(fileName: string | undefined, fallbackToOriginal = true, sourcePath = ''): string | null {
         // 安全检查：如果文件名为undefined或null，则返回安全默认值
         if (fileName === undefined || fileName === null) {
             this.logger.debug('尝试获取未定义文件名的显示标题');
             return fallbackToOriginal ? 'Untitled' : null;
         }
         
-        // 移除文件扩展名
         try {
             const baseName = this.fileService.getBaseName(fileName);
+            const file = this.fileService.findFile(fileName, sourcePath);
             
-            // 尝试从缓存获取标题
-            let displayTitle = this.cacheManager.getDisplayTitle(baseName);
-            
-            // 如果缓存中没有找到，尝试处理文件
-            if (!displayTitle) {
-                // 查找匹配的文件
-                const file = this.fileService.findFile(baseName);
-                if (file) {
-                    displayTitle = this.cacheManager.processFile(file);
-                }
+            // 找不到文件时仍然尝试按文件名匹配手动标题
+            if (!file) {
+                return findTitleOverride(this.settings.titleOverrides, fileName) ?? (fallbackToOriginal ? baseName : null);
             }
             
-            return displayTitle || (fallbackToOriginal ? baseName : null);
+            // 按完整路径读取缓存，手动标题在 processFile 中优先处理
+            const displayTitle = this.cacheManager.processFile(file);
+            return displayTitle || (fallbackToOriginal ? file.basename : null);
         } catch (error) {
             this.logger.error('处理文件标题时出错', { fileName, error });
             const baseName = this.fileService.getBaseName(fileName);
@@ -77,7 +79,7 @@ export class TitleService {
         level: ErrorLevel.WARNING
     })
     getCachedDisplayTitle(file: TFile): string | null {
-        return this.cacheManager.getDisplayTitle(file.basename) || null;
+        return this.cacheManager.getDisplayTitle(file.path) || null;
     }
     
     /**
@@ -91,12 +93,12 @@ export class TitleService {
         level: ErrorLevel.WARNING
     })
     processFileTitle(file: TFile): string | null {
-        const oldTitle = this.cacheManager.getDisplayTitle(file.basename);
+        const oldTitle = this.cacheManager.getDisplayTitle(file.path);
         const newTitle = this.cacheManager.processFile(file);
         
         // 如果标题发生变化，触发标题变更事件
         if (oldTitle !== newTitle && newTitle !== null) {
-            this.dispatchTitleChangedEvent(file.basename, oldTitle || file.basename, newTitle);
+            this.dispatchTitleChangedEvent(file.basename, oldTitle || file.basename, newTitle, file.path);
         }
         
         return newTitle;
@@ -104,7 +106,8 @@ export class TitleService {
     
     /**
      * 更新特定文件的标题
-     * @param fileName 文件名
+     * 能找到对应文件时保存为手动标题，重新加载后仍然有效
+     * @param fileName 文件路径或链接文本
      * @param newTitle 新标题
      */
     @ErrorHandled({
@@ -113,13 +116,20 @@ export class TitleService {
         level: ErrorLevel.WARNING
     })
     updateFileTitle(fileName: string, newTitle: string): void {
-        const oldTitle = this.cacheManager.getDisplayTitle(fileName) || fileName;
+        const file = this.fileService.findFile(fileName);
+        const cacheKey = file ? file.path : fileName;
+        const oldTitle = this.cacheManager.getDisplayTitle(cacheKey) || fileName;
         
         // 更新缓存
-        this.cacheManager.updateTitleCache(fileName, newTitle);
+        this.cacheManager.updateTitleCache(cacheKey, newTitle);
+        
+        // 保存为手动标题
+        if (file) {
+            void this.titleOverrideService.setOverride(file.path, newTitle);
+        }
         
         // 触发标题变更事件
-        this.dispatchTitleChangedEvent(fileName, oldTitle, newTitle);
+        this.dispatchTitleChangedEvent(fileName, oldTitle, newTitle, file?.path);
     }
     
     /**
@@ -127,16 +137,18 @@ export class TitleService {
      * @param fileName 文件名
      * @param oldTitle 旧标题
      * @param newTitle 新标题
+     * @param path 文件路径
      */
     @ErrorHandled({
         errorMessage: '分发标题变更事件失败',
         category: ErrorCategory.EVENT,
         level: ErrorLevel.WARNING
     })
-    private dispatchTitleChangedEvent(fileName: string, oldTitle: string, newTitle: string): void {
+    private dispatchTitleChangedEvent(fileName: string, oldTitle: string, newTitle: string, path?: string): void {
         const event: TitleChangedEvent = {
             oldTitle: oldTitle,
-            newTitle: newTitle
+            newTitle: newTitle,
+            path: path
         };
         
         // 触发应用范围的事件
@@ -14,7 +14,8 @@ import { getEditorView } from '../utils/EditorUtils';
 import type { TitleChangerPlugin } from '../main';
 import { TitleService } from './TitleService';
 import { CacheManager } from '../CacheManager';
-import { TitleChangedEvent } from '../types/ObsidianExtensions';
+import { EventType, FileEvent, TitleChangedEvent } from '../types/ObsidianExtensions';
+import type { IEventBusService } from '../types/ObsidianExtensions';
 
 /**
  * 标题状态适配器 - 将标题服务与CodeMirror状态系统整合
@@ -22,12 +23,16 @@ import { TitleChangedEvent } from '../types/ObsidianExtensions';
 @injectable()
 export class TitleStateAdapter {
     private titleStateField: TitleStateField;
+    /** 文件修改后、元数据更新前的标题，用于判断标题是否变化 */
+    private pendingTitles: Map<string, string | null> = new Map();
+    private subscriptionIds: string[] = [];
     
     constructor(
         @inject(TYPES.App) private app: App,
         @inject(TYPES.Plugin) private plugin: TitleChangerPlugin,
         @inject(TYPES.TitleService) private titleService: TitleService,
         @inject(TYPES.CacheManager) private cacheManager: CacheManager,
+        @inject(TYPES.EventBusService) private eventBus: IEventBusService,
         @inject(TYPES.Logger) private logger: Logger,
         @inject(TYPES.ErrorManager) private errorManager: ErrorManagerService
     ) {
@@ -76,7 +81,7 @@ export class TitleStateAdapter {
                             // 文件打开时，确保标题状态同步
                             const title = this.titleService.processFileTitle(file);
                             if (title) {
-                                this.updateStateForAllEditors(file.basename, title);
+                                this.updateStateForAllEditors(file.path, title);
                             }
                         }
                     })
@@ -91,18 +96,40 @@ export class TitleStateAdapter {
                             if (file) {
                                 const title = this.titleService.processFileTitle(file);
                                 if (title) {
-                                    this.updateStateForAllEditors(file.basename, title);
+                                    this.updateStateForAllEditors(file.path, title);
                                 }
                             }
                         }
                     })
                 );
                 
+                // 文件修改后，基于内容（frontmatter、一级标题）的缓存标题可能失效
+                this.subscriptionIds.push(
+                    this.eventBus.subscribe<FileEvent>(EventType.FILE_MODIFIED, (event) => {
+                        const file = event.payload.file;
+                        if (file instanceof TFile) {
+                            if (!this.pendingTitles.has(file.path)) {
+                                this.pendingTitles.set(file.path, this.cacheManager.processFile(file));
+                            }
+                            this.cacheManager.invalidateFile(file);
+                        }
+                    })
+                );
+                
+                // 监听元数据变更事件，frontmatter 或一级标题变化后重新计算标题
+                this.plugin.registerEvent(
+                    this.app.metadataCache.on('changed', (file) => {
+                        this.handleMetadataChanged(file);
+                    })
+                );
+
                 // 监听标题变更事件
                 this.plugin.registerEvent(
                     this.app.workspace.on('title-changed', (data: TitleChangedEvent) => {
-                        // 更新所有编辑器中的标题
-                        this.updateStateForAllEditors(data.oldTitle, data.newTitle);
+                        // 更新打开该文件的编辑器中的标题，找不到对应文件时忽略
+                        if (data.path) {
+                            this.updateStateForAllEditors(data.path, data.newTitle);
+                        }
                     })
                 );
                 
@@ -121,13 +148,48 @@ export class TitleStateAdapter {
         );
     }
     
+    /**
+     * 处理文件元数据变更
+     * 使文件的缓存失效，标题发生变化时刷新所有视图
+     * @param file 元数据发生变化的文件
+     */
+    private handleMetadataChanged(file: TFile): void {
+        tryCatchWrapper(
+            () => {
+                const oldTitle = this.pendingTitles.has(file.path)
+                    ? this.pendingTitles.get(file.path) ?? null
+                    : this.cacheManager.processFile(file);
+                this.pendingTitles.delete(file.path);
+                this.cacheManager.invalidateFile(file);
+                const newTitle = this.titleService.processFileTitle(file);
+
+                if (oldTitle !== newTitle) {
+                    this.updateStateForAllEditors(file.path, newTitle || file.basename);
+                    this.plugin.getViewManager()?.updateAllViews();
+                }
+            },
+            'TitleStateAdapter',
+            this.errorManager,
+            this.logger,
+            {
+                errorMessage: '处理元数据变更失败',
+                category: ErrorCategory.STATE,
+                level: ErrorLevel.WARNING,
+                details: { action: 'handleMetadataChanged', filePath: file.path }
+            }
+        );
+    }
+
     /**
      * 卸载状态适配器
      */
     unload(): void {
         tryCatchWrapper(
             () => {
-                // 在这里清理资源，但状态扩展会由Obsidian自动卸载
+                // 取消事件总线订阅，状态扩展会由Obsidian自动卸载
+                this.subscriptionIds.forEach(id => this.eventBus.unsubscribe(id));
+                this.subscriptionIds = [];
+                this.pendingTitles.clear();
                 this.logger.info('标题状态适配器已卸载');
             },
             'TitleStateAdapter',
@@ -186,14 +248,14 @@ export class TitleStateAdapter {
     
     /**
      * 更新特定文件的标题状态
-     * @param fileName 文件名
+     * @param filePath 文件路径
      * @param title 标题
      */
-    updateFileTitle(fileName: string, title: string): void {
+    updateFileTitle(filePath: string, title: string): void {
         tryCatchWrapper(
             () => {
                 // 更新状态系统
-                this.updateStateForAllEditors(fileName, title);
+                this.updateStateForAllEditors(filePath, title);
             },
             'TitleStateAdapter',
             this.errorManager,
@@ -202,26 +264,27 @@ export class TitleStateAdapter {
                 errorMessage: '更新文件标题失败',
                 category: ErrorCategory.STATE,
                 level: ErrorLevel.WARNING,
-                details: { action: 'updateFileTitle', fileName, title }
+                details: { action: 'updateFileTitle', filePath, title }
             }
         );
     }
     
     /**
-     * 更新所有编辑器的状态
-     * @param fileName 文件名
+     * 更新打开该文件的所有编辑器的状态
+     * 按完整路径匹配，不同文件夹中的同名文件互不影响
+     * @param filePath 文件路径
      * @param title 标题
      */
-    private updateStateForAllEditors(fileName: string, title: string): void {
+    private updateStateForAllEditors(filePath: string, title: string): void {
         tryCatchWrapper(
             () => {
                 // 遍历所有叶子节点
                 this.app.workspace.iterateAllLeaves(leaf => {
-                    if (leaf.view instanceof MarkdownView) {
+                    if (leaf.view instanceof MarkdownView && leaf.view.file?.path === filePath) {
                         const editorView = getEditorView(leaf);
                         if (editorView) {
                             // 创建状态更新效果
-                            const effect = this.titleStateField.createTitleChangeEffect(fileName, title);
+                            const effect = this.titleStateField.createTitleChangeEffect(filePath, title);
                             
                             // 应用效果
                             editorView.dispatch({ effects: [effect] });
@@ -236,7 +299,7 @@ export class TitleStateAdapter {
                 errorMessage: '更新所有编辑器状态失败',
                 category: ErrorCategory.STATE,
                 level: ErrorLevel.WARNING,
-                details: { action: 'updateStateForAllEditors', fileName, title }
+                details: { action: 'updateStateForAllEditors', filePath, title }
             }
         );
     }
@@ -244,13 +307,13 @@ export class TitleStateAdapter {
     /**
      * 获取编辑器状态中的文件标题
      * @param state 编辑器状态
-     * @param fileName 文件名
+     * @param filePath 文件路径
      * @returns 标题或undefined
      */
-    getTitleFromState(state: EditorState, fileName: string): string | undefined {
+    getTitleFromState(state: EditorState, filePath: string): string | undefined {
         const result = tryCatchWrapper(
             () => {
-                return this.titleStateField.getTitle(state, fileName);
+                return this.titleStateField.getTitle(state, filePath);
             },
             'TitleStateAdapter',
             this.errorManager,
@@ -259,7 +322,7 @@ export class TitleStateAdapter {
                 errorMessage: '从状态获取标题失败',
                 category: ErrorCategory.STATE,
                 level: ErrorLevel.WARNING,
-                details: { action: 'getTitleFromState', fileName }
+                details: { action: 'getTitleFromState', filePath }
             }
         );
         
@@ -269,19 +332,19 @@ export class TitleStateAdapter {
     
     /**
      * 创建移除标题的效果
-     * @param fileName 要移除的文件名
+     * @param filePath 要移除的文件路径
      * @returns 移除标题的状态效果
      */
-    private createTitleRemoveEffect(fileName: string): StateEffect<TitleChangeInfo> {
+    private createTitleRemoveEffect(filePath: string): StateEffect<TitleChangeInfo> {
         // 通过传递空字符串作为标题值来表示移除
-        return this.titleStateField.createTitleChangeEffect(fileName, '');
+        return this.titleStateField.createTitleChangeEffect(filePath, '');
     }
     
     /**
      * 从状态系统中移除标题
-     * @param fileName 文件名
+     * @param filePath 文件路径
      */
-    invalidateStateTitle(fileName: string): void {
+    invalidateStateTitle(filePath: string): void {
         tryCatchWrapper(
             () => {
                 // 获取活动编辑器视图
@@ -292,7 +355,7 @@ export class TitleStateAdapter {
                 if (!editorView) return;
                 
                 // 创建移除标题的效果
-                const effect = this.createTitleRemoveEffect(fileName);
+                const effect = this.createTitleRemoveEffect(filePath);
                 
                 // 应用效果
                 editorView.dispatch({ effects: [effect] });
@@ -304,7 +367,7 @@ export class TitleStateAdapter {
                 errorMessage: '无效化状态标题失败',
                 category: ErrorCategory.STATE,
                 level: ErrorLevel.WARNING,
-                details: { action: 'invalidateStateTitle', fileName }
+                details: { action: 'invalidateStateTitle', filePath }
             }
         );
     }
@@ -12,8 +12,16 @@ import type { IDOMSelectorService } from '../types/ObsidianExtensions';
  */
 @injectable()
 export class UIStateManager {
+    // 记录的元素超过此数量时清理已移除的元素
+    private static readonly TRACKED_PRUNE_THRESHOLD = 2000;
+    
     // 保存原始文件名显示方法
     private originalDisplayText: WeakMap<Element, string> = new WeakMap();
+    
+    // 通过 applyDisplayText 设置过显示文本的元素，用于预览原始文件名
+    private displayText: WeakMap<Element, string> = new WeakMap();
+    private trackedElements: Set<Element> = new Set();
+    private peekMode = false;
 
     constructor(
         @inject(TYPES.ErrorManager) private errorManager: ErrorManagerService,
@@ -79,6 +87,100 @@ export class UIStateManager {
         );
     }
 
+    /**
+     * 设置元素的显示文本，并记录原始文本
+     * 预览原始文件名期间显示原始文本，结束后切换回显示文本
+     * @param element 目标元素
+     * @param originalText 原始文本
+     * @param displayText 显示文本
+     */
+    applyDisplayText(element: Element, originalText: string, displayText: string): void {
+        tryCatchWrapper(
+            () => {
+                this.originalDisplayText.set(element, originalText);
+                this.displayText.set(element, displayText);
+                this.trackedElements.add(element);
+                if (this.trackedElements.size > UIStateManager.TRACKED_PRUNE_THRESHOLD) {
+                    this.pruneTrackedElements();
+                }
+                
+                const text = this.peekMode ? originalText : displayText;
+                if (element.textContent !== text) {
+                    element.textContent = text;
+                }
+                return true;
+            },
+            this.constructor.name,
+            this.errorManager,
+            this.logger,
+            {
+                errorMessage: '设置显示文本失败',
+                category: ErrorCategory.UI,
+                level: ErrorLevel.WARNING,
+                details: { textPreview: displayText.substring(0, 20) }
+            }
+        );
+    }
+
+    /**
+     * 是否正在预览原始文件名
+     */
+    isPeekMode(): boolean {
+        return this.peekMode;
+    }
+
+    /**
+     * 切换原始文件名预览
+     * 只交换已记录的文本，不重新计算标题
+     * @param active 是否预览原始文件名
+     */
+    setPeekMode(active: boolean): void {
+        if (this.peekMode === active) return;
+        this.peekMode = active;
+        
+        tryCatchWrapper(
+            () => {
+                this.pruneTrackedElements();
+                this.trackedElements.forEach(element => {
+                    const originalText = this.getOriginalText(element);
+                    const displayText = this.displayText.get(element);
+                    if (originalText === undefined || displayText === undefined) return;
+                    
+                    // 只切换仍显示着预期文本的元素，避免覆盖其他来源的修改
+                    const from = active ? displayText : originalText;
+                    const to = active ? originalText : displayText;
+                    if (element.textContent === from) {
+                        element.textContent = to;
+                    }
+                });
+                
+                this.logger.debug(active ? '开始预览原始文件名' : '结束预览原始文件名', {
+                    elements: this.trackedElements.size
+                });
+                return true;
+            },
+            this.constructor.name,
+            this.errorManager,
+            this.logger,
+            {
+                errorMessage: '切换原始文件名预览失败',
+                category: ErrorCategory.UI,
+                level: ErrorLevel.WARNING
+            }
+        );
+    }
+
+    /**
+     * 清理已从文档中移除的元素
+     */
+    private pruneTrackedElements(): void {
+        this.trackedElements.forEach(element => {
+            if (!element.isConnected) {
+                this.trackedElements.delete(element);
+            }
+        });
+    }
+
     /**
      * 恢复所有原始文件名
      */
@@ -101,6 +203,8 @@ export class UIStateManager {
 
                 // 清空原始文本存储
                 this.originalDisplayText = new WeakMap();
+                this.displayText = new WeakMap();
+                this.trackedElements.clear();
                 
                 this.logger.debug('恢复完成', { totalExplorers: fileExplorers.length, restoredCount });
                 return true;
@@ -129,6 +233,8 @@ export class UIStateManager {
                 validateData(element, (el) => el instanceof Element, '必须提供有效的DOM元素', this.constructor.name);
                 
                 const originalText = this.getOriginalText(element);
+                this.displayText.delete(element);
+                this.trackedElements.delete(element);
                 if (originalText !== undefined) {
                     element.textContent = originalText;
                     return true;
@@ -189,6 +295,8 @@ export class UIStateManager {
                 // WeakMap会自动清理失去引用的元素
                 // 这里重新创建一个WeakMap来确保完全清理
                 this.originalDisplayText = new WeakMap<Element, string>();
+                this.displayText = new WeakMap<Element, string>();
+                this.trackedElements.clear();
                 return true;
             },
             this.constructor.name,
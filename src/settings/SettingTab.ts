@@ -4,6 +4,9 @@ import { BasicSettingsSection } from './sections/BasicSettings';
 import { DisplaySettingsSection } from './sections/DisplaySettings';
 import { PerformanceSettingsSection } from './sections/PerformanceSettings';
 import { AdvancedSettingsSection } from './sections/AdvancedSettings';
+import { TitleOverridesSettingsSection } from './sections/TitleOverridesSettings';
+import { TitlePropertySettingsSection } from './sections/TitlePropertySettings';
+import { NamingConventionSettingsSection } from './sections/NamingConventionSettings';
 import { SettingSection } from './sections/interfaces';
 
 /**
@@ -19,6 +22,9 @@ export class TitleChangerSettingTab extends PluginSettingTab {
         this.sections = [
             new BasicSettingsSection(this.plugin),
             new DisplaySettingsSection(this.plugin),
+            new TitleOverridesSettingsSection(this.plugin),
+            new TitlePropertySettingsSection(this.plugin),
+            new NamingConventionSettingsSection(this.plugin),
             new PerformanceSettingsSection(this.plugin),
             new AdvancedSettingsSection(this.plugin, this.app)
         ];
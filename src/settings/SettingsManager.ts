@@ -1,6 +1,6 @@
 import { inject, injectable } from 'inversify';
 import { TYPES } from '../types/symbols';
-import { TitleChangerSettings, DEFAULT_SETTINGS } from './TitleChangerSettings';
+import { TitleChangerSettings, DEFAULT_SETTINGS, migrateSettings } from './TitleChangerSettings';
 import type { TitleChangerPlugin } from '../main';
 import type { Logger } from '../utils/logger';
 
@@ -22,8 +22,8 @@ export class SettingsManager {
     async loadSettings(): Promise<TitleChangerSettings> {
         try {
             const loadedData = await this.plugin.loadData();
-            const settings = Object.assign({}, DEFAULT_SETTINGS, loadedData);
-            this.logger.debug('设置已加载', settings);
+            const settings = migrateSettings(loadedData);
+            this.logger.debug('设置已加载', { settings });
             return settings;
         } catch (error) {
             this.logger.error('加载设置失败', { error });
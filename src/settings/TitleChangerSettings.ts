@@ -1,3 +1,67 @@
+import { createRegexRule } from '../utils/RegexRules';
+import type { TitleOverrides } from '../utils/TitleOverrides';
+import type { AliasConversionLog } from '../utils/LinkAliasConverter';
+import { createDefaultTransforms, normalizeTransforms } from '../utils/TitleTransforms';
+import type { TitleTransformStep } from '../utils/TitleTransforms';
+import type { ExplorerSortMode } from '../utils/TitleSort';
+import type { FolderNamingTemplate } from '../utils/FileNameTemplate';
+
+/**
+ * 按住后临时显示原始文件名的按键
+ */
+export type PeekKey = 'none' | 'Alt' | 'Control' | 'Shift' | 'Meta';
+
+/**
+ * 正则规则
+ * 多条规则按顺序尝试，使用第一条匹配的规则
+ */
+export interface RegexRule {
+    /**
+     * 规则唯一标识
+     */
+    id: string;
+    
+    /**
+     * 正则表达式模式
+     */
+    pattern: string;
+    
+    /**
+     * 正则表达式标志（如 i、u）
+     */
+    flags: string;
+    
+    /**
+     * 是否启用该规则
+     */
+    enabled: boolean;
+    
+    /**
+     * 规则名称（可选）
+     */
+    label?: string;
+    
+    /**
+     * 输出模板（可选）
+     * 支持 $1、${1} 编号捕获组和 ${name} 命名捕获组，其余为字面文本
+     * 为空时使用第一个捕获组，没有捕获组时使用整个匹配
+     */
+    template?: string;
+    
+    /**
+     * 规则适用的文件夹列表（可选）
+     * 为空时适用于所有文件，否则仅适用于这些文件夹及其子文件夹中的文件
+     */
+    folders?: string[];
+}
+
+/**
+ * 笔记没有一级标题时的处理方式
+ * - regex: 继续使用正则规则，最后显示原始文件名
+ * - original: 直接显示原始文件名
+ */
+export type HeadingFallback = 'regex' | 'original';
+
 /**
  * Title Changer插件设置接口
  */
@@ -8,14 +72,107 @@ export interface TitleChangerSettings {
     enabled: boolean;
     
     /**
-     * 正则表达式用于从文件名中提取显示名称
+     * 是否优先使用 frontmatter 中的标题
+     * 优先级：frontmatter、一级标题、正则规则、原始文件名
+     */
+    useFrontmatterTitle: boolean;
+    
+    /**
+     * 读取标题的 frontmatter 键，多个键使用逗号分隔并按顺序尝试
+     * 列表类型的值（如 aliases）使用第一项
+     */
+    frontmatterTitleKey: string;
+    
+    /**
+     * 是否使用笔记中第一个一级标题作为显示标题
+     * 优先级位于 frontmatter 之后、正则规则之前
+     */
+    useHeadingTitle: boolean;
+    
+    /**
+     * 笔记没有一级标题时的处理方式
+     */
+    headingFallback: HeadingFallback;
+    
+    /**
+     * 用于从文件名中提取显示名称的正则规则列表，按顺序匹配
+     */
+    regexRules: RegexRule[];
+    
+    /**
+     * 正则规则结果的后处理步骤，按顺序执行启用的步骤
+     */
+    titleTransforms: TitleTransformStep[];
+    
+    /**
+     * 手动设置的显示标题，键为文件路径
+     * 优先于 frontmatter、一级标题和正则规则
+     */
+    titleOverrides: TitleOverrides;
+    
+    /**
+     * 最近一次批量转换链接别名的记录，用于撤销
+     */
+    lastAliasConversion: AliasConversionLog | null;
+    
+    /**
+     * 写入显示标题的 frontmatter 属性
+     */
+    titlePropertyKey: string;
+    
+    /**
+     * 是否在标题变化时自动写入 frontmatter 属性
+     */
+    syncTitleProperty: boolean;
+    
+    /**
+     * 属性中已有用户填写的值时是否覆盖
+     */
+    overwriteTitleProperty: boolean;
+    
+    /**
+     * 插件写入过的标题属性值，键为文件路径
+     * 用于区分插件写入的值和用户填写的值
      */
-    regexPattern: string;
+    titlePropertyValues: Record<string, string>;
+    
+    /**
+     * 按模板重命名文件时使用的命名模板
+     * 支持 {{title}}、{{date}} 和 {{date:格式}}
+     */
+    renameTemplate: string;
+    
+    /**
+     * 按文件夹设置的命名模板，新建笔记时优先于 renameTemplate
+     * 支持 {{title}}、{{date}}、{{counter}} 和 {{id}}
+     */
+    folderNamingTemplates: FolderNamingTemplate[];
     
     /**
      * 启用插件的文件夹路径列表
      */
     includedFolders: string[];
+    
+    /**
+     * 排除的文件夹路径列表
+     * 与包含的文件夹冲突时，路径更具体的设置优先；同一路径下排除优先
+     */
+    excludedFolders: string[];
+    
+    /**
+     * 排除的文件名正则表达式列表，匹配不含扩展名的文件名
+     */
+    excludedFilenamePatterns: string[];
+    
+    /**
+     * 排除的标签列表（可带 #），同时排除其嵌套标签
+     */
+    excludedTags: string[];
+    
+    /**
+     * 排除的文件扩展名列表（如 canvas）
+     */
+    excludedExtensions: string[];
 
     /**
      * 是否启用阅读视图标题替换
@@ -36,6 +193,46 @@ export interface TitleChangerSettings {
      * 是否启用Markdown视图标题替换
      */
     enableMarkdownView: boolean;
+
+    /**
+     * 是否启用标签页和窗口标题替换
+     */
+    enableTabTitleView: boolean;
+
+    /**
+     * 是否启用反向链接和出链面板标题替换
+     */
+    enableLinkPanesView: boolean;
+
+    /**
+     * 是否启用搜索结果标题替换
+     */
+    enableSearchResultsView: boolean;
+
+    /**
+     * 是否启用书签面板标题替换
+     */
+    enableBookmarksView: boolean;
+
+    /**
+     * 是否启用白板文件节点标题替换
+     */
+    enableCanvasView: boolean;
+
+    /**
+     * 是否在链接补全中按显示标题搜索
+     */
+    enableTitleLinkSuggest: boolean;
+
+    /**
+     * 文件浏览器排序方式
+     */
+    explorerSortMode: ExplorerSortMode;
+
+    /**
+     * 按住后临时显示原始文件名的按键
+     */
+    peekKey: PeekKey;
     
     /**
      * 是否使用缓存
@@ -95,12 +292,39 @@ export interface TitleChangerSettings {
  */
 export const DEFAULT_SETTINGS: TitleChangerSettings = {
     enabled: true,
-    regexPattern: '.*_\\d{4}_\\d{2}_\\d{2}_(.+)$', // 匹配日期格式后的所有内容
+    useFrontmatterTitle: false,
+    frontmatterTitleKey: 'title, aliases',
+    useHeadingTitle: false,
+    headingFallback: 'regex',
+    regexRules: [
+        createRegexRule('.*_\\d{4}_\\d{2}_\\d{2}_(.+)$', '', '日期格式(YYYY_MM_DD)后的内容', 'default-date')
+    ],
+    titleTransforms: createDefaultTransforms(),
+    titleOverrides: {},
+    lastAliasConversion: null,
+    titlePropertyKey: 'display_title',
+    syncTitleProperty: false,
+    overwriteTitleProperty: false,
+    titlePropertyValues: {},
+    renameTemplate: '{{date:YYYY_MM_DD}}_{{title}}',
+    folderNamingTemplates: [],
     includedFolders: [],
+    excludedFolders: [],
+    excludedFilenamePatterns: [],
+    excludedTags: [],
+    excludedExtensions: [],
     enableReadingView: true,
     enableEditorLinkView: true,
     enableGraphView: true,
     enableMarkdownView: true,
+    enableTabTitleView: true,
+    enableLinkPanesView: true,
+    enableSearchResultsView: true,
+    enableBookmarksView: true,
+    enableCanvasView: true,
+    enableTitleLinkSuggest: true,
+    explorerSortMode: 'default',
+    peekKey: 'Alt',
     useCache: true,
     cacheExpiration: 60,
     cacheCapacity: 1000,
@@ -111,4 +335,36 @@ export const DEFAULT_SETTINGS: TitleChangerSettings = {
     useFastCache: true,  // 默认启用增强型缓存
     persistCache: false, // 默认不启用持久化
     debugMode: false
-};
\ No newline at end of file
+};
+
+/**
+ * 合并已保存的数据与默认设置，并迁移旧版本的设置项
+ * @param data 通过 loadData 读取的原始数据
+ * @returns 完整的设置对象
+ */
+export function migrateSettings(data: unknown): TitleChangerSettings {
+    const saved = (data && typeof data === 'object' ? data : {}) as Record<string, unknown>;
+    const settings: TitleChangerSettings = Object.assign({}, DEFAULT_SETTINGS, saved);
+    
+    // 复制默认值中的数组和对象，避免修改设置时影响默认值
+    settings.includedFolders = [...settings.includedFolders];
+    settings.excludedFolders = [...settings.excludedFolders];
+    settings.excludedFilenamePatterns = [...settings.excludedFilenamePatterns];
+    settings.excludedTags = [...settings.excludedTags];
+    settings.excludedExtensions = [...settings.excludedExtensions];
+    settings.titleOverrides = { ...settings.titleOverrides };
+    settings.titlePropertyValues = { ...settings.titlePropertyValues };
+    settings.folderNamingTemplates = (settings.folderNamingTemplates ?? []).map(item => ({ ...item }));
+    settings.titleTransforms = normalizeTransforms(saved.titleTransforms);
+    
+    // 旧版本只有单个 regexPattern，迁移为一条规则
+    if (!Array.isArray(saved.regexRules)) {
+        const legacyPattern = typeof saved.regexPattern === 'string' ? saved.regexPattern : null;
+        settings.regexRules = legacyPattern !== null
+            ? (legacyPattern.trim() === '' ? [] : [createRegexRule(legacyPattern)])
+            : DEFAULT_SETTINGS.regexRules.map(rule => ({ ...rule }));
+    }
+    delete (settings as unknown as Record<string, unknown>).regexPattern;
+    
+    return settings;
+}
@@ -1,9 +1,10 @@
-export { DEFAULT_SETTINGS } from './TitleChangerSettings';
-export type { TitleChangerSettings } from './TitleChangerSettings';
+export { DEFAULT_SETTINGS, migrateSettings } from './TitleChangerSettings';
+export type { TitleChangerSettings, RegexRule, HeadingFallback, PeekKey } from './TitleChangerSettings';
 export { TitleChangerSettingTab } from './SettingTab';
 
 // 导出设置部分
 export { BasicSettingsSection } from './sections/BasicSettings';
 export { DisplaySettingsSection } from './sections/DisplaySettings';
 export { PerformanceSettingsSection } from './sections/PerformanceSettings';
-export { AdvancedSettingsSection } from './sections/AdvancedSettings'; 
\ No newline at end of file
+export { AdvancedSettingsSection } from './sections/AdvancedSettings';
+export { TitleOverridesSettingsSection } from './sections/TitleOverridesSettings'; 
\ No newline at end of file
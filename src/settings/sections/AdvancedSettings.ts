@@ -8,6 +8,7 @@ import { FolderSelector } from '../../components/FolderSelector';
  */
 export class AdvancedSettingsSection implements SettingSection {
     private folderSelector: FolderSelector | null = null;
+    private excludedFolderSelector: FolderSelector | null = null;
     
     constructor(
         private plugin: TitleChangerPlugin,
@@ -40,6 +41,46 @@ export class AdvancedSettingsSection implements SettingSection {
             }
         );
         
+        // 排除文件夹设置
+        new Setting(containerEl)
+            .setName('排除文件夹')
+            .setDesc('这些文件夹及其子文件夹中的文件不会被处理。与生效文件夹冲突时，路径更具体的设置优先，例如可以生效于 Notes 但排除 Notes/Archive。');
+        
+        this.excludedFolderSelector = new FolderSelector(
+            containerEl.createDiv('folder-selector-container'),
+            this.app,
+            this.plugin.settings.excludedFolders,
+            async (folders: string[]) => {
+                this.plugin.settings.excludedFolders = folders;
+                await this.plugin.saveSettings();
+            }
+        );
+        
+        // 排除规则设置
+        this.addExclusionSetting(
+            containerEl,
+            '排除文件名',
+            '文件名（不含扩展名）匹配这些正则表达式的文件不会被处理，每行一个，例如 ^README。',
+            '^README',
+            'excludedFilenamePatterns'
+        );
+        
+        this.addExclusionSetting(
+            containerEl,
+            '排除标签',
+            '带有这些标签（包括嵌套标签）的文件不会被处理，每行一个，例如 #keep-name。',
+            '#keep-name',
+            'excludedTags'
+        );
+        
+        this.addExclusionSetting(
+            containerEl,
+            '排除扩展名',
+            '这些扩展名的文件不会被处理，每行一个，例如 canvas。',
+            'canvas',
+            'excludedExtensions'
+        );
+        
         // 调试设置
         new Setting(containerEl)
             .setName('调试模式')
@@ -51,4 +92,34 @@ export class AdvancedSettingsSection implements SettingSection {
                     await this.plugin.saveSettings();
                 }));
     }
-} 
\ No newline at end of file
+    
+    /**
+     * 添加按行编辑的排除规则设置
+     * @param containerEl 设置容器
+     * @param name 设置名称
+     * @param desc 设置描述
+     * @param placeholder 占位文本
+     * @param key 对应的设置项
+     */
+    private addExclusionSetting(
+        containerEl: HTMLElement,
+        name: string,
+        desc: string,
+        placeholder: string,
+        key: 'excludedFilenamePatterns' | 'excludedTags' | 'excludedExtensions'
+    ): void {
+        new Setting(containerEl)
+            .setName(name)
+            .setDesc(desc)
+            .addTextArea(text => text
+                .setPlaceholder(placeholder)
+                .setValue(this.plugin.settings[key].join('\n'))
+                .onChange(async (value) => {
+                    this.plugin.settings[key] = value
+                        .split('\n')
+                        .map(line => line.trim())
+                        .filter(line => line !== '');
+                    await this.plugin.saveSettings();
+                }));
+    }
+}
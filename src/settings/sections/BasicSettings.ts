@@ -1,27 +1,90 @@
 import { Setting } from 'obsidian';
 import { TitleChangerPlugin } from '../../main';
 import { SettingSection } from './interfaces';
-import { 
-    createSafeRegex, 
-    ErrorType, 
-    ErrorSeverity, 
-    getRegexErrorDescription, 
-    hasCapturingGroups 
+import { FolderSelector } from '../../components/FolderSelector';
+import type { HeadingFallback, RegexRule } from '../TitleChangerSettings';
+import {
+    createSafeRegex,
+    getRegexErrorDescription,
+    hasCapturingGroups
 } from '../../utils/RegexHelper';
+import {
+    createRegexRule,
+    applyRuleTemplate,
+    findFirstMatchingRule,
+    getActiveRules,
+    getRuleDisplayName,
+    normalizeRegexFlags
+} from '../../utils/RegexRules';
+import {
+    TITLE_TRANSFORM_INFO,
+    applyTitleTransforms,
+    previewTitleTransforms
+} from '../../utils/TitleTransforms';
 
 /**
  * 基本设置部分
  */
 export class BasicSettingsSection implements SettingSection {
+    private rulesContainer: HTMLElement | null = null;
+    private transformsContainer: HTMLElement | null = null;
+    private testValue = '';
+    private testResult: HTMLElement | null = null;
+
     constructor(private plugin: TitleChangerPlugin) {}
-    
+
     /**
      * 在容器中显示基本设置
      * @param containerEl 设置容器
      */
     display(containerEl: HTMLElement): void {
         containerEl.createEl('h3', { text: '基本功能' });
-        
+
+        // frontmatter 标题设置
+        new Setting(containerEl)
+            .setName('使用 frontmatter 标题')
+            .setDesc('启用后优先使用笔记 frontmatter 中的标题，没有时再使用一级标题和下方的正则规则，最后显示原始文件名。')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.useFrontmatterTitle)
+                .onChange(async (value) => {
+                    this.plugin.settings.useFrontmatterTitle = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('frontmatter 标题键')
+            .setDesc('读取标题的 frontmatter 键，多个键使用逗号分隔并按顺序尝试。列表类型的值（如 aliases）使用第一项。')
+            .addText(text => text
+                .setPlaceholder('title, aliases')
+                .setValue(this.plugin.settings.frontmatterTitleKey)
+                .onChange(async (value) => {
+                    this.plugin.settings.frontmatterTitleKey = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        // 一级标题设置
+        new Setting(containerEl)
+            .setName('使用一级标题')
+            .setDesc('启用后使用笔记中第一个一级标题（# 标题）作为显示名称，优先级位于 frontmatter 之后、正则规则之前。')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.useHeadingTitle)
+                .onChange(async (value) => {
+                    this.plugin.settings.useHeadingTitle = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('没有一级标题时')
+            .setDesc('笔记中没有一级标题时的显示方式')
+            .addDropdown(dropdown => dropdown
+                .addOption('regex', '继续使用正则规则')
+                .addOption('original', '显示原始文件名')
+                .setValue(this.plugin.settings.headingFallback)
+                .onChange(async (value) => {
+                    this.plugin.settings.headingFallback = value as HeadingFallback;
+                    await this.plugin.saveSettings();
+                }));
+
         // 预设表达式选项
         const presetExpressions: { label: string; value: string }[] = [
             {
@@ -37,107 +100,335 @@ export class BasicSettingsSection implements SettingSection {
 
         // 下拉菜单选择表达式
         const presetSetting = new Setting(containerEl)
-            .setName('选择常用表达式')
-            .setDesc('可快速选择常用表达式，选中后会自动填充到下方输入框，可继续手动编辑。');
-        
+            .setName('添加常用表达式')
+            .setDesc('可快速选择常用表达式，选中后会作为新规则添加到规则列表末尾，可继续手动编辑。');
+
         const selectEl = document.createElement('select');
         selectEl.style.marginRight = '8px';
+        const placeholderOption = document.createElement('option');
+        placeholderOption.value = '';
+        placeholderOption.text = '选择表达式...';
+        selectEl.appendChild(placeholderOption);
         presetExpressions.forEach(opt => {
             const option = document.createElement('option');
             option.value = opt.value;
             option.text = opt.label;
             selectEl.appendChild(option);
         });
-        // 默认选中当前设置
-        selectEl.value = this.plugin.settings.regexPattern;
         selectEl.addEventListener('change', async (e) => {
             const value = (e.target as HTMLSelectElement).value;
-            regexInput.setValue(value); // 自动填充输入框
-            this.plugin.settings.regexPattern = value;
-            await this.plugin.saveSettings();
+            if (!value) return;
+
+            const preset = presetExpressions.find(opt => opt.value === value);
+            this.plugin.settings.regexRules.push(createRegexRule(value, '', preset?.label));
+            selectEl.value = '';
+            await this.saveAndRefresh(true);
         });
         presetSetting.controlEl.appendChild(selectEl);
-        
-        // 正则表达式设置
-        const regexSetting = new Setting(containerEl)
-            .setName('标题提取正则表达式')
-            .setDesc('用于从文件名中提取显示名称的正则表达式。使用括号()来捕获要显示的部分。默认模式匹配日期格式(YYYY_MM_DD)后的所有内容。');
-        
-        // 先声明 regexInput 变量
-        let regexInput: import('obsidian').TextComponent;
-        
-        // 创建正则表达式输入字段
-        regexSetting.addText(text => {
-            regexInput = text;
-            text.setPlaceholder('例如: .*_\\d{4}_\\d{2}_\\d{2}_(.+)$')
-                .setValue(this.plugin.settings.regexPattern)
-                .onChange(async (value) => {
-                    // 添加实时验证
-                    const result = createSafeRegex(value, '');
-                    
-                    // 清除旧的错误提示
-                    const parentEl = text.inputEl.parentElement;
-                    if (parentEl) {
-                        const errorEl = parentEl.querySelector('.regex-error');
-                        if (errorEl) errorEl.remove();
-                        
-                        // 如果有错误，显示错误提示
-                        if (result.error) {
-                            // 获取用户友好的错误描述
-                            const friendlyError = getRegexErrorDescription(value, result.error);
-                            
-                            const errorEl = createDiv({
-                                cls: 'regex-error',
-                                text: `错误: ${friendlyError}`
-                            });
-                            errorEl.style.color = 'var(--text-error)';
-                            parentEl.appendChild(errorEl);
-                        } 
-                        // 检查是否有捕获组
-                        else if (result.regex && !hasCapturingGroups(result.regex)) {
-                            const errorEl = createDiv({
-                                cls: 'regex-warning',
-                                text: `警告: 正则表达式没有包含捕获组，请使用()来标记要提取的部分`
-                            });
-                            errorEl.style.color = 'var(--text-warning)';
-                            parentEl.appendChild(errorEl);
-                        }
-                    }
-                    
-                    this.plugin.settings.regexPattern = value;
-                    await this.plugin.saveSettings();
-                });
-            return text;
-        });
-        
+
+        // 规则列表
+        new Setting(containerEl)
+            .setName('标题提取规则')
+            .setDesc('用于从文件名中提取显示名称的正则表达式。规则按从上到下的顺序尝试，使用第一条匹配的规则。使用括号()来捕获要显示的部分。')
+            .addButton(button => button
+                .setButtonText('添加规则')
+                .setCta()
+                .onClick(async () => {
+                    this.plugin.settings.regexRules.push(createRegexRule());
+                    await this.saveAndRefresh(true);
+                })
+            );
+
+        this.rulesContainer = containerEl.createDiv('regex-rules-container');
+        this.renderRules();
+
+        // 后处理步骤
+        new Setting(containerEl)
+            .setName('标题后处理')
+            .setDesc('对正则规则提取的结果依次执行启用的处理步骤，可调整顺序。处理过程可在下方测试区域预览。');
+
+        this.transformsContainer = containerEl.createDiv('title-transforms-container');
+        this.renderTransforms();
+
         // 添加测试工具
         const testContainer = containerEl.createDiv('regex-test-container');
-        
+
         // 创建测试输入字段
         const testInputSetting = new Setting(testContainer)
             .setName('测试文件名')
-            .setDesc('输入一个文件名来测试正则表达式效果');
-        
-        const testInput = testInputSetting.addText(text => text
+            .setDesc('输入一个文件名来测试规则效果');
+
+        testInputSetting.addText(text => text
             .setPlaceholder('例如: AIGC_2023_01_01_测试文档')
+            .setValue(this.testValue)
             .onChange(value => {
-                this.updateTestResult(value, testResult);
+                this.testValue = value;
+                this.refreshTestResult();
             })
         );
-        
+
         // 创建测试结果显示区域
         const testResultContainer = testContainer.createDiv('regex-test-result-container');
-        const testResultHeading = testResultContainer.createEl('h4', { text: '测试结果:' });
+        testResultContainer.createEl('h4', { text: '测试结果:' });
         const testResult = testResultContainer.createDiv('regex-test-result');
         testResult.style.padding = '10px';
         testResult.style.marginTop = '5px';
         testResult.style.backgroundColor = 'var(--background-secondary)';
         testResult.style.borderRadius = '5px';
-        
+        this.testResult = testResult;
+
         // 初始更新测试结果
-        this.updateTestResult('', testResult);
+        this.refreshTestResult();
+    }
+
+    /**
+     * 渲染规则列表
+     */
+    private renderRules(): void {
+        const container = this.rulesContainer;
+        if (!container) return;
+
+        container.empty();
+        const rules = this.plugin.settings.regexRules;
+
+        if (rules.length === 0) {
+            container.createDiv({
+                cls: 'regex-rules-empty',
+                text: '尚未添加任何规则，文件名将保持原样显示。'
+            });
+            return;
+        }
+
+        rules.forEach((rule, index) => this.renderRule(container, rule, index));
+    }
+
+    /**
+     * 渲染后处理步骤列表
+     */
+    private renderTransforms(): void {
+        const container = this.transformsContainer;
+        if (!container) return;
+
+        container.empty();
+        const steps = this.plugin.settings.titleTransforms;
+
+        steps.forEach((step, index) => {
+            const info = TITLE_TRANSFORM_INFO[step.type];
+            new Setting(container)
+                .setName(info.name)
+                .setDesc(info.desc)
+                .addToggle(toggle => toggle
+                    .setValue(step.enabled)
+                    .onChange(async (value) => {
+                        step.enabled = value;
+                        await this.saveAndRefresh(false);
+                    }))
+                .addExtraButton(button => button
+                    .setIcon('arrow-up')
+                    .setTooltip('上移')
+                    .setDisabled(index === 0)
+                    .onClick(async () => {
+                        if (index === 0) return;
+                        [steps[index - 1], steps[index]] = [steps[index], steps[index - 1]];
+                        this.renderTransforms();
+                        await this.saveAndRefresh(false);
+                    }))
+                .addExtraButton(button => button
+                    .setIcon('arrow-down')
+                    .setTooltip('下移')
+                    .setDisabled(index === steps.length - 1)
+                    .onClick(async () => {
+                        if (index === steps.length - 1) return;
+                        [steps[index], steps[index + 1]] = [steps[index + 1], steps[index]];
+                        this.renderTransforms();
+                        await this.saveAndRefresh(false);
+                    }));
+        });
+    }
+
+    /**
+     * 渲染单条规则
+     * @param container 规则列表容器
+     * @param rule 规则
+     * @param index 规则位置
+     */
+    private renderRule(container: HTMLElement, rule: RegexRule, index: number): void {
+        const rules = this.plugin.settings.regexRules;
+        const ruleEl = container.createDiv('regex-rule-item');
+        if (!rule.enabled) {
+            ruleEl.addClass('is-disabled');
+        }
+
+        // 规则标题行：名称、启用开关和排序/删除按钮
+        const headerSetting = new Setting(ruleEl)
+            .setName(getRuleDisplayName(rule, index))
+            .addText(text => text
+                .setPlaceholder('规则名称（可选）')
+                .setValue(rule.label || '')
+                .onChange(async (value) => {
+                    rule.label = value.trim() === '' ? undefined : value;
+                    headerSetting.setName(getRuleDisplayName(rule, index));
+                    await this.saveAndRefresh(false);
+                })
+            )
+            .addToggle(toggle => toggle
+                .setTooltip('启用或禁用此规则')
+                .setValue(rule.enabled)
+                .onChange(async (value) => {
+                    rule.enabled = value;
+                    ruleEl.toggleClass('is-disabled', !value);
+                    await this.saveAndRefresh(false);
+                })
+            )
+            .addExtraButton(button => button
+                .setIcon('arrow-up')
+                .setTooltip('上移')
+                .setDisabled(index === 0)
+                .onClick(async () => {
+                    if (index === 0) return;
+                    [rules[index - 1], rules[index]] = [rules[index], rules[index - 1]];
+                    await this.saveAndRefresh(true);
+                })
+            )
+            .addExtraButton(button => button
+                .setIcon('arrow-down')
+                .setTooltip('下移')
+                .setDisabled(index === rules.length - 1)
+                .onClick(async () => {
+                    if (index === rules.length - 1) return;
+                    [rules[index], rules[index + 1]] = [rules[index + 1], rules[index]];
+                    await this.saveAndRefresh(true);
+                })
+            )
+            .addExtraButton(button => button
+                .setIcon('trash')
+                .setTooltip('删除规则')
+                .onClick(async () => {
+                    rules.splice(index, 1);
+                    await this.saveAndRefresh(true);
+                })
+            );
+
+        // 正则表达式和标志
+        const patternSetting = new Setting(ruleEl)
+            .setName('正则表达式')
+            .setDesc('标志可选，例如 i（忽略大小写）、u（Unicode）。');
+
+        patternSetting.addText(text => {
+            text.setPlaceholder('例如: .*_\\d{4}_\\d{2}_\\d{2}_(.+)$')
+                .setValue(rule.pattern)
+                .onChange(async (value) => {
+                    rule.pattern = value;
+                    this.showRuleValidation(patternSetting.controlEl, rule);
+                    await this.saveAndRefresh(false);
+                });
+            text.inputEl.addClass('regex-rule-pattern');
+            return text;
+        });
+
+        patternSetting.addText(text => {
+            text.setPlaceholder('标志')
+                .setValue(rule.flags)
+                .onChange(async (value) => {
+                    rule.flags = value;
+                    this.showRuleValidation(patternSetting.controlEl, rule);
+                    await this.saveAndRefresh(false);
+                });
+            text.inputEl.addClass('regex-rule-flags');
+            text.inputEl.size = 4;
+            return text;
+        });
+
+        this.showRuleValidation(patternSetting.controlEl, rule);
+
+        // 输出模板
+        new Setting(ruleEl)
+            .setName('输出模板')
+            .setDesc('可选。使用 $1、${1} 引用编号捕获组，${name} 引用命名捕获组，其余为字面文本，$$ 表示美元符号。留空时显示第一个捕获组。')
+            .addText(text => {
+                text.setPlaceholder('例如: $3 ($1) 或 ${title} · ${date}')
+                    .setValue(rule.template || '')
+                    .onChange(async (value) => {
+                        rule.template = value.trim() === '' ? undefined : value;
+                        await this.saveAndRefresh(false);
+                    });
+                text.inputEl.addClass('regex-rule-template');
+                return text;
+            });
+
+        // 规则适用的文件夹
+        new Setting(ruleEl)
+            .setName('适用文件夹')
+            .setDesc('可选。仅对这些文件夹及其子文件夹中的文件使用此规则，留空时适用于所有文件夹。');
+
+        new FolderSelector(
+            ruleEl.createDiv('folder-selector-container'),
+            this.plugin.app,
+            rule.folders || [],
+            async (folders: string[]) => {
+                rule.folders = folders.length > 0 ? [...folders] : undefined;
+                await this.saveAndRefresh(false);
+            }
+        );
     }
-    
+
+    /**
+     * 显示规则的实时验证结果
+     * @param parentEl 用于显示提示的元素
+     * @param rule 规则
+     */
+    private showRuleValidation(parentEl: HTMLElement, rule: RegexRule): void {
+        // 清除旧的错误提示
+        parentEl.querySelectorAll('.regex-error, .regex-warning').forEach(el => el.remove());
+
+        if (!rule.pattern) return;
+
+        const result = createSafeRegex(rule.pattern, normalizeRegexFlags(rule.flags));
+
+        // 如果有错误，显示错误提示
+        if (result.error) {
+            // 获取用户友好的错误描述
+            const friendlyError = getRegexErrorDescription(rule.pattern, result.error);
+
+            const errorEl = createDiv({
+                cls: 'regex-error',
+                text: `错误: ${friendlyError}`
+            });
+            errorEl.style.color = 'var(--text-error)';
+            parentEl.appendChild(errorEl);
+        }
+        // 检查是否有捕获组
+        else if (result.regex && !hasCapturingGroups(result.regex)) {
+            const warningEl = createDiv({
+                cls: 'regex-warning',
+                text: `警告: 正则表达式没有包含捕获组，请使用()来标记要提取的部分`
+            });
+            warningEl.style.color = 'var(--text-warning)';
+            parentEl.appendChild(warningEl);
+        }
+    }
+
+    /**
+     * 保存设置并刷新界面
+     * @param rerender 是否重新渲染规则列表
+     */
+    private async saveAndRefresh(rerender: boolean): Promise<void> {
+        if (rerender) {
+            this.renderRules();
+        }
+        this.refreshTestResult();
+        await this.plugin.saveSettings();
+    }
+
+    /**
+     * 使用当前测试输入刷新测试结果
+     */
+    private refreshTestResult(): void {
+        if (this.testResult) {
+            this.updateTestResult(this.testValue, this.testResult);
+        }
+    }
+
     /**
      * 更新测试结果显示
      * @param testValue 测试输入值
@@ -146,84 +437,76 @@ export class BasicSettingsSection implements SettingSection {
     private updateTestResult(testValue: string, resultElement: HTMLElement): void {
         if (!testValue) {
             resultElement.innerText = '请输入测试文本...';
+            resultElement.className = 'regex-test-result';
             return;
         }
-        
-        // 测试正则表达式
-        const regex = createSafeRegex(this.plugin.settings.regexPattern, '');
-        
-        if (!regex.regex) {
-            // 获取用户友好的错误描述
-            const friendlyError = getRegexErrorDescription(this.plugin.settings.regexPattern, regex.error || '未知错误');
-            
-            resultElement.innerText = `无法创建正则表达式: ${friendlyError}`;
-            resultElement.style.color = 'var(--text-error)';
+
+        const rules = this.plugin.settings.regexRules;
+        const activeRules = getActiveRules(rules);
+
+        if (activeRules.length === 0) {
+            resultElement.innerText = '没有启用的规则';
+            resultElement.className = 'regex-test-result warning';
             return;
         }
-        
-        // 执行正则表达式匹配
+
+        // 按顺序执行规则匹配，用户输入的文本和规则名称只作为文本插入
+        resultElement.empty();
         try {
-            const matches = testValue.match(regex.regex);
-            
-            if (matches && matches.length > 1) {
-                resultElement.innerHTML = `
-                    <span class="test-success">匹配成功!</span>
-                    <div class="test-details">
-                        <div class="test-item">
-                            <span class="test-label">原始文本:</span> 
-                            <span class="test-value">${testValue}</span>
-                        </div>
-                        <div class="test-item">
-                            <span class="test-label">提取结果:</span> 
-                            <span class="test-value result-highlight">${matches[1]}</span>
-                        </div>
-                    </div>
-                `;
+            const result = findFirstMatchingRule(testValue, rules);
+
+            if (result && (result.match.length > 1 || result.rule.template)) {
+                const extracted = applyRuleTemplate(result.rule, result.match);
+                const steps = previewTitleTransforms(extracted, this.plugin.settings.titleTransforms);
+                const finalTitle = applyTitleTransforms(extracted, this.plugin.settings.titleTransforms);
+
+                resultElement.createSpan({ cls: 'test-success', text: '匹配成功!' });
+                const details = resultElement.createDiv({ cls: 'test-details' });
+                this.addTestItem(details, '原始文本:', testValue);
+                this.addTestItem(details, '匹配规则:', getRuleDisplayName(result.rule, result.index));
+                this.addTestItem(details, '提取结果:', extracted, steps.length === 0);
+                steps.forEach(step => this.addTestItem(details, `${TITLE_TRANSFORM_INFO[step.type].name}:`, step.output));
+                if (steps.length > 0) {
+                    this.addTestItem(details, '最终结果:', finalTitle || '（空，将显示原始文件名）', true);
+                }
                 resultElement.className = 'regex-test-result success';
-            } else if (matches && matches.length === 1) {
+            } else if (result) {
                 // 有匹配但没有捕获组
-                resultElement.innerHTML = `
-                    <span class="test-warning">匹配成功，但没有捕获组!</span>
-                    <div class="test-details">
-                        <div class="test-item">
-                            <span class="test-label">提示:</span>
-                            <span class="test-value">请在正则表达式中使用括号()来捕获要提取的部分</span>
-                        </div>
-                        <div class="test-example">
-                            <span>示例: <code>.*_(\\d{4})_.*</code> 会捕获下划线之间的年份</span>
-                        </div>
-                    </div>
-                `;
+                resultElement.createSpan({ cls: 'test-warning', text: '匹配成功，但没有捕获组!' });
+                const details = resultElement.createDiv({ cls: 'test-details' });
+                this.addTestItem(details, '匹配规则:', getRuleDisplayName(result.rule, result.index));
+                this.addTestItem(details, '提示:', '请在正则表达式中使用括号()来捕获要提取的部分');
+                const example = details.createDiv({ cls: 'test-example' }).createSpan({ text: '示例: ' });
+                example.createEl('code', { text: '.*_(\\d{4})_.*' });
+                example.appendText(' 会捕获下划线之间的年份');
                 resultElement.className = 'regex-test-result warning';
             } else {
                 // 无匹配
-                resultElement.innerHTML = `
-                    <span class="test-error">无匹配结果</span>
-                    <div class="test-details">
-                        <div class="test-item">
-                            <span class="test-label">输入文本:</span>
-                            <span class="test-value">${testValue}</span>
-                        </div>
-                        <div class="test-item">
-                            <span class="test-label">正则表达式:</span>
-                            <span class="test-value">${this.plugin.settings.regexPattern}</span>
-                        </div>
-                    </div>
-                `;
+                resultElement.createSpan({ cls: 'test-error', text: '无匹配结果' });
+                const details = resultElement.createDiv({ cls: 'test-details' });
+                this.addTestItem(details, '输入文本:', testValue);
+                this.addTestItem(details, '已尝试规则:', `${activeRules.length} 条`);
                 resultElement.className = 'regex-test-result error';
             }
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : String(error);
-            resultElement.innerHTML = `
-                <span class="test-error">执行错误</span>
-                <div class="test-details">
-                    <div class="test-item">
-                        <span class="test-label">错误信息:</span>
-                        <span class="test-value">${errorMessage}</span>
-                    </div>
-                </div>
-            `;
+            resultElement.empty();
+            resultElement.createSpan({ cls: 'test-error', text: '执行错误' });
+            this.addTestItem(resultElement.createDiv({ cls: 'test-details' }), '错误信息:', errorMessage);
             resultElement.className = 'regex-test-result error';
         }
     }
-} 
\ No newline at end of file
+
+    /**
+     * 在测试结果中添加一行
+     * @param container 结果详情容器
+     * @param label 标签
+     * @param value 值，作为文本插入
+     * @param highlight 是否高亮显示
+     */
+    private addTestItem(container: HTMLElement, label: string, value: string, highlight = false): void {
+        const item = container.createDiv({ cls: 'test-item' });
+        item.createSpan({ cls: 'test-label', text: label });
+        item.createSpan({ cls: highlight ? 'test-value result-highlight' : 'test-value', text: value });
+    }
+}
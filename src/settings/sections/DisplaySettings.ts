@@ -1,6 +1,8 @@
 import { Setting } from 'obsidian';
 import { TitleChangerPlugin } from '../../main';
 import { SettingSection } from './interfaces';
+import type { ExplorerSortMode } from '../../utils/TitleSort';
+import type { PeekKey } from '../TitleChangerSettings';
 
 /**
  * 显示设置部分
@@ -31,6 +33,36 @@ export class DisplaySettingsSection implements SettingSection {
                 })
             );
 
+        new Setting(containerEl)
+            .setName('文件浏览器排序')
+            .setDesc('按显示标题排序时数字按数值比较，显示标题相同时按原始文件名排序；文件夹保持 Obsidian 的排序')
+            .addDropdown(dropdown => dropdown
+                .addOption('default', '使用 Obsidian 的排序')
+                .addOption('titleAsc', '按显示标题 (A → Z)')
+                .addOption('titleDesc', '按显示标题 (Z → A)')
+                .setValue(this.plugin.settings.explorerSortMode)
+                .onChange(async (value) => {
+                    this.plugin.settings.explorerSortMode = value as ExplorerSortMode;
+                    await this.plugin.saveSettings();
+                })
+            );
+
+        new Setting(containerEl)
+            .setName('按住显示原始文件名')
+            .setDesc('按住此键时所有视图临时显示原始文件名，松开后恢复；也可以使用命令"切换显示原始文件名"')
+            .addDropdown(dropdown => dropdown
+                .addOption('none', '不使用')
+                .addOption('Alt', 'Alt / Option')
+                .addOption('Control', 'Ctrl')
+                .addOption('Shift', 'Shift')
+                .addOption('Meta', 'Cmd / Win')
+                .setValue(this.plugin.settings.peekKey)
+                .onChange(async (value) => {
+                    this.plugin.settings.peekKey = value as PeekKey;
+                    await this.plugin.saveSettings();
+                })
+            );
+
         new Setting(containerEl)
             .setName('启用编辑器链接视图')
             .setDesc('在编辑器中显示经过处理的链接文本')
@@ -95,5 +127,96 @@ export class DisplaySettingsSection implements SettingSection {
                     }
                 })
             );
+
+        new Setting(containerEl)
+            .setName('启用标签页标题替换')
+            .setDesc('在标签页标题和窗口标题中显示经过处理的文件名')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.enableTabTitleView)
+                .onChange(async (value) => {
+                    this.plugin.settings.enableTabTitleView = value;
+                    if (value) {
+                        this.plugin.getViewManager().enableView('tab');
+                    } else {
+                        this.plugin.getViewManager().disableView('tab');
+                    }
+                    await this.plugin.saveSettings();
+                })
+            );
+
+        new Setting(containerEl)
+            .setName('启用链接面板标题替换')
+            .setDesc('在反向链接、出链和未链接提及面板中显示经过处理的文件名')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.enableLinkPanesView)
+                .onChange(async (value) => {
+                    this.plugin.settings.enableLinkPanesView = value;
+                    if (value) {
+                        this.plugin.getViewManager().enableView('links');
+                    } else {
+                        this.plugin.getViewManager().disableView('links');
+                    }
+                    await this.plugin.saveSettings();
+                })
+            );
+
+        new Setting(containerEl)
+            .setName('启用搜索结果标题替换')
+            .setDesc('在全局搜索结果中显示经过处理的文件名，鼠标悬停时显示原始路径')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.enableSearchResultsView)
+                .onChange(async (value) => {
+                    this.plugin.settings.enableSearchResultsView = value;
+                    if (value) {
+                        this.plugin.getViewManager().enableView('search');
+                    } else {
+                        this.plugin.getViewManager().disableView('search');
+                    }
+                    await this.plugin.saveSettings();
+                })
+            );
+
+        new Setting(containerEl)
+            .setName('启用书签标题替换')
+            .setDesc('在书签面板中显示经过处理的文件名，已手动设置标题的书签保持不变')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.enableBookmarksView)
+                .onChange(async (value) => {
+                    this.plugin.settings.enableBookmarksView = value;
+                    if (value) {
+                        this.plugin.getViewManager().enableView('bookmarks');
+                    } else {
+                        this.plugin.getViewManager().disableView('bookmarks');
+                    }
+                    await this.plugin.saveSettings();
+                })
+            );
+
+        new Setting(containerEl)
+            .setName('启用白板标题替换')
+            .setDesc('在白板（Canvas）的文件卡片标签中显示经过处理的文件名')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.enableCanvasView)
+                .onChange(async (value) => {
+                    this.plugin.settings.enableCanvasView = value;
+                    if (value) {
+                        this.plugin.getViewManager().enableView('canvas');
+                    } else {
+                        this.plugin.getViewManager().disableView('canvas');
+                    }
+                    await this.plugin.saveSettings();
+                })
+            );
+
+        new Setting(containerEl)
+            .setName('在链接补全中显示标题')
+            .setDesc('输入 [[ 时按显示标题搜索笔记，并将文件路径显示为次要文本。关闭后使用 Obsidian 内置的链接补全')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.enableTitleLinkSuggest)
+                .onChange(async (value) => {
+                    this.plugin.settings.enableTitleLinkSuggest = value;
+                    await this.plugin.saveSettings();
+                })
+            );
     }
 } 
\ No newline at end of file
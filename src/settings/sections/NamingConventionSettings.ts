@@ -0,0 +1,82 @@
+import { Setting } from 'obsidian';
+import { TitleChangerPlugin } from '../../main';
+import { SettingSection } from './interfaces';
+
+/**
+ * 命名约定设置部分
+ */
+export class NamingConventionSettingsSection implements SettingSection {
+    private listContainer: HTMLElement | null = null;
+
+    constructor(private plugin: TitleChangerPlugin) {}
+
+    /**
+     * 在容器中显示命名约定设置
+     * @param containerEl 设置容器
+     */
+    display(containerEl: HTMLElement): void {
+        containerEl.createEl('h3', { text: '命名约定' });
+
+        new Setting(containerEl)
+            .setName('命名模板')
+            .setDesc('按模板重命名和新建笔记时使用的默认模板。{{title}} 为显示标题，{{date:YYYY_MM_DD}} 为日期（重命名时取文件创建时间），{{counter:2}} 为文件夹中的下一个编号，{{id:6}} 为随机 ID。')
+            .addText(text => text
+                .setPlaceholder('{{date:YYYY_MM_DD}}_{{title}}')
+                .setValue(this.plugin.settings.renameTemplate)
+                .onChange(async (value) => {
+                    this.plugin.settings.renameTemplate = value;
+                    await this.plugin.saveData(this.plugin.settings);
+                }));
+
+        new Setting(containerEl)
+            .setName('文件夹模板')
+            .setDesc('命令"新建笔记（按命名约定）"在这些文件夹及其子文件夹中使用单独的模板，路径最具体的优先。')
+            .addButton(button => button
+                .setButtonText('添加')
+                .onClick(async () => {
+                    this.plugin.settings.folderNamingTemplates.push({ folder: '', template: this.plugin.settings.renameTemplate });
+                    await this.plugin.saveData(this.plugin.settings);
+                    this.renderFolderTemplates();
+                }));
+
+        this.listContainer = containerEl.createDiv('title-changer-folder-templates');
+        this.renderFolderTemplates();
+    }
+
+    /**
+     * 渲染文件夹模板列表
+     */
+    private renderFolderTemplates(): void {
+        const container = this.listContainer;
+        if (!container) return;
+
+        container.empty();
+        const templates = this.plugin.settings.folderNamingTemplates;
+
+        templates.forEach((item, index) => {
+            new Setting(container)
+                .addText(text => text
+                    .setPlaceholder('文件夹路径')
+                    .setValue(item.folder)
+                    .onChange(async (value) => {
+                        item.folder = value.trim();
+                        await this.plugin.saveData(this.plugin.settings);
+                    }))
+                .addText(text => text
+                    .setPlaceholder('{{date:YYYY_MM_DD}}_{{counter:2}}_{{title}}')
+                    .setValue(item.template)
+                    .onChange(async (value) => {
+                        item.template = value;
+                        await this.plugin.saveData(this.plugin.settings);
+                    }))
+                .addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip('删除文件夹模板')
+                    .onClick(async () => {
+                        templates.splice(index, 1);
+                        await this.plugin.saveData(this.plugin.settings);
+                        this.renderFolderTemplates();
+                    }));
+        });
+    }
+}
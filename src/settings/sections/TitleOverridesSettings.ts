@@ -0,0 +1,70 @@
+import { Setting } from 'obsidian';
+import { TitleChangerPlugin } from '../../main';
+import { SettingSection } from './interfaces';
+
+/**
+ * 手动标题设置部分
+ */
+export class TitleOverridesSettingsSection implements SettingSection {
+    private listContainer: HTMLElement | null = null;
+
+    constructor(private plugin: TitleChangerPlugin) {}
+
+    /**
+     * 在容器中显示手动标题设置
+     * @param containerEl 设置容器
+     */
+    display(containerEl: HTMLElement): void {
+        containerEl.createEl('h3', { text: '手动标题' });
+
+        new Setting(containerEl)
+            .setName('已设置的手动标题')
+            .setDesc('通过"设置显示标题…"命令或文件右键菜单设置的标题，优先于其他所有标题来源。清空标题即可删除。');
+
+        this.listContainer = containerEl.createDiv('title-overrides-container');
+        this.renderOverrides();
+    }
+
+    /**
+     * 渲染手动标题列表
+     */
+    private renderOverrides(): void {
+        const container = this.listContainer;
+        if (!container) return;
+
+        container.empty();
+        const service = this.plugin.getTitleOverrideService();
+        const overrides = service.getAllOverrides();
+
+        if (overrides.length === 0) {
+            container.createDiv({
+                cls: 'title-overrides-empty',
+                text: '尚未设置任何手动标题。'
+            });
+            return;
+        }
+
+        overrides.forEach(([path, title]) => {
+            new Setting(container)
+                .setName(path)
+                .addText(text => {
+                    text.setValue(title);
+                    // 失去焦点时保存，避免每次输入都刷新视图
+                    text.inputEl.addEventListener('change', async () => {
+                        await service.setOverride(path, text.getValue());
+                        if (text.getValue().trim() === '') {
+                            this.renderOverrides();
+                        }
+                    });
+                    return text;
+                })
+                .addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip('清除手动标题')
+                    .onClick(async () => {
+                        await service.clearOverride(path);
+                        this.renderOverrides();
+                    }));
+        });
+    }
+}
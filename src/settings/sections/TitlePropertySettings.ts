@@ -0,0 +1,56 @@
+import { Setting } from 'obsidian';
+import { TitleChangerPlugin } from '../../main';
+import { SettingSection } from './interfaces';
+
+/**
+ * 标题属性设置部分
+ */
+export class TitlePropertySettingsSection implements SettingSection {
+    constructor(private plugin: TitleChangerPlugin) {}
+
+    /**
+     * 在容器中显示标题属性设置
+     * @param containerEl 设置容器
+     */
+    display(containerEl: HTMLElement): void {
+        containerEl.createEl('h3', { text: '写入 frontmatter' });
+
+        new Setting(containerEl)
+            .setName('标题属性名')
+            .setDesc('将显示标题写入笔记 frontmatter 中的这个属性，供静态站点生成器、Dataview 等工具读取。不能与读取标题的 frontmatter 键相同。')
+            .addText(text => text
+                .setPlaceholder('display_title')
+                .setValue(this.plugin.settings.titlePropertyKey)
+                .onChange(async (value) => {
+                    this.plugin.settings.titlePropertyKey = value;
+                    await this.plugin.saveData(this.plugin.settings);
+                }));
+
+        new Setting(containerEl)
+            .setName('自动同步')
+            .setDesc('笔记的显示标题变化后自动更新属性。修改规则后请使用下方按钮更新已有笔记。')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.syncTitleProperty)
+                .onChange(async (value) => {
+                    this.plugin.settings.syncTitleProperty = value;
+                    await this.plugin.saveData(this.plugin.settings);
+                }));
+
+        new Setting(containerEl)
+            .setName('覆盖已有的值')
+            .setDesc('默认只更新插件写入过的值，属性中已有用户填写的其他值时跳过。启用后这些值也会被覆盖。')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.overwriteTitleProperty)
+                .onChange(async (value) => {
+                    this.plugin.settings.overwriteTitleProperty = value;
+                    await this.plugin.saveData(this.plugin.settings);
+                }));
+
+        new Setting(containerEl)
+            .setName('写入显示标题')
+            .setDesc('预览并写入整个库或某个文件夹中笔记的标题属性')
+            .addButton(button => button
+                .setButtonText('预览…')
+                .onClick(() => this.plugin.getTitlePropertyService().openWriter()));
+    }
+}
@@ -25,6 +25,8 @@ export interface EditorViewUpdate extends ViewUpdate {
 export interface TitleChangedEvent {
     oldTitle: string;
     newTitle: string;
+    // 标题发生变化的文件路径，找不到对应文件时为空
+    path?: string;
 }
 
 // 扩展 Workspace 事件定义，添加自定义事件
@@ -88,19 +90,19 @@ export interface IViewManager {
  */
 export interface ICacheManager {
     processFile(file: TFile): string | null;
-    invalidateFile(file: TFile): void;
+    invalidateFile(file: TFile, oldPath?: string): void;
     clearCache(): void;
     /**
-     * 获取文件的显示标题
-     * @param fileName 文件名
+     * 获取已缓存的显示标题
+     * @param path 文件完整路径
      */
-    getDisplayTitle(fileName: string): string | null;
+    getDisplayTitle(path: string): string | null;
     /**
      * 更新标题缓存
-     * @param fileName 文件名
+     * @param path 文件完整路径
      * @param displayTitle 显示标题
      */
-    updateTitleCache(fileName: string, displayTitle: string): void;
+    updateTitleCache(path: string, displayTitle: string): void;
     /**
      * 获取所有缓存的标题
      */
@@ -125,6 +127,8 @@ export interface IDOMSelectorService {
     getTextElements(container: HTMLElement): Element[];
     getTitleElement(fileItem: HTMLElement): Element | null;
     getFilePath(fileItem: HTMLElement): string | null;
+    getSearchPanes(): HTMLElement[];
+    getSearchResultTitles(container: HTMLElement): HTMLElement[];
     /**
      * 刷新选择器配置
      * 在Obsidian更新或UI变化时调用
@@ -189,6 +193,7 @@ export enum EventType {
   EXPLORER_CHANGED = 'explorer-changed',
   DOM_MUTATION = 'dom-mutation',
   VIEWPORT_CHANGED = 'viewport-changed',
+  PEEK_MODE_CHANGED = 'peek-mode-changed',
   
   // 其他
   PLUGIN_SETTINGS_CHANGED = 'plugin-settings-changed',
@@ -216,6 +221,14 @@ export interface FileEvent extends IEvent {
   };
 }
 
+/**
+ * 标题变更事件接口
+ */
+export interface TitleEvent extends IEvent {
+  type: EventType.TITLE_CHANGED;
+  payload: TitleChangedEvent;
+}
+
 /**
  * DOM变化事件接口
  */
@@ -238,6 +251,16 @@ export interface ViewportEvent extends IEvent {
   };
 }
 
+/**
+ * 原始文件名预览切换事件接口
+ */
+export interface PeekModeEvent extends IEvent {
+  type: EventType.PEEK_MODE_CHANGED;
+  payload: {
+    active: boolean;
+  };
+}
+
 /**
  * 事件回调函数类型
  */
@@ -14,6 +14,7 @@ export const TYPES = {
   DOMObserverManager: Symbol.for("DOMObserverManager"),
   UpdateCoordinator: Symbol.for("UpdateCoordinator"),
   FileItemProcessor: Symbol.for("FileItemProcessor"),
+  ExplorerSortManager: Symbol.for("ExplorerSortManager"),
 
   // 视图
   ExplorerView: Symbol.for("ExplorerView"),
@@ -21,6 +22,11 @@ export const TYPES = {
   ReadingView: Symbol.for("ReadingView"),
   GraphView: Symbol.for("GraphView"),
   MarkdownViewManager: Symbol.for("MarkdownViewManager"),
+  TabTitleView: Symbol.for("TabTitleView"),
+  LinkPanesView: Symbol.for("LinkPanesView"),
+  SearchResultsView: Symbol.for("SearchResultsView"),
+  BookmarksView: Symbol.for("BookmarksView"),
+  CanvasView: Symbol.for("CanvasView"),
 
   // 服务
   FileHandlerService: Symbol.for("FileHandlerService"),
@@ -36,6 +42,13 @@ export const TYPES = {
   TitleService: Symbol.for("TitleService"),
   TitleStateService: Symbol.for("TitleStateService"),
   TitleStateAdapter: Symbol.for("TitleStateAdapter"),
+  TitleOverrideService: Symbol.for("TitleOverrideService"),
+  TitleSearchService: Symbol.for("TitleSearchService"),
+  LinkAliasService: Symbol.for("LinkAliasService"),
+  TitlePropertyService: Symbol.for("TitlePropertyService"),
+  FileRenameService: Symbol.for("FileRenameService"),
+  NewNoteService: Symbol.for("NewNoteService"),
+  PeekModeService: Symbol.for("PeekModeService"),
   UpdateScheduler: Symbol.for("UpdateScheduler"),
   EventBusService: Symbol.for("EventBusService"),
   
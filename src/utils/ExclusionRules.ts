@@ -0,0 +1,109 @@
+/**
+ * 排除规则工具
+ * 按文件名正则、标签和扩展名判断文件是否应跳过标题修改
+ */
+import type { TitleChangerSettings } from '../settings/TitleChangerSettings';
+import { createSafeRegex } from './RegexHelper';
+
+/**
+ * 检查排除规则所需的文件信息
+ */
+export interface ExclusionTarget {
+    basename: string;
+    extension: string;
+}
+
+/**
+ * 预编译的排除规则
+ */
+export interface CompiledExclusions {
+    /** 文件名正则表达式，无效的模式已被忽略 */
+    filenamePatterns: RegExp[];
+    /** 规范化后的标签（小写，不含 #） */
+    tags: string[];
+    /** 规范化后的扩展名（小写，不含 .） */
+    extensions: string[];
+}
+
+/**
+ * 规范化标签
+ * @param tag 标签，可带 #
+ * @returns 小写且不含 # 的标签
+ */
+export function normalizeTag(tag: string): string {
+    return tag.trim().replace(/^#+/, '').toLowerCase();
+}
+
+/**
+ * 规范化扩展名
+ * @param extension 扩展名，可带 .
+ * @returns 小写且不含 . 的扩展名
+ */
+export function normalizeExtension(extension: string): string {
+    return extension.trim().replace(/^\.+/, '').toLowerCase();
+}
+
+/**
+ * 编译设置中的排除规则
+ * @param settings 插件设置
+ * @returns 预编译的排除规则
+ */
+export function compileExclusions(settings: TitleChangerSettings): CompiledExclusions {
+    const filenamePatterns: RegExp[] = [];
+    for (const pattern of settings.excludedFilenamePatterns ?? []) {
+        if (!pattern || pattern.trim() === '') continue;
+
+        const { regex } = createSafeRegex(pattern, '');
+        if (regex) {
+            filenamePatterns.push(regex);
+        }
+    }
+
+    return {
+        filenamePatterns,
+        tags: (settings.excludedTags ?? []).map(normalizeTag).filter(tag => tag !== ''),
+        extensions: (settings.excludedExtensions ?? []).map(normalizeExtension).filter(ext => ext !== '')
+    };
+}
+
+/**
+ * 检查是否设置了任何排除规则
+ * @param exclusions 预编译的排除规则
+ * @returns 是否存在排除规则
+ */
+export function hasExclusions(exclusions: CompiledExclusions): boolean {
+    return exclusions.filenamePatterns.length > 0 ||
+        exclusions.tags.length > 0 ||
+        exclusions.extensions.length > 0;
+}
+
+/**
+ * 检查文件是否被排除
+ * 标签匹配包含嵌套标签，例如排除 keep 时 keep/name 也被排除
+ * @param file 文件信息
+ * @param exclusions 预编译的排除规则
+ * @param getTags 获取文件标签的函数，仅在设置了标签排除时调用
+ * @returns 文件被排除时返回 true
+ */
+export function isFileExcluded(
+    file: ExclusionTarget,
+    exclusions: CompiledExclusions,
+    getTags?: () => string[]
+): boolean {
+    if (exclusions.extensions.includes(normalizeExtension(file.extension || ''))) {
+        return true;
+    }
+
+    if (exclusions.filenamePatterns.some(regex => regex.test(file.basename))) {
+        return true;
+    }
+
+    if (exclusions.tags.length > 0 && getTags) {
+        const fileTags = getTags().map(normalizeTag);
+        return fileTags.some(tag =>
+            exclusions.tags.some(excluded => tag === excluded || tag.startsWith(`${excluded}/`))
+        );
+    }
+
+    return false;
+}
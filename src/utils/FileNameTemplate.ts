@@ -0,0 +1,263 @@
+/**
+ * 文件命名模板工具
+ * 按 {{date:YYYY_MM_DD}}_{{title}} 这样的模板生成重命名和新建笔记的文件名，并检查重命名冲突
+ */
+
+/**
+ * 未指定格式时 {{date}} 使用的日期格式
+ */
+export const DEFAULT_TEMPLATE_DATE_FORMAT = 'YYYY_MM_DD';
+
+/**
+ * 未指定长度时 {{id}} 的长度
+ */
+export const DEFAULT_TEMPLATE_ID_LENGTH = 6;
+
+/**
+ * 模板占位符的取值
+ */
+export interface FileNameTemplateContext {
+    /** {{title}} 的值 */
+    title: string;
+    /** 按格式生成 {{date}} 的值 */
+    formatDate: (format: string) => string;
+    /** {{counter}} 的值，未提供时保留占位符 */
+    counter?: number;
+    /** 生成指定长度的 {{id}}，未提供时保留占位符 */
+    createId?: (length: number) => string;
+}
+
+/**
+ * 文件夹的命名模板
+ */
+export interface FolderNamingTemplate {
+    /** 文件夹路径，适用于该文件夹及其子文件夹 */
+    folder: string;
+    /** 命名模板 */
+    template: string;
+}
+
+/**
+ * 重命名状态
+ * - rename: 重命名
+ * - unchanged: 文件名已符合模板
+ * - collision: 目标文件已存在或与其他文件的目标相同，跳过
+ * - invalid: 无法生成有效的文件名，跳过
+ */
+export type RenameStatus = 'rename' | 'unchanged' | 'collision' | 'invalid';
+
+/**
+ * 单个文件的重命名目标
+ */
+export interface RenameTarget {
+    path: string;
+    newPath: string;
+    status: RenameStatus;
+}
+
+// 文件系统不允许的字符，以及会破坏 Obsidian 链接的字符
+const INVALID_FILENAME_CHARS = /[\\/:*?"<>|#^[\]]/g;
+
+// 模板占位符，如 {{title}}、{{date:YYYY_MM_DD}}、{{counter:3}}
+const TEMPLATE_TOKEN_SOURCE = '\\{\\{\\s*(title|date|counter|id)(?::([^}]*))?\\s*\\}\\}';
+
+/**
+ * 解析占位符中的长度参数
+ * @param format 占位符参数
+ * @param fallback 参数为空或无效时的长度
+ */
+function parseLength(format: string | undefined, fallback: number): number {
+    const length = parseInt(format?.trim() ?? '', 10);
+    return length > 0 ? length : fallback;
+}
+
+/**
+ * 按模板生成文件名
+ * 支持 {{title}}、{{date}}、{{date:格式}}、{{counter}}、{{counter:位数}}、{{id}} 和 {{id:长度}}，其他文本原样保留
+ * @param template 命名模板
+ * @param context 占位符的取值
+ * @returns 清理后的文件名（不含扩展名）
+ */
+export function renderFileNameTemplate(template: string, context: FileNameTemplateContext): string {
+    const name = template.replace(new RegExp(TEMPLATE_TOKEN_SOURCE, 'g'), (token: string, key: string, format?: string) => {
+        switch (key) {
+            case 'title':
+                return context.title;
+            case 'date':
+                return context.formatDate(format?.trim() || DEFAULT_TEMPLATE_DATE_FORMAT);
+            case 'counter': {
+                if (context.counter === undefined) return token;
+
+                // 按位数补零
+                let value = String(context.counter);
+                while (value.length < parseLength(format, 1)) value = `0${value}`;
+                return value;
+            }
+            default:
+                return context.createId ? context.createId(parseLength(format, DEFAULT_TEMPLATE_ID_LENGTH)) : token;
+        }
+    });
+
+    return sanitizeFileName(name);
+}
+
+/**
+ * 计算模板中 {{counter}} 的下一个值
+ * 在同一文件夹中按模板查找已有文件，返回最大编号加一；
+ * 模板中含有日期时只比较同一日期的文件，编号按日期重新开始
+ * @param template 命名模板
+ * @param formatDate 按格式生成当前日期
+ * @param baseNames 文件夹中已有文件的文件名（不含扩展名）
+ * @returns 下一个编号，模板中没有 {{counter}} 时返回 1
+ */
+export function getNextCounter(template: string, formatDate: (format: string) => string, baseNames: string[]): number {
+    const tokenRegex = new RegExp(TEMPLATE_TOKEN_SOURCE, 'g');
+    let source = '';
+    let lastIndex = 0;
+    let hasCounter = false;
+    let token: RegExpExecArray | null;
+
+    while ((token = tokenRegex.exec(template)) !== null) {
+        source += escapeRegExp(template.substring(lastIndex, token.index));
+        lastIndex = token.index + token[0].length;
+
+        switch (token[1]) {
+            case 'title':
+                source += '.+';
+                break;
+            case 'date':
+                source += escapeRegExp(formatDate(token[2]?.trim() || DEFAULT_TEMPLATE_DATE_FORMAT));
+                break;
+            case 'counter':
+                // 只有第一个编号参与计算
+                source += hasCounter ? '\\d+' : '(\\d+)';
+                hasCounter = true;
+                break;
+            default:
+                source += '[0-9a-z]+';
+        }
+    }
+    source += escapeRegExp(template.substring(lastIndex));
+
+    if (!hasCounter) return 1;
+
+    const regex = new RegExp(`^${source.trim()}$`, 'i');
+    return baseNames.reduce((next, baseName) => {
+        const match = baseName.match(regex);
+        return match ? Math.max(next, Number(match[1]) + 1) : next;
+    }, 1);
+}
+
+/**
+ * 生成随机 ID
+ * @param length 长度
+ * @param random 随机数函数
+ * @returns 由数字和小写字母组成的 ID
+ */
+export function createTemplateId(length: number, random: () => number = Math.random): string {
+    const chars = '0123456789abcdefghijklmnopqrstuvwxyz';
+    let id = '';
+    for (let i = 0; i < length; i++) {
+        id += chars.charAt(Math.floor(random() * chars.length));
+    }
+    return id;
+}
+
+/**
+ * 获取适用于文件夹的命名模板
+ * 多个文件夹模板适用时路径最具体的优先
+ * @param templates 文件夹命名模板
+ * @param folder 文件夹路径，空字符串表示库的根目录
+ * @param fallback 没有适用的文件夹模板时使用的模板
+ * @returns 命名模板
+ */
+export function getFolderNamingTemplate(templates: FolderNamingTemplate[] | undefined, folder: string, fallback: string): string {
+    let best: FolderNamingTemplate | null = null;
+    let bestDepth = -1;
+
+    for (const item of templates ?? []) {
+        const path = item.folder.replace(/^\/+|\/+$/g, '');
+        if (!item.template.trim()) continue;
+        if (path !== '' && folder !== path && !folder.startsWith(`${path}/`)) continue;
+
+        const depth = path === '' ? 0 : path.split('/').length;
+        if (depth > bestDepth) {
+            best = item;
+            bestDepth = depth;
+        }
+    }
+
+    return best ? best.template : fallback;
+}
+
+/**
+ * 转义正则表达式中的特殊字符
+ * @param text 文本
+ */
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * 清理文件名中的非法字符
+ * 非法字符替换为空格，合并连续空白，并去掉首尾的空格和点
+ * @param name 文件名
+ * @returns 清理后的文件名
+ */
+export function sanitizeFileName(name: string): string {
+    return name
+        .replace(INVALID_FILENAME_CHARS, ' ')
+        .replace(/\s+/g, ' ')
+        .replace(/^[\s.]+|[\s.]+$/g, '');
+}
+
+/**
+ * 将新文件名与原路径的文件夹和扩展名组合为新路径
+ * @param path 原路径
+ * @param baseName 新文件名（不含扩展名）
+ * @returns 新路径
+ */
+export function replaceBaseName(path: string, baseName: string): string {
+    const slashIndex = path.lastIndexOf('/');
+    const folder = slashIndex >= 0 ? path.substring(0, slashIndex + 1) : '';
+    const name = path.substring(slashIndex + 1);
+    const dotIndex = name.lastIndexOf('.');
+    const extension = dotIndex > 0 ? name.substring(dotIndex) : '';
+
+    return `${folder}${baseName}${extension}`;
+}
+
+/**
+ * 检查一组重命名的冲突
+ * 路径按不区分大小写比较，与大小写不敏感的文件系统保持一致；多个文件的目标相同时只保留第一个
+ * @param items 原路径和新文件名，新文件名为空表示无法生成
+ * @param exists 判断路径是否已被其他文件占用（不区分大小写）
+ * @returns 每个文件的重命名目标
+ */
+export function planRenames(
+    items: Array<{ path: string; baseName: string }>,
+    exists: (path: string) => boolean
+): RenameTarget[] {
+    const claimed = new Set<string>();
+
+    return items.map(({ path, baseName }) => {
+        if (!baseName) {
+            return { path, newPath: path, status: 'invalid' as const };
+        }
+
+        const newPath = replaceBaseName(path, baseName);
+        if (newPath === path) {
+            return { path, newPath, status: 'unchanged' as const };
+        }
+
+        const key = newPath.toLowerCase();
+        // 只改变大小写时目标就是文件自身
+        const occupied = key !== path.toLowerCase() && exists(newPath);
+        if (occupied || claimed.has(key)) {
+            return { path, newPath, status: 'collision' as const };
+        }
+
+        claimed.add(key);
+        return { path, newPath, status: 'rename' as const };
+    });
+}
@@ -1,5 +1,7 @@
-import { TFile, Vault, App, TAbstractFile } from 'obsidian';
+import { TFile, Vault, App, TAbstractFile, getAllTags } from 'obsidian';
 import { TitleChangerSettings } from '../settings';
+import type { RegexRule } from '../settings';
+import { CompiledExclusions, compileExclusions, hasExclusions, isFileExcluded } from './ExclusionRules';
 
 // BUG: 文件夹递归检查性能不佳
 // Affects: src/utils/FolderChecker.ts
@@ -14,6 +16,9 @@ import { TitleChangerSettings } from '../settings';
 interface FolderNode {
     name: string;
     isIncluded: boolean;
+    isExcluded: boolean;
+    /** 作用域包含此文件夹的规则ID */
+    ruleIds: Set<string>;
     children: Map<string, FolderNode>;
 }
 
@@ -27,14 +32,11 @@ interface FileAccessRecord {
 }
 
 export class FolderChecker {
-    private static folderTree: FolderNode = {
-        name: '',
-        isIncluded: false,
-        children: new Map()
-    };
+    private static folderTree: FolderNode = FolderChecker.createNode('', false);
     
     private static isInitialized: boolean = false;
-    private static _lastSettings: TitleChangerSettings | null = null;
+    private static _lastSignature: string | null = null;
+    private static exclusions: CompiledExclusions = { filenamePatterns: [], tags: [], extensions: [] };
     
     // 缓存最近检查的文件路径结果
     private static pathCache = new Map<string, boolean>();
@@ -45,33 +47,101 @@ export class FolderChecker {
     private static MAX_ACCESS_RECORDS = 500; // 最大记录数量
     
     /**
-     * 初始化文件夹树
-     * @param includedFolders 包含的文件夹列表
+     * 创建文件夹树节点
+     * @param name 节点名称
+     * @param isIncluded 是否包含
+     * @returns 新节点
      */
-    static initializeFolderTree(includedFolders: string[]): void {
-        // 重置树
-        this.folderTree = {
-            name: '',
-            isIncluded: includedFolders.length === 0, // 如果没有指定文件夹，则包含所有文件
+    private static createNode(name: string, isIncluded: boolean): FolderNode {
+        return {
+            name,
+            isIncluded,
+            isExcluded: false,
+            ruleIds: new Set(),
             children: new Map()
         };
+    }
+    
+    /**
+     * 初始化文件夹树
+     * @param includedFolders 包含的文件夹列表
+     * @param excludedFolders 排除的文件夹列表，优先于同一层级的包含设置
+     * @param rules 正则规则列表，用于登记规则的文件夹作用域
+     */
+    static initializeFolderTree(
+        includedFolders: string[],
+        excludedFolders: string[] = [],
+        rules: RegexRule[] = []
+    ): void {
+        // 重置树，如果没有指定文件夹，则包含所有文件
+        this.folderTree = this.createNode('', includedFolders.length === 0);
         
         // 构建树
         for (const folder of includedFolders) {
-            this.addFolderToTree(folder);
+            const node = this.addFolderToTree(folder);
+            if (node) node.isIncluded = true;
+        }
+        
+        for (const folder of excludedFolders) {
+            const node = this.addFolderToTree(folder);
+            if (node) node.isExcluded = true;
+        }
+        
+        // 登记规则作用域
+        for (const rule of rules) {
+            for (const folder of rule.folders ?? []) {
+                const node = this.addFolderToTree(folder);
+                if (node) node.ruleIds.add(rule.id);
+            }
         }
         
         this.isInitialized = true;
     }
     
+    /**
+     * 确保文件夹树与当前设置一致
+     * 设置对象会被原地修改，因此通过设置签名而不是对象引用判断是否需要重建
+     * @param settings 插件设置
+     */
+    private static ensureTree(settings: TitleChangerSettings): void {
+        const signature = this.getSettingsSignature(settings);
+        if (!this.isInitialized || this._lastSignature !== signature) {
+            this.initializeFolderTree(
+                settings.includedFolders,
+                settings.excludedFolders ?? [],
+                settings.regexRules ?? []
+            );
+            this.exclusions = compileExclusions(settings);
+            this._lastSignature = signature;
+            this.pathCache.clear(); // 清空缓存
+        }
+    }
+    
+    /**
+     * 计算影响文件夹树的设置签名
+     * @param settings 插件设置
+     * @returns 设置签名
+     */
+    private static getSettingsSignature(settings: TitleChangerSettings): string {
+        return JSON.stringify([
+            settings.includedFolders,
+            settings.excludedFolders ?? [],
+            (settings.regexRules ?? []).map(rule => [rule.id, rule.folders ?? []]),
+            settings.excludedFilenamePatterns ?? [],
+            settings.excludedTags ?? [],
+            settings.excludedExtensions ?? []
+        ]);
+    }
+    
     /**
      * 添加文件夹到树中
      * @param folderPath 要添加的文件夹路径
+     * @returns 文件夹对应的节点，路径无效时返回 null
      */
-    private static addFolderToTree(folderPath: string): void {
+    private static addFolderToTree(folderPath: string): FolderNode | null {
         // 规范化路径
         const normalizedPath = this.normalizePath(folderPath);
-        if (!normalizedPath) return;
+        if (!normalizedPath) return null;
         
         // 分割路径
         const parts = normalizedPath.split('/').filter(p => p !== '');
@@ -85,36 +155,31 @@ export class FolderChecker {
             
             // 如果节点不存在，创建它
             if (!currentNode.children.has(part)) {
-                currentNode.children.set(part, {
-                    name: part,
-                    isIncluded: false,
-                    children: new Map()
-                });
+                currentNode.children.set(part, this.createNode(part, false));
             }
             
             // 移动到下一个节点
             currentNode = currentNode.children.get(part)!;
-            
-            // 如果是路径的最后一部分，标记为包含
-            if (i === parts.length - 1) {
-                currentNode.isIncluded = true;
-            }
         }
+        
+        return currentNode === this.folderTree ? null : currentNode;
     }
     
     /**
      * 检查文件是否应该应用标题修改
+     * 先检查文件夹设置，再检查文件名、标签和扩展名排除规则
      * @param file 要检查的文件
      * @param settings 插件设置
+     * @param getTags 获取文件标签的函数，设置了标签排除时需要提供
      * @returns 如果文件应该应用标题修改则返回 true
      */
-    static shouldApplyToFile(file: TFile, settings: TitleChangerSettings): boolean {
+    static shouldApplyToFile(
+        file: TFile,
+        settings: TitleChangerSettings,
+        getTags?: (file: TFile) => string[]
+    ): boolean {
         // 如果树未初始化或设置已更改，初始化树和清空缓存
-        if (!this.isInitialized || this._lastSettings !== settings) {
-            this.initializeFolderTree(settings.includedFolders);
-            this._lastSettings = settings;
-            this.pathCache.clear(); // 清空缓存
-        }
+        this.ensureTree(settings);
         
         // 记录文件访问
         this.recordFileAccess(file);
@@ -131,39 +196,59 @@ export class FolderChecker {
             return this.pathCache.get(filePath)!;
         }
         
-        // 如果没有包含的文件夹，返回true
-        if (settings.includedFolders.length === 0) {
-            this.addToCache(filePath, true);
-            return true;
-        }
-        
         // 检查文件路径是否在树中并缓存结果
-        // 使用非空断言操作符!表明filePath一定不为undefined
-        const result = this.isPathIncluded(filePath!);
-        this.addToCache(filePath, result);
+        const result = this.checkFile(file, settings, getTags);
+        if (this.isCacheable(getTags)) {
+            this.addToCache(filePath, result);
+        }
         
         return result;
     }
     
+    /**
+     * 检查文件夹设置和排除规则（不使用缓存）
+     * @param file 要检查的文件
+     * @param settings 插件设置
+     * @param getTags 获取文件标签的函数
+     * @returns 如果文件应该应用标题修改则返回 true
+     */
+    private static checkFile(
+        file: TFile,
+        settings: TitleChangerSettings,
+        getTags?: (file: TFile) => string[]
+    ): boolean {
+        // 如果没有包含和排除的文件夹，所有路径都包含
+        if (this.hasFolderFilters(settings) && !this.isPathIncluded(file.path)) {
+            return false;
+        }
+        
+        if (!hasExclusions(this.exclusions)) {
+            return true;
+        }
+        
+        return !isFileExcluded(file, this.exclusions, getTags ? () => getTags(file) : undefined);
+    }
+    
     /**
      * 批量检查文件是否应用标题修改
      * 适用于需要一次性检查多个文件的场景，减少重复初始化开销
      * @param files 要检查的文件列表
      * @param settings 插件设置
+     * @param getTags 获取文件标签的函数，设置了标签排除时需要提供
      * @returns 文件路径到检查结果的映射
      */
-    static batchCheckFiles(files: TFile[], settings: TitleChangerSettings): Map<string, boolean> {
+    static batchCheckFiles(
+        files: TFile[],
+        settings: TitleChangerSettings,
+        getTags?: (file: TFile) => string[]
+    ): Map<string, boolean> {
         const results = new Map<string, boolean>();
         
         // 确保树已初始化
-        if (!this.isInitialized || this._lastSettings !== settings) {
-            this.initializeFolderTree(settings.includedFolders);
-            this._lastSettings = settings;
-            // 不清空缓存，保留有用的缓存结果
-        }
+        this.ensureTree(settings);
         
-        // 如果没有包含的文件夹，所有文件都返回true
-        if (settings.includedFolders.length === 0) {
+        // 如果没有包含和排除的文件夹以及排除规则，所有文件都返回true
+        if (!this.hasFolderFilters(settings) && !hasExclusions(this.exclusions)) {
             for (const file of files) {
                 const filePath = file.path;
                 if (filePath && typeof filePath === 'string') {
@@ -187,12 +272,14 @@ export class FolderChecker {
                 continue;
             }
             
-            // 执行路径检查
-            const result = this.isPathIncluded(filePath);
+            // 执行路径和排除规则检查
+            const result = this.checkFile(file, settings, getTags);
             
             // 保存结果
             results.set(filePath, result);
-            this.addToCache(filePath, result);
+            if (this.isCacheable(getTags)) {
+                this.addToCache(filePath, result);
+            }
         }
         
         return results;
@@ -319,8 +406,11 @@ export class FolderChecker {
             recentlyModified.forEach(file => filesToPrecompute.add(file));
         }
         
-        // 将Set转换为数组并执行批量检查
-        this.batchCheckFiles(Array.from(filesToPrecompute), settings);
+        // 将Set转换为数组并执行批量检查，提供标签以便正确应用标签排除
+        this.batchCheckFiles(Array.from(filesToPrecompute), settings, (file) => {
+            const metadata = app.metadataCache.getFileCache(file);
+            return metadata ? getAllTags(metadata) ?? [] : [];
+        });
     }
     
     /**
@@ -363,6 +453,15 @@ export class FolderChecker {
         return files.slice(0, limit);
     }
     
+    /**
+     * 检查结果是否可以缓存
+     * 设置了标签排除但未提供标签时，结果没有考虑标签，不能缓存
+     * @param getTags 获取文件标签的函数
+     */
+    private static isCacheable(getTags?: (file: TFile) => string[]): boolean {
+        return getTags !== undefined || this.exclusions.tags.length === 0;
+    }
+    
     /**
      * 添加结果到缓存，同时管理缓存大小
      * @param path 文件路径
@@ -385,6 +484,7 @@ export class FolderChecker {
     
     /**
      * 检查路径是否包含在树中
+     * 沿路径向下查找，最具体（最深）的包含或排除设置决定结果
      * @param path 要检查的路径
      * @returns 如果路径包含在树中则返回 true
      */
@@ -394,43 +494,81 @@ export class FolderChecker {
             return false;
         }
         
-        // 分割路径
-        const parts = path.split('/').filter(p => p !== '');
-        
-        // 从根节点开始
-        let currentNode = this.folderTree;
-        if (currentNode.isIncluded) return true; // 根节点包含所有文件
-        
-        // 遍历路径部分
-        let currentPath = '';
+        // 从根节点开始，根节点包含时默认包含所有文件
+        let included = this.folderTree.isIncluded;
         
-        for (let i = 0; i < parts.length; i++) {
-            const part = parts[i];
-            currentPath += part;
-            
-            // 检查当前节点的子节点
-            if (currentNode.children.has(part)) {
-                currentNode = currentNode.children.get(part)!;
-                
-                // 如果当前节点被包含，文件也被包含
-                if (currentNode.isIncluded) {
-                    return true;
-                }
-            } else {
-                // 如果找不到子节点，检查是否有通配符（未来可能支持）
-                if (currentNode.children.has('*')) {
-                    return true;
-                }
-                break;
+        // 更深层级的设置覆盖上层设置，同一层级排除优先
+        for (const nodes of this.matchFolderNodes(path)) {
+            if (nodes.some(node => node.isExcluded)) {
+                included = false;
+            } else if (nodes.some(node => node.isIncluded)) {
+                included = true;
             }
+        }
+        
+        return included;
+    }
+    
+    /**
+     * 沿文件所在的文件夹收集每一层匹配的节点
+     * 同名节点和 * 节点都会继续向下匹配，文件名本身不参与匹配
+     * @param path 文件路径
+     * @returns 每一层匹配到的节点，某一层没有匹配时停止
+     */
+    private static matchFolderNodes(path: string): FolderNode[][] {
+        const folders = path.split('/').filter(p => p !== '').slice(0, -1);
+        const levels: FolderNode[][] = [];
+        let current: FolderNode[] = [this.folderTree];
+        
+        for (const part of folders) {
+            const next: FolderNode[] = [];
+            current.forEach(node => {
+                const exact = node.children.get(part);
+                const wildcard = node.children.get('*');
+                if (exact) next.push(exact);
+                if (wildcard && wildcard !== exact) next.push(wildcard);
+            });
+            if (next.length === 0) break;
             
-            // 为下一部分添加分隔符
-            if (i < parts.length - 1) {
-                currentPath += '/';
-            }
+            levels.push(next);
+            current = next;
+        }
+        
+        return levels;
+    }
+    
+    /**
+     * 获取适用于文件的规则
+     * 未设置文件夹作用域的规则适用于所有文件，其余规则仅适用于作用域内的文件；
+     * 返回的规则保持设置中的顺序
+     * @param file 文件，只需要路径，也可以用于尚未创建的文件
+     * @param settings 插件设置
+     * @returns 适用的规则列表
+     */
+    static getApplicableRules(file: Pick<TFile, 'path'>, settings: TitleChangerSettings): RegexRule[] {
+        const rules = settings.regexRules ?? [];
+        if (!rules.some(rule => rule.folders && rule.folders.length > 0)) {
+            return rules;
         }
         
-        return false;
+        this.ensureTree(settings);
+        
+        // 收集路径上所有节点登记的规则，与 isPathIncluded 一致，* 匹配该层级的任意文件夹
+        const ruleIds = new Set<string>();
+        this.matchFolderNodes(file.path || '').forEach(nodes => {
+            nodes.forEach(node => node.ruleIds.forEach(id => ruleIds.add(id)));
+        });
+        
+        return rules.filter(rule => !rule.folders || rule.folders.length === 0 || ruleIds.has(rule.id));
+    }
+    
+    /**
+     * 检查是否设置了包含或排除文件夹
+     * @param settings 插件设置
+     * @returns 是否需要按文件夹过滤
+     */
+    private static hasFolderFilters(settings: TitleChangerSettings): boolean {
+        return settings.includedFolders.length > 0 || (settings.excludedFolders ?? []).length > 0;
     }
     
     /**
@@ -448,11 +586,21 @@ export class FolderChecker {
         return path.endsWith('/') ? path : path + '/';
     }
     
+    /**
+     * 使单个路径的缓存结果失效
+     * 文件标签等内容变化后使用
+     * @param path 文件路径
+     */
+    static invalidatePath(path: string): void {
+        this.pathCache.delete(path);
+    }
+    
     /**
      * 清空路径缓存
      * 当需要强制重新计算所有路径时使用
      */
     static clearCache(): void {
         this.pathCache.clear();
+        this._lastSignature = null;
     }
 } 
\ No newline at end of file
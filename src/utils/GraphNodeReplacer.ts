@@ -2,6 +2,7 @@ import { injectable, inject } from 'inversify';
 import { TYPES } from '../types/symbols';
 import { TitleService } from '../services/TitleService';
 import { Logger } from './logger';
+import { UIStateManager } from '../services/UIStateManager';
 import { App, WorkspaceLeaf } from 'obsidian';
 
 /**
@@ -16,7 +17,8 @@ export class GraphNodeReplacer {
     constructor(
         @inject(TYPES.App) private app: App,
         @inject(TYPES.TitleService) private titleService: TitleService,
-        @inject(TYPES.Logger) private logger: Logger
+        @inject(TYPES.Logger) private logger: Logger,
+        @inject(TYPES.UIStateManager) private uiStateManager: UIStateManager
     ) {}
     
     /**
@@ -86,11 +88,12 @@ export class GraphNodeReplacer {
             const titleService = this.titleService; // 保存引用
             const originalMethod = this.originalGetDisplayText; // 保存原始方法引用
             const logger = this.logger;  // 保存logger引用
+            const uiStateManager = this.uiStateManager;
             
             proto.getDisplayText = function(this: any, ...args: any[]) {
                 try {
-                    // 确保节点ID存在
-                    if (this && this.id) {
+                    // 确保节点ID存在，预览原始文件名期间使用原始实现
+                    if (this && this.id && !uiStateManager.isPeekMode()) {
                         try {
                             // 尝试从TitleService获取自定义标题
                             const customTitle = titleService.getDisplayTitle(this.id);
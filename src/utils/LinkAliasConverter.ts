@@ -0,0 +1,194 @@
+/**
+ * 链接别名转换工具
+ * 将没有别名的Wiki链接改写为带显示标题别名的链接，并支持撤销
+ * 例如 [[20240329_meeting_Client]] 改写为 [[20240329_meeting_Client|Client]]
+ */
+import { extractWikiLinks, getLinkTargetRange, shouldReplaceTitle } from './WikiLinkProcessor';
+import type { WikiLink } from './WikiLinkProcessor';
+
+/**
+ * 单个链接的改写
+ */
+export interface AliasChange {
+    /** 所在行号（从 0 开始），用于预览 */
+    line: number;
+    /** 在文本中的起始位置 */
+    start: number;
+    /** 改写前的链接 */
+    original: string;
+    /** 改写后的链接 */
+    replacement: string;
+}
+
+/**
+ * 单个文件的改写记录
+ */
+export interface AliasConversionFileLog {
+    /** 文件路径 */
+    path: string;
+    /** 已应用的改写，位置基于改写后的文本 */
+    changes: AliasChange[];
+}
+
+/**
+ * 一次批量转换的撤销记录
+ */
+export interface AliasConversionLog {
+    /** 转换时间 */
+    timestamp: number;
+    /** 转换范围，空字符串表示整个库 */
+    folder: string;
+    files: AliasConversionFileLog[];
+}
+
+/**
+ * 撤销结果
+ */
+export interface AliasRevertResult {
+    content: string;
+    /** 成功撤销的链接数 */
+    reverted: number;
+    /** 链接已被修改或删除而无法撤销的数量 */
+    skipped: number;
+}
+
+/**
+ * 判断别名能否安全写入链接
+ * @param alias 别名
+ */
+function isValidAlias(alias: string): boolean {
+    return alias.trim() !== '' && !/[|\n]|\[\[|\]\]/.test(alias);
+}
+
+/**
+ * 获取行内代码的范围，代码中的链接不会被改写
+ * @param line 行文本
+ */
+function getInlineCodeRanges(line: string): [number, number][] {
+    const ranges: [number, number][] = [];
+    const codeRegex = /(`+)[\s\S]*?\1/g;
+
+    let match;
+    while ((match = codeRegex.exec(line)) !== null) {
+        ranges.push([match.index, match.index + match[0].length]);
+    }
+    return ranges;
+}
+
+/**
+ * 计算文本中需要添加别名的链接
+ * 跳过 frontmatter、代码块、行内代码、嵌入和已有别名的链接，表格中使用 \| 作为分隔符
+ * @param content 文件内容
+ * @param getAlias 返回链接的别名，返回 null 表示不改写
+ * @returns 按位置排序的改写列表
+ */
+export function planAliasChanges(content: string, getAlias: (link: WikiLink) => string | null): AliasChange[] {
+    const changes: AliasChange[] = [];
+    const lines = content.split('\n');
+
+    let offset = 0;
+    let inFrontmatter = lines[0]?.trimEnd() === '---';
+    let fence: string | null = null;
+
+    lines.forEach((line, index) => {
+        const lineStart = offset;
+        offset += line.length + 1;
+
+        if (inFrontmatter) {
+            if (index > 0 && /^(---|\.\.\.)\s*$/.test(line)) inFrontmatter = false;
+            return;
+        }
+
+        // 代码块以相同的 ``` 或 ~~~ 开始和结束
+        const fenceMatch = line.match(/^\s*(`{3,}|~{3,})/);
+        if (fenceMatch) {
+            if (fence === null) {
+                fence = fenceMatch[1];
+            } else if (fenceMatch[1].startsWith(fence)) {
+                fence = null;
+            }
+            return;
+        }
+        if (fence !== null) return;
+
+        const codeRanges = getInlineCodeRanges(line);
+        const separator = line.trimStart().startsWith('|') ? '\\|' : '|';
+
+        for (const link of extractWikiLinks(line)) {
+            if (!shouldReplaceTitle(link)) continue;
+            if (link.start > 0 && line[link.start - 1] === '!') continue;
+            if (codeRanges.some(([from, to]) => link.start >= from && link.start < to)) continue;
+
+            const alias = getAlias(link);
+            if (alias === null || !isValidAlias(alias)) continue;
+
+            const { to } = getLinkTargetRange(link);
+            const target = line.slice(link.start + 2, to);
+            changes.push({
+                line: index,
+                start: lineStart + link.start,
+                original: link.fullMatch,
+                replacement: `[[${target}${separator}${alias.trim()}]]`
+            });
+        }
+    });
+
+    return changes;
+}
+
+/**
+ * 应用改写
+ * 文件在预览后被修改时，位置不再匹配的改写会被跳过
+ * @param content 文件内容
+ * @param changes 改写列表，位置基于原始文本
+ * @returns 改写后的文本和已应用的改写（位置基于改写后的文本）
+ */
+export function applyAliasChanges(content: string, changes: AliasChange[]): { content: string; applied: AliasChange[] } {
+    const applied: AliasChange[] = [];
+    let result = '';
+    let cursor = 0;
+
+    [...changes]
+        .sort((a, b) => a.start - b.start)
+        .forEach(change => {
+            if (change.start < cursor) return;
+            if (content.slice(change.start, change.start + change.original.length) !== change.original) return;
+
+            result += content.slice(cursor, change.start);
+            applied.push({ ...change, start: result.length });
+            result += change.replacement;
+            cursor = change.start + change.original.length;
+        });
+
+    return { content: result + content.slice(cursor), applied };
+}
+
+/**
+ * 撤销改写
+ * 按记录的位置恢复，位置上已不是改写后的链接时跳过
+ * @param content 当前文件内容
+ * @param changes 已应用的改写，位置基于改写后的文本
+ * @returns 撤销后的文本和统计
+ */
+export function revertAliasChanges(content: string, changes: AliasChange[]): AliasRevertResult {
+    let result = content;
+    let reverted = 0;
+    let skipped = 0;
+
+    // 从后往前恢复，前面的位置不受影响
+    [...changes]
+        .sort((a, b) => b.start - a.start)
+        .forEach(change => {
+            // 位置上的文本已被修改时跳过，避免恢复到同名的其他链接
+            const { start } = change;
+            if (result.slice(start, start + change.replacement.length) !== change.replacement) {
+                skipped++;
+                return;
+            }
+
+            result = result.slice(0, start) + change.original + result.slice(start + change.replacement.length);
+            reverted++;
+        });
+
+    return { content: result, reverted, skipped };
+}
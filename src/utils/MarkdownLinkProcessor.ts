@@ -0,0 +1,114 @@
+/**
+ * Markdown链接处理工具
+ * 提供提取和处理 [文本](路径) 形式的笔记链接的通用函数
+ */
+
+export interface MarkdownLink {
+    /** 完整匹配文本 */
+    fullMatch: string;
+    /** 方括号中的链接文本 */
+    text: string;
+    /** 解码后的链接路径，不包含子路径，如 path/to/note.md */
+    linkpath: string;
+    /** 子路径/锚点（如果有），不包含开头的 # */
+    subPath?: string;
+    /** 在文档中的起始位置 */
+    start: number;
+    /** 在文档中的结束位置 */
+    end: number;
+    /** 链接文本在文档中的起始位置 */
+    textStart: number;
+    /** 链接文本在文档中的结束位置 */
+    textEnd: number;
+}
+
+/**
+ * 解码链接中的 URL 编码（如 %20），解码失败时返回原文
+ * @param value 链接路径
+ */
+export function decodeLinkPath(value: string): string {
+    try {
+        return decodeURIComponent(value);
+    } catch (e) {
+        return value;
+    }
+}
+
+/**
+ * 判断链接地址是否指向外部资源（http:、mailto:、obsidian: 等）
+ * @param url 链接地址
+ */
+function isExternalUrl(url: string): boolean {
+    return /^[a-z][a-z0-9+.-]*:/i.test(url);
+}
+
+/**
+ * 从文本中提取指向笔记的 Markdown 链接
+ * 跳过图片/嵌入、外部链接和只有锚点的链接
+ * @param text 要分析的文本
+ * @param lineStart 行的起始位置（用于计算绝对位置）
+ * @returns Markdown链接数组
+ */
+export function extractMarkdownLinks(text: string, lineStart = 0): MarkdownLink[] {
+    const results: MarkdownLink[] = [];
+    // 匹配 [文本](地址) 和 [文本](<带空格的地址>)，地址后可以跟 "标题"
+    const markdownLinkRegex = /(!?)\[([^[\]]*)\]\((<[^>]*>|[^\s()]+)(?:\s+"[^"]*")?\)/g;
+
+    let match;
+    while ((match = markdownLinkRegex.exec(text)) !== null) {
+        if (match[1] === '!') continue;
+
+        const url = match[3].startsWith('<') ? match[3].slice(1, -1) : match[3];
+        if (!url || url.startsWith('#') || isExternalUrl(url)) continue;
+
+        const hashIndex = url.indexOf('#');
+        const pathPart = hashIndex === -1 ? url : url.slice(0, hashIndex);
+        const subPath = hashIndex === -1 ? '' : decodeLinkPath(url.slice(hashIndex + 1));
+
+        const start = lineStart + match.index;
+        const textStart = start + 1;
+        results.push({
+            fullMatch: match[0],
+            text: match[2],
+            linkpath: decodeLinkPath(pathPart),
+            subPath: subPath || undefined,
+            start,
+            end: start + match[0].length,
+            textStart,
+            textEnd: textStart + match[2].length
+        });
+    }
+
+    return results;
+}
+
+/**
+ * 判断链接文本是否就是链接路径对应的原始文件名
+ * 文件名、带扩展名的文件名或完整路径都视为原始文件名，其他文本视为自定义文本
+ * @param text 链接文本
+ * @param linkpath 解码后的链接路径
+ */
+export function isFileNameLinkText(text: string, linkpath: string): boolean {
+    const trimmed = text.trim();
+    if (!trimmed || !linkpath) return false;
+
+    const path = linkpath.replace(/^\.\//, '');
+    const fileName = path.split('/').pop() ?? path;
+    const candidates = [
+        fileName,
+        fileName.replace(/\.md$/i, ''),
+        path,
+        path.replace(/\.md$/i, '')
+    ];
+    return candidates.includes(trimmed);
+}
+
+/**
+ * 判断Markdown链接的文本是否为原始文件名
+ * 用于确定是否需要应用标题替换，自定义文本保持不变
+ * @param link Markdown链接对象
+ * @returns 是否需要替换标题
+ */
+export function shouldReplaceMarkdownLinkText(link: MarkdownLink): boolean {
+    return isFileNameLinkText(link.text, link.linkpath);
+}
@@ -0,0 +1,94 @@
+/**
+ * 元数据标题工具
+ * 从笔记的 frontmatter 和标题（heading）中读取显示标题
+ */
+
+/**
+ * 计算标题所需的笔记元数据
+ * 与 Obsidian 的 CachedMetadata 结构兼容
+ */
+export interface TitleMetadata {
+    frontmatter?: Record<string, unknown>;
+    headings?: { heading: string; level: number }[];
+}
+
+/**
+ * 解析 frontmatter 键设置
+ * 多个键使用逗号分隔，按顺序尝试
+ * @param keys 用户输入的键
+ * @returns 键列表
+ */
+export function parseFrontmatterKeys(keys: string | undefined): string[] {
+    if (!keys) return [];
+
+    return keys
+        .split(',')
+        .map(key => key.trim())
+        .filter(key => key !== '');
+}
+
+/**
+ * 将 frontmatter 值转换为标题
+ * 字符串和数字直接使用，列表（如 aliases）使用第一个非空项
+ * @param value frontmatter 值
+ * @returns 标题，无法使用时返回 null
+ */
+function toTitle(value: unknown): string | null {
+    if (typeof value === 'string') {
+        const title = value.trim();
+        return title !== '' ? title : null;
+    }
+
+    if (typeof value === 'number') {
+        return String(value);
+    }
+
+    if (Array.isArray(value)) {
+        for (const item of value) {
+            const title = toTitle(item);
+            if (title !== null) return title;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * 从 frontmatter 中获取标题
+ * @param frontmatter 笔记的 frontmatter
+ * @param keys 逗号分隔的键，按顺序尝试
+ * @returns 第一个可用的标题，没有时返回 null
+ */
+export function getFrontmatterTitle(
+    frontmatter: Record<string, unknown> | undefined | null,
+    keys: string | undefined
+): string | null {
+    if (!frontmatter) return null;
+
+    for (const key of parseFrontmatterKeys(keys)) {
+        const title = toTitle(frontmatter[key]);
+        if (title !== null) return title;
+    }
+
+    return null;
+}
+
+/**
+ * 获取笔记中第一个一级标题
+ * 标题中的内部链接只保留显示文本
+ * @param headings 笔记的标题列表
+ * @returns 一级标题文本，没有时返回 null
+ */
+export function getFirstHeadingTitle(headings: TitleMetadata['headings']): string | null {
+    if (!Array.isArray(headings)) return null;
+
+    const heading = headings.find(item => item.level === 1);
+    if (!heading) return null;
+
+    const title = heading.heading
+        .replace(/\[\[[^\]|]*\|([^\]]*)\]\]/g, '$1')
+        .replace(/\[\[([^\]]*)\]\]/g, '$1')
+        .trim();
+
+    return title !== '' ? title : null;
+}
@@ -0,0 +1,148 @@
+/**
+ * 正则规则工具
+ * 提供多条有序正则规则的创建、规范化和匹配功能
+ */
+import { v4 as uuidv4 } from 'uuid';
+import type { RegexRule } from '../settings/TitleChangerSettings';
+import { createSafeRegex, executeSafeRegex } from './RegexHelper';
+
+/**
+ * 规则匹配结果
+ */
+export interface RegexRuleMatch {
+    /** 匹配的规则 */
+    rule: RegexRule;
+    /** 规则在列表中的位置 */
+    index: number;
+    /** 匹配结果 */
+    match: RegExpMatchArray;
+}
+
+/**
+ * 创建一条新规则
+ * @param pattern 正则表达式模式
+ * @param flags 正则表达式标志
+ * @param label 规则名称
+ * @param id 规则标识，未提供时自动生成
+ * @returns 新规则
+ */
+export function createRegexRule(
+    pattern = '',
+    flags = '',
+    label?: string,
+    id: string = uuidv4()
+): RegexRule {
+    return { id, pattern, flags, enabled: true, label };
+}
+
+/**
+ * 规范化正则表达式标志
+ * 去除重复标志以及会影响捕获组结果的 g、y 标志
+ * @param flags 用户输入的标志
+ * @returns 规范化后的标志
+ */
+export function normalizeRegexFlags(flags: string | undefined): string {
+    if (!flags) return '';
+
+    return Array.from(new Set(flags.replace(/\s/g, '').split('')))
+        .filter(flag => flag !== 'g' && flag !== 'y')
+        .join('');
+}
+
+/**
+ * 获取所有启用且模式非空的规则
+ * @param rules 规则列表
+ * @returns 启用的规则列表
+ */
+export function getActiveRules(rules: RegexRule[] | undefined): RegexRule[] {
+    if (!Array.isArray(rules)) return [];
+    return rules.filter(rule => rule.enabled && rule.pattern && rule.pattern.trim() !== '');
+}
+
+/**
+ * 按顺序尝试各条规则，返回第一条匹配的规则
+ * 无效的规则会被跳过
+ * @param text 要匹配的文本
+ * @param rules 规则列表
+ * @returns 第一条匹配的结果，没有匹配时返回 null
+ */
+export function findFirstMatchingRule(text: string, rules: RegexRule[] | undefined): RegexRuleMatch | null {
+    if (!Array.isArray(rules)) return null;
+
+    for (let index = 0; index < rules.length; index++) {
+        const rule = rules[index];
+        if (!rule.enabled || !rule.pattern || rule.pattern.trim() === '') continue;
+
+        const { regex } = createSafeRegex(rule.pattern, normalizeRegexFlags(rule.flags));
+        if (!regex) continue;
+
+        const { matches } = executeSafeRegex(regex, text);
+        if (matches) {
+            return { rule, index, match: matches };
+        }
+    }
+
+    return null;
+}
+
+/**
+ * 从匹配结果中提取显示文本
+ * 有捕获组时返回第一个捕获组，否则返回整个匹配
+ * @param match 匹配结果
+ * @returns 提取的文本
+ */
+export function extractMatchText(match: RegExpMatchArray): string {
+    return match.length > 1 ? (match[1] ?? '') : match[0];
+}
+
+/**
+ * 使用输出模板渲染匹配结果
+ * 支持 $1、${1} 编号捕获组、${name} 命名捕获组以及 $$ 转义的美元符号；
+ * 引用不存在的捕获组时保留原文，便于在预览中发现拼写错误
+ * @param template 输出模板
+ * @param match 匹配结果
+ * @returns 渲染后的文本
+ */
+export function renderTemplate(template: string, match: RegExpMatchArray): string {
+    const groups = (match as RegExpMatchArray & { groups?: Record<string, string | undefined> }).groups;
+
+    return template.replace(/\$(\$|\d+|\{([^}]*)\})/g, (token: string, ref: string, braced?: string) => {
+        if (ref === '$') return '$';
+
+        const name = braced !== undefined ? braced.trim() : ref;
+        if (/^\d+$/.test(name)) {
+            const index = Number(name);
+            return index < match.length ? (match[index] ?? '') : token;
+        }
+
+        if (groups && name in groups) {
+            return groups[name] ?? '';
+        }
+
+        return token;
+    });
+}
+
+/**
+ * 根据规则计算匹配结果的显示文本
+ * 规则设置了输出模板时使用模板，否则提取第一个捕获组
+ * @param rule 规则
+ * @param match 匹配结果
+ * @returns 显示文本
+ */
+export function applyRuleTemplate(rule: RegexRule, match: RegExpMatchArray): string {
+    if (rule.template && rule.template.trim() !== '') {
+        return renderTemplate(rule.template, match).trim();
+    }
+    return extractMatchText(match);
+}
+
+/**
+ * 获取规则的显示名称
+ * @param rule 规则
+ * @param index 规则在列表中的位置
+ * @returns 显示名称
+ */
+export function getRuleDisplayName(rule: RegexRule, index: number): string {
+    return rule.label && rule.label.trim() !== '' ? rule.label : `规则 ${index + 1}`;
+}
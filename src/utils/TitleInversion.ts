@@ -0,0 +1,131 @@
+/**
+ * 标题反推工具
+ * 将编辑后的显示标题代回产生它的捕获组，得到新的文件名，日期、编号等前缀保持不变
+ */
+import type { RegexRule } from '../settings/TitleChangerSettings';
+import { applyRuleTemplate, findFirstMatchingRule, normalizeRegexFlags } from './RegexRules';
+import { createSafeRegex, executeSafeRegex } from './RegexHelper';
+
+/**
+ * 带捕获组位置的匹配结果（d 标志）
+ */
+type IndexedMatch = RegExpMatchArray & {
+    indices?: Array<[number, number] | undefined> & {
+        groups?: Record<string, [number, number] | undefined>;
+    };
+};
+
+/**
+ * 可反推的规则匹配
+ */
+export interface TitleInversion {
+    /** 产生标题的规则 */
+    rule: RegexRule;
+    /** 捕获组在文件名中的起始位置 */
+    start: number;
+    /** 捕获组在文件名中的结束位置 */
+    end: number;
+    /** 输出模板中捕获组之前的文本 */
+    prefix: string;
+    /** 输出模板中捕获组之后的文本 */
+    suffix: string;
+}
+
+/**
+ * 解析输出模板中唯一引用的捕获组
+ * 模板只能引用一个捕获组，其余部分为字面文本
+ * @param template 输出模板
+ * @returns 捕获组及其前后的文本，无法反推时返回 null
+ */
+function parseTemplateGroup(template: string): { group: number | string; prefix: string; suffix: string } | null {
+    const parts: string[] = [''];
+    const groups: Array<number | string> = [];
+
+    let lastIndex = 0;
+    const tokenRegex = /\$(\$|\d+|\{([^}]*)\})/g;
+    let token: RegExpExecArray | null;
+    while ((token = tokenRegex.exec(template)) !== null) {
+        parts[parts.length - 1] += template.substring(lastIndex, token.index);
+        lastIndex = token.index + token[0].length;
+
+        if (token[1] === '$') {
+            parts[parts.length - 1] += '$';
+            continue;
+        }
+
+        const name = token[2] !== undefined ? token[2].trim() : token[1];
+        groups.push(/^\d+$/.test(name) ? Number(name) : name);
+        parts.push('');
+    }
+    parts[parts.length - 1] += template.substring(lastIndex);
+
+    if (groups.length !== 1) return null;
+    return { group: groups[0], prefix: parts[0], suffix: parts[1] };
+}
+
+/**
+ * 查找产生显示标题的规则和捕获组
+ * 规则未设置输出模板时使用第一个捕获组（没有捕获组时为整个匹配），
+ * 设置了模板时模板只能引用一个捕获组，否则无法反推
+ * @param baseName 不含扩展名的文件名
+ * @param rules 适用于该文件的规则列表
+ * @returns 可反推的匹配，没有规则匹配或无法反推时返回 null
+ */
+export function findTitleInversion(baseName: string, rules: RegexRule[] | undefined): TitleInversion | null {
+    const first = findFirstMatchingRule(baseName, rules);
+    if (!first) return null;
+
+    const { rule } = first;
+    let target: { group: number | string; prefix: string; suffix: string } | null;
+    if (rule.template && rule.template.trim() !== '') {
+        target = parseTemplateGroup(rule.template.trim());
+    } else {
+        target = { group: first.match.length > 1 ? 1 : 0, prefix: '', suffix: '' };
+    }
+    if (!target) return null;
+
+    // 重新匹配一次以获取捕获组的位置
+    const { regex } = createSafeRegex(rule.pattern, `${normalizeRegexFlags(rule.flags).replace('d', '')}d`);
+    if (!regex) return null;
+
+    const { matches } = executeSafeRegex(regex, baseName);
+    const indices = (matches as IndexedMatch | null)?.indices;
+    if (!indices) return null;
+
+    const range = typeof target.group === 'number' ? indices[target.group] : indices.groups?.[target.group];
+    if (!range) return null;
+
+    return { rule, start: range[0], end: range[1], prefix: target.prefix, suffix: target.suffix };
+}
+
+/**
+ * 根据编辑后的显示标题计算新的文件名
+ * 新文件名必须仍由同一条规则匹配，且该规则生成的标题与编辑后的文本一致
+ * @param baseName 不含扩展名的文件名
+ * @param title 编辑后的显示标题（未经后处理）
+ * @param rules 适用于该文件的规则列表
+ * @returns 新的文件名，无法反推时返回 null
+ */
+export function invertDisplayTitle(baseName: string, title: string, rules: RegexRule[] | undefined): string | null {
+    const inversion = findTitleInversion(baseName, rules);
+    if (!inversion) return null;
+
+    const text = title.trim();
+    const { prefix, suffix } = inversion;
+    if (!text.startsWith(prefix) || !text.endsWith(suffix) || text.length < prefix.length + suffix.length) {
+        return null;
+    }
+
+    const value = text.substring(prefix.length, text.length - suffix.length);
+    if (value === '') return null;
+
+    const newBaseName = baseName.substring(0, inversion.start) + value + baseName.substring(inversion.end);
+
+    // 代回后规则可能匹配到不同的位置，需要确认新文件名生成的标题就是编辑后的文本
+    const check = findFirstMatchingRule(newBaseName, rules);
+    if (!check || check.rule.id !== inversion.rule.id || applyRuleTemplate(check.rule, check.match) !== text) {
+        return null;
+    }
+
+    return newBaseName;
+}
@@ -0,0 +1,71 @@
+/**
+ * 手动标题工具
+ * 按文件路径保存的手动显示标题，优先于其他所有标题来源
+ */
+
+/**
+ * 文件路径到手动标题的映射
+ */
+export type TitleOverrides = Record<string, string>;
+
+/**
+ * 获取路径中不含扩展名的文件名
+ * @param path 文件路径
+ * @returns 文件名
+ */
+function getPathBaseName(path: string): string {
+    const name = path.split('/').pop() || path;
+    const dotIndex = name.lastIndexOf('.');
+    return dotIndex > 0 ? name.substring(0, dotIndex) : name;
+}
+
+/**
+ * 按文件路径获取手动标题
+ * @param overrides 手动标题映射
+ * @param path 文件路径
+ * @returns 手动标题，没有时返回 null
+ */
+export function getTitleOverride(overrides: TitleOverrides | undefined, path: string): string | null {
+    if (!overrides || !Object.prototype.hasOwnProperty.call(overrides, path)) return null;
+
+    const title = overrides[path];
+    return typeof title === 'string' && title.trim() !== '' ? title : null;
+}
+
+/**
+ * 按文件名或路径查找手动标题
+ * 依次尝试完整路径、补全 .md 扩展名的路径和不含扩展名的文件名
+ * @param overrides 手动标题映射
+ * @param fileName 文件名或路径
+ * @returns 手动标题，没有时返回 null
+ */
+export function findTitleOverride(overrides: TitleOverrides | undefined, fileName: string): string | null {
+    if (!overrides) return null;
+
+    const direct = getTitleOverride(overrides, fileName) ?? getTitleOverride(overrides, `${fileName}.md`);
+    if (direct !== null) return direct;
+
+    const baseName = getPathBaseName(fileName);
+    for (const path of Object.keys(overrides)) {
+        if (getPathBaseName(path) === baseName) {
+            return getTitleOverride(overrides, path);
+        }
+    }
+
+    return null;
+}
+
+/**
+ * 文件重命名或移动后迁移手动标题
+ * @param overrides 手动标题映射
+ * @param oldPath 旧路径
+ * @param newPath 新路径
+ * @returns 是否迁移了手动标题
+ */
+export function renameTitleOverride(overrides: TitleOverrides, oldPath: string, newPath: string): boolean {
+    if (oldPath === newPath || !Object.prototype.hasOwnProperty.call(overrides, oldPath)) return false;
+
+    overrides[newPath] = overrides[oldPath];
+    delete overrides[oldPath];
+    return true;
+}
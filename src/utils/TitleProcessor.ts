@@ -4,6 +4,10 @@ import { ErrorCategory, RegexError } from './errors';
 import { ErrorLevel, ErrorManagerService } from '../services/ErrorManagerService';
 import { Logger } from './logger';
 import { safeRegexCreation, safeRegexExecution } from './ErrorHelpers';
+import { applyRuleTemplate, getActiveRules, normalizeRegexFlags } from './RegexRules';
+import { FolderChecker } from './FolderChecker';
+import { applyTitleTransforms } from './TitleTransforms';
+import { getFirstHeadingTitle, getFrontmatterTitle, TitleMetadata } from './MetadataTitle';
 
 export class TitleProcessor {
     /**
@@ -12,57 +16,76 @@ export class TitleProcessor {
      * @param settings 插件设置
      * @param errorManager 错误管理服务
      * @param logger 日志服务
+     * @param metadata 文件的缓存元数据（可选）
      * @returns 显示标题，如果不应该更改则返回 null
      */
     static processFile(
         file: TFile, 
         settings: TitleChangerSettings,
         errorManager: ErrorManagerService,
-        logger: Logger
+        logger: Logger,
+        metadata?: TitleMetadata | null
     ): string | null {
-        // 获取没有扩展名的文件名
-        const filename = this.getFilenameWithoutExtension(file);
-        
-        // 检查正则表达式是否有效
-        if (!settings.regexPattern || settings.regexPattern.trim() === '') {
-            return null;
+        // frontmatter 中的标题优先于正则规则
+        if (settings.useFrontmatterTitle) {
+            const frontmatterTitle = getFrontmatterTitle(metadata?.frontmatter, settings.frontmatterTitleKey);
+            if (frontmatterTitle !== null) {
+                return frontmatterTitle;
+            }
         }
         
-        // 创建正则表达式对象
-        const regex = safeRegexCreation(
-            settings.regexPattern,
-            '',  // 无特殊标志
-            'TitleProcessor',
-            errorManager,
-            logger
-        );
-        
-        // 如果正则表达式无效，返回null
-        if (!regex) {
-            return null;
+        // 其次使用第一个一级标题
+        if (settings.useHeadingTitle) {
+            const headingTitle = getFirstHeadingTitle(metadata?.headings);
+            if (headingTitle !== null) {
+                return headingTitle;
+            }
+            
+            // 没有一级标题时按设置直接显示原始文件名
+            if (settings.headingFallback === 'original') {
+                return null;
+            }
         }
         
-        // 执行正则匹配
-        const match = safeRegexExecution(
-            regex,
-            filename,
-            'TitleProcessor',
-            errorManager,
-            logger
-        );
-        
-        // 如果没有匹配，返回 null
-        if (!match) {
-            return null;
-        }
+        // 获取没有扩展名的文件名
+        const filename = this.getFilenameWithoutExtension(file);
         
-        // 如果有捕获组，返回第一个捕获组
-        if (match.length > 1) {
-            return match[1];
+        // 按顺序尝试适用于该文件所在文件夹的启用规则，使用第一条匹配的规则
+        for (const rule of getActiveRules(FolderChecker.getApplicableRules(file, settings))) {
+            // 创建正则表达式对象
+            const regex = safeRegexCreation(
+                rule.pattern,
+                normalizeRegexFlags(rule.flags),
+                'TitleProcessor',
+                errorManager,
+                logger
+            );
+            
+            // 如果正则表达式无效，跳过该规则
+            if (!regex) {
+                continue;
+            }
+            
+            // 执行正则匹配
+            const match = safeRegexExecution(
+                regex,
+                filename,
+                'TitleProcessor',
+                errorManager,
+                logger
+            );
+            
+            // 如果匹配，按规则的输出模板生成标题
+            // 未设置模板时返回第一个捕获组，没有捕获组时返回整个匹配
+            // 然后依次执行启用的后处理步骤，结果为空时保留原始文件名
+            if (match) {
+                const title = applyTitleTransforms(applyRuleTemplate(rule, match), settings.titleTransforms);
+                return title !== '' ? title : null;
+            }
         }
         
-        // 如果只有整个匹配（没有捕获组），返回整个匹配
-        return match[0];
+        // 所有规则都没有匹配，返回 null
+        return null;
     }
     
     /**
@@ -0,0 +1,54 @@
+/**
+ * 标题属性工具
+ * 判断如何将显示标题写入 frontmatter 属性，避免覆盖用户自己填写的值
+ */
+import { parseFrontmatterKeys } from './MetadataTitle';
+
+/**
+ * 写入标题属性的操作
+ * - add: 属性不存在或为空，添加
+ * - update: 属性是插件之前写入的值（或允许覆盖），更新
+ * - unchanged: 属性已是显示标题
+ * - conflict: 属性是用户填写的其他值，跳过
+ */
+export type TitlePropertyAction = 'add' | 'update' | 'unchanged' | 'conflict';
+
+/**
+ * 判断写入标题属性的操作
+ * @param existing 属性的当前值
+ * @param title 显示标题
+ * @param written 插件上次写入的值
+ * @param overwrite 是否覆盖用户填写的值
+ * @returns 写入操作
+ */
+export function getTitlePropertyAction(
+    existing: unknown,
+    title: string,
+    written: string | undefined,
+    overwrite: boolean
+): TitlePropertyAction {
+    if (existing === undefined || existing === null || (typeof existing === 'string' && existing.trim() === '')) {
+        return 'add';
+    }
+
+    if (existing === title) return 'unchanged';
+
+    if ((written !== undefined && existing === written) || overwrite) {
+        return 'update';
+    }
+
+    return 'conflict';
+}
+
+/**
+ * 判断属性是否同时是读取标题的 frontmatter 键
+ * 写入这样的属性会让显示标题固定为第一次写入的值
+ * @param key 写入的属性
+ * @param settings 标题来源设置
+ */
+export function isTitleSourceKey(
+    key: string,
+    settings: { useFrontmatterTitle: boolean; frontmatterTitleKey: string }
+): boolean {
+    return settings.useFrontmatterTitle && parseFrontmatterKeys(settings.frontmatterTitleKey).includes(key.trim());
+}
@@ -0,0 +1,93 @@
+/**
+ * 显示标题搜索工具
+ * 同时按显示标题和文件路径匹配，供快速切换和链接补全使用
+ */
+
+/**
+ * 匹配区间列表，每项为 [起始, 结束]
+ */
+export type TitleSearchMatches = [number, number][];
+
+/**
+ * 单个文本的匹配结果
+ */
+export interface TitleSearchResult {
+    /** 匹配分数，越大越相关 */
+    score: number;
+    /** 匹配区间 */
+    matches: TitleSearchMatches;
+}
+
+/**
+ * 文本匹配函数，不匹配时返回 null
+ */
+export type TitleMatcher = (text: string) => TitleSearchResult | null;
+
+/**
+ * 搜索候选项
+ */
+export interface TitleSearchCandidate<T> {
+    /** 原始对象 */
+    item: T;
+    /** 显示标题 */
+    title: string;
+    /** 文件路径 */
+    path: string;
+}
+
+/**
+ * 搜索结果
+ */
+export interface TitleSearchMatch<T> extends TitleSearchCandidate<T> {
+    /** 匹配分数 */
+    score: number;
+    /** 显示标题中的匹配区间，未匹配标题时为 null */
+    titleMatches: TitleSearchMatches | null;
+    /** 文件路径中的匹配区间，未匹配路径时为 null */
+    pathMatches: TitleSearchMatches | null;
+}
+
+/**
+ * 按显示标题和文件路径搜索候选项
+ * 两者都匹配时取较高的分数；空查询时按原顺序返回
+ * @param candidates 候选项列表
+ * @param query 查询文本
+ * @param matcher 文本匹配函数
+ * @param limit 最大结果数
+ * @returns 按分数从高到低排序的结果
+ */
+export function searchByTitle<T>(
+    candidates: TitleSearchCandidate<T>[],
+    query: string,
+    matcher: TitleMatcher,
+    limit = 50
+): TitleSearchMatch<T>[] {
+    if (query.trim() === '') {
+        return candidates.slice(0, limit).map(candidate => ({
+            ...candidate,
+            score: 0,
+            titleMatches: null,
+            pathMatches: null
+        }));
+    }
+
+    const results: TitleSearchMatch<T>[] = [];
+
+    for (const candidate of candidates) {
+        const titleResult = matcher(candidate.title);
+        const pathResult = matcher(candidate.path);
+        if (!titleResult && !pathResult) continue;
+
+        results.push({
+            ...candidate,
+            score: Math.max(titleResult?.score ?? -Infinity, pathResult?.score ?? -Infinity),
+            titleMatches: titleResult?.matches ?? null,
+            pathMatches: pathResult?.matches ?? null
+        });
+    }
+
+    // 排序是稳定的，分数相同时保持原顺序
+    return results
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+}
@@ -0,0 +1,53 @@
+/**
+ * 显示标题排序工具
+ * 按显示标题自然排序（数字按数值比较），显示标题相同时按原始文件名排序
+ */
+
+/**
+ * 文件浏览器排序方式
+ */
+export type ExplorerSortMode = 'default' | 'titleAsc' | 'titleDesc';
+
+/**
+ * 排序键
+ */
+export interface TitleSortKey {
+    /** 显示标题 */
+    title: string;
+    /** 原始文件名 */
+    name: string;
+}
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+/**
+ * 比较两个排序键
+ * @param a 排序键
+ * @param b 排序键
+ * @returns 比较结果，小于 0 表示 a 在前
+ */
+export function compareByDisplayTitle(a: TitleSortKey, b: TitleSortKey): number {
+    return collator.compare(a.title, b.title)
+        || collator.compare(a.name, b.name)
+        || (a.name < b.name ? -1 : a.name > b.name ? 1 : 0);
+}
+
+/**
+ * 按显示标题排序，返回新数组
+ * @param items 待排序的项
+ * @param getKey 获取排序键
+ * @param mode 排序方式，default 时保持原顺序
+ * @returns 排序后的数组
+ */
+export function sortByDisplayTitle<T>(
+    items: T[],
+    getKey: (item: T) => TitleSortKey,
+    mode: ExplorerSortMode
+): T[] {
+    if (mode === 'default') return items.slice();
+
+    const direction = mode === 'titleDesc' ? -1 : 1;
+    const keyed = items.map(item => ({ item, key: getKey(item) }));
+    keyed.sort((a, b) => direction * compareByDisplayTitle(a.key, b.key));
+    return keyed.map(({ item }) => item);
+}
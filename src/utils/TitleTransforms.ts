@@ -0,0 +1,157 @@
+/**
+ * 标题后处理工具
+ * 对正则规则提取的标题依次执行可单独启用的处理步骤
+ */
+
+/**
+ * 后处理步骤类型
+ */
+export type TitleTransformType =
+    | 'replaceSeparators'
+    | 'stripEmoji'
+    | 'collapseWhitespace'
+    | 'titleCase'
+    | 'trim';
+
+/**
+ * 后处理步骤
+ */
+export interface TitleTransformStep {
+    /** 步骤类型 */
+    type: TitleTransformType;
+    /** 是否启用 */
+    enabled: boolean;
+}
+
+/**
+ * 步骤预览结果
+ */
+export interface TitleTransformPreview {
+    /** 步骤类型 */
+    type: TitleTransformType;
+    /** 执行该步骤后的文本 */
+    output: string;
+}
+
+/**
+ * 各步骤的名称和说明，按默认顺序排列
+ */
+export const TITLE_TRANSFORM_INFO: Record<TitleTransformType, { name: string; desc: string }> = {
+    replaceSeparators: {
+        name: '替换分隔符',
+        desc: '将下划线和短横线替换为空格'
+    },
+    stripEmoji: {
+        name: '移除表情符号',
+        desc: '删除标题中的 emoji'
+    },
+    collapseWhitespace: {
+        name: '合并空白',
+        desc: '将连续的空白字符合并为一个空格'
+    },
+    titleCase: {
+        name: '首字母大写',
+        desc: '将每个单词的首字母转换为大写，其余字母保持不变'
+    },
+    trim: {
+        name: '去除首尾空白',
+        desc: '删除标题开头和结尾的空白字符'
+    }
+};
+
+const SEPARATOR_REGEX = /[_-]+/g;
+const WHITESPACE_REGEX = /\s+/g;
+// 运行时创建，避免依赖编译目标对 Unicode 属性转义的支持
+const EMOJI_REGEX = new RegExp('\\p{Extended_Pictographic}|\\p{Emoji_Modifier}|[\\u{1F1E6}-\\u{1F1FF}]|\\u200D|\\uFE0F|\\u20E3', 'gu');
+
+/**
+ * 创建默认的后处理步骤列表（全部禁用）
+ * @returns 步骤列表
+ */
+export function createDefaultTransforms(): TitleTransformStep[] {
+    return (Object.keys(TITLE_TRANSFORM_INFO) as TitleTransformType[])
+        .map(type => ({ type, enabled: false }));
+}
+
+/**
+ * 规范化已保存的步骤列表
+ * 保留已知步骤的顺序和启用状态，去除重复和未知步骤，并追加缺少的步骤
+ * @param steps 已保存的步骤列表
+ * @returns 完整的步骤列表
+ */
+export function normalizeTransforms(steps: unknown): TitleTransformStep[] {
+    const result: TitleTransformStep[] = [];
+    const seen = new Set<TitleTransformType>();
+
+    if (Array.isArray(steps)) {
+        for (const step of steps) {
+            const type = step?.type as TitleTransformType;
+            if (!Object.prototype.hasOwnProperty.call(TITLE_TRANSFORM_INFO, type) || seen.has(type)) continue;
+
+            seen.add(type);
+            result.push({ type, enabled: step.enabled === true });
+        }
+    }
+
+    for (const step of createDefaultTransforms()) {
+        if (!seen.has(step.type)) {
+            result.push(step);
+        }
+    }
+
+    return result;
+}
+
+/**
+ * 执行单个后处理步骤
+ * @param type 步骤类型
+ * @param text 输入文本
+ * @returns 处理后的文本
+ */
+export function applyTitleTransform(type: TitleTransformType, text: string): string {
+    switch (type) {
+        case 'replaceSeparators':
+            return text.replace(SEPARATOR_REGEX, ' ');
+        case 'stripEmoji':
+            return text.replace(EMOJI_REGEX, '');
+        case 'collapseWhitespace':
+            return text.replace(WHITESPACE_REGEX, ' ');
+        case 'titleCase':
+            return text.replace(/(^|\s)(\S)/g, (_match, space: string, char: string) => space + char.toUpperCase());
+        case 'trim':
+            return text.trim();
+        default:
+            return text;
+    }
+}
+
+/**
+ * 按顺序执行启用的步骤，并返回每一步的结果
+ * @param text 输入文本
+ * @param steps 步骤列表
+ * @returns 每个启用步骤执行后的文本
+ */
+export function previewTitleTransforms(text: string, steps: TitleTransformStep[] | undefined): TitleTransformPreview[] {
+    const previews: TitleTransformPreview[] = [];
+    let output = text;
+
+    for (const step of steps ?? []) {
+        if (!step.enabled) continue;
+
+        output = applyTitleTransform(step.type, output);
+        previews.push({ type: step.type, output });
+    }
+
+    return previews;
+}
+
+/**
+ * 按顺序执行启用的步骤
+ * @param text 输入文本
+ * @param steps 步骤列表
+ * @returns 处理后的文本
+ */
+export function applyTitleTransforms(text: string, steps: TitleTransformStep[] | undefined): string {
+    const previews = previewTitleTransforms(text, steps);
+    return previews.length > 0 ? previews[previews.length - 1].output : text;
+}
@@ -1,6 +1,8 @@
 /**
  * Wiki链接处理工具
  * 提供提取和处理Wiki链接的通用函数
+ * 链接语法与 Obsidian 一致：[[文件名#标题|别名]]、[[文件名#^块ID]]，
+ * 表格中的别名分隔符写作 \|
  */
 
 export interface WikiLink {
@@ -10,7 +12,7 @@ export interface WikiLink {
     fileName: string;
     /** 显示文本（如果有） */
     displayText?: string;
-    /** 子路径/锚点（如果有） */
+    /** 子路径/锚点（如果有），不包含开头的 #，块链接以 ^ 开头 */
     subPath?: string;
     /** 在文档中的起始位置 */
     start: number;
@@ -18,29 +20,112 @@ export interface WikiLink {
     end: number;
 }
 
+/**
+ * 链接目标，即别名分隔符之前的部分
+ */
+export interface LinkTarget {
+    /** 文件名或路径 */
+    fileName: string;
+    /** 子路径（如果有），不包含开头的 # */
+    subPath?: string;
+}
+
+/** 标题链接中显示标题与标题之间的分隔符 */
+export const SUBPATH_SEPARATOR = ' › ';
+
+/**
+ * 拆分链接目标中的文件名和子路径
+ * @param target 链接目标，如 file#heading 或 file#^block
+ * @returns 文件名和子路径
+ */
+export function parseLinkTarget(target: string): LinkTarget {
+    const hashIndex = target.indexOf('#');
+    if (hashIndex === -1) {
+        return { fileName: target };
+    }
+
+    const subPath = target.slice(hashIndex + 1);
+    return {
+        fileName: target.slice(0, hashIndex),
+        subPath: subPath || undefined
+    };
+}
+
+/**
+ * 判断子路径是否为块引用
+ * @param subPath 子路径
+ */
+export function isBlockSubPath(subPath: string): boolean {
+    return subPath.startsWith('^');
+}
+
+/**
+ * 生成链接的显示文本
+ * 标题链接显示为"显示标题 › 标题"，块链接只显示标题
+ * @param displayTitle 文件的显示标题
+ * @param subPath 子路径
+ * @returns 链接的显示文本
+ */
+export function formatLinkTitle(displayTitle: string, subPath?: string): string {
+    if (!subPath || isBlockSubPath(subPath)) {
+        return displayTitle;
+    }
+
+    const headings = subPath.split('#').filter(heading => heading.trim());
+    return [displayTitle, ...headings].join(SUBPATH_SEPARATOR);
+}
+
+/**
+ * 获取 Obsidian 为没有别名的链接渲染的默认文本
+ * 用于判断渲染后的链接是否使用了别名
+ * @param target 链接目标
+ * @returns 默认显示文本，如 file > heading
+ */
+export function getDefaultLinkText(target: LinkTarget): string {
+    if (!target.subPath) {
+        return target.fileName;
+    }
+
+    const parts = target.subPath.split('#').filter(part => part.trim());
+    return [target.fileName, ...parts].join(' > ');
+}
+
 /**
  * 从文本中提取Wiki链接
  * @param text 要分析的文本
  * @param lineStart 行的起始位置（用于计算绝对位置）
  * @returns Wiki链接数组
  */
-export function extractWikiLinks(text: string, lineStart: number = 0): WikiLink[] {
+export function extractWikiLinks(text: string, lineStart = 0): WikiLink[] {
     const results: WikiLink[] = [];
-    // 匹配形如 [[fileName|displayText#subPath]] 的Wiki链接
-    const wikiLinkRegex = /\[\[([^\]|#]+)(?:\|([^\]#]+))?(?:#([^\]|]+))?\]\]/g;
-    
+    // 匹配 [[...]]，链接内容在第一个 ]] 处结束
+    const wikiLinkRegex = /\[\[([^\]]+)\]\]/g;
+
     let match;
     while ((match = wikiLinkRegex.exec(text)) !== null) {
+        const inner = match[1];
+
+        // 第一个 | 之后是别名，表格中转义的 \| 同样作为分隔符
+        const pipeIndex = inner.indexOf('|');
+        let target = inner;
+        let displayText: string | undefined;
+        if (pipeIndex !== -1) {
+            const escaped = pipeIndex > 0 && inner[pipeIndex - 1] === '\\';
+            target = inner.slice(0, escaped ? pipeIndex - 1 : pipeIndex);
+            displayText = inner.slice(pipeIndex + 1);
+        }
+
+        const { fileName, subPath } = parseLinkTarget(target);
         results.push({
             fullMatch: match[0],
-            fileName: match[1],
-            displayText: match[2],
-            subPath: match[3],
+            fileName,
+            displayText,
+            subPath,
             start: lineStart + match.index,
             end: lineStart + match.index + match[0].length
         });
     }
-    
+
     return results;
 }
 
@@ -50,22 +135,23 @@ export function extractWikiLinks(text: string, lineStart: number = 0): WikiLink[
  * @param lineStart 行的起始位置
  * @returns 简单Wiki链接数组
  */
-export function extractSimpleWikiLinks(text: string, lineStart: number = 0): WikiLink[] {
-    const results: WikiLink[] = [];
-    // 仅匹配形如 [[fileName]] 的简单Wiki链接
-    const simpleLinkRegex = /\[\[([^\]|#]+)\]\]/g;
-    
-    let match;
-    while ((match = simpleLinkRegex.exec(text)) !== null) {
-        results.push({
-            fullMatch: match[0],
-            fileName: match[1],
-            start: lineStart + match.index,
-            end: lineStart + match.index + match[0].length
-        });
-    }
-    
-    return results;
+export function extractSimpleWikiLinks(text: string, lineStart = 0): WikiLink[] {
+    return extractWikiLinks(text, lineStart).filter(link =>
+        link.displayText === undefined &&
+        link.subPath === undefined &&
+        link.fullMatch === `[[${link.fileName}]]`
+    );
+}
+
+/**
+ * 获取链接目标（文件名和子路径）在文档中的范围，不包含 [[ 和别名
+ * @param wikiLink Wiki链接对象
+ * @returns 起止位置
+ */
+export function getLinkTargetRange(wikiLink: WikiLink): { from: number; to: number } {
+    const from = wikiLink.start + 2;
+    const length = wikiLink.fileName.length + (wikiLink.subPath !== undefined ? wikiLink.subPath.length + 1 : 0);
+    return { from, to: from + length };
 }
 
 /**
@@ -75,6 +161,9 @@ export function extractSimpleWikiLinks(text: string, lineStart: number = 0): Wik
  * @returns 是否需要替换标题
  */
 export function shouldReplaceTitle(wikiLink: WikiLink): boolean {
-    // 如果已有显示文本，则不需要替换
-    return !wikiLink.displayText;
-} 
\ No newline at end of file
+    // 指向当前文件内标题或块的链接没有文件名
+    if (!wikiLink.fileName.trim()) return false;
+
+    // 有显式别名时保留别名，空别名与没有别名一致
+    return !wikiLink.displayText?.trim();
+}
@@ -0,0 +1,306 @@
+import { TFile } from 'obsidian';
+import { injectable, inject } from 'inversify';
+import { TYPES } from '../types/symbols';
+import type { TitleChangerPlugin } from '../main';
+import { CacheManager } from '../CacheManager';
+import { Logger } from '../utils/logger';
+import { ErrorManagerService, ErrorLevel } from '../services/ErrorManagerService';
+import { ErrorCategory } from '../utils/errors';
+import { logErrorsWithoutThrowing } from '../utils/ErrorHelpers';
+import { AbstractView } from './base/abstract-view';
+import { UpdateScheduler } from '../services/UpdateSchedulerService';
+import { UIStateManager } from '../services/UIStateManager';
+import { EventType } from '../types/ObsidianExtensions';
+import type { IEventBusService, PeekModeEvent, TitleEvent } from '../types/ObsidianExtensions';
+
+/**
+ * 书签条目（Obsidian 内部 API）
+ */
+interface BookmarkItem {
+    type: string;
+    path?: string;
+    // 用户手动设置的书签标题
+    title?: string;
+    items?: BookmarkItem[];
+}
+
+/**
+ * 书签核心插件实例（Obsidian 内部 API）
+ * 书签面板通过 getItemTitle 获取每个条目的标题
+ */
+interface BookmarksPluginInstance {
+    items?: BookmarkItem[];
+    getItemTitle?: (item: BookmarkItem) => string;
+    onItemsChanged?: (saveData: boolean) => void;
+}
+
+/**
+ * 应用的内部插件管理器（Obsidian 内部 API）
+ */
+interface AppWithInternalPlugins {
+    internalPlugins?: {
+        getPluginById?: (id: string) => { enabled?: boolean; instance?: BookmarksPluginInstance } | null;
+    };
+}
+
+/**
+ * 书签视图，负责在书签面板中显示文件的显示标题
+ * 用户为书签设置了标题时保留该标题
+ */
+@injectable()
+export class BookmarksView extends AbstractView {
+    private static readonly VIEW_ID = 'bookmarks-view';
+
+    // 已替换 getItemTitle 的书签插件实例及其原方法
+    private patchedInstance: BookmarksPluginInstance | null = null;
+    private originalGetItemTitle: BookmarksPluginInstance['getItemTitle'] | undefined;
+    private subscriptionIds: string[] = [];
+
+    constructor(
+        @inject(TYPES.Plugin) plugin: TitleChangerPlugin,
+        @inject(TYPES.Logger) logger: Logger,
+        @inject(TYPES.ErrorManager) errorManager: ErrorManagerService,
+        @inject(TYPES.CacheManager) private cacheManager: CacheManager,
+        @inject(TYPES.UpdateScheduler) private updateScheduler: UpdateScheduler,
+        @inject(TYPES.EventBusService) private eventBus: IEventBusService,
+        @inject(TYPES.UIStateManager) private uiStateManager: UIStateManager
+    ) {
+        super(plugin, logger, errorManager);
+    }
+
+    /**
+     * 初始化书签视图
+     */
+    initialize(): void {
+        this.logInfo(`[${BookmarksView.VIEW_ID}] 正在初始化...`);
+
+        this.safeOperation(
+            () => {
+                // 书签中的文件标题变化后刷新书签面板
+                this.subscriptionIds.push(
+                    this.eventBus.subscribe<TitleEvent>(EventType.TITLE_CHANGED, (event) => {
+                        this.onTitleChanged(event.payload?.path);
+                    })
+                );
+
+                // 预览原始文件名时书签面板需要重新渲染
+                this.subscriptionIds.push(
+                    this.eventBus.subscribe<PeekModeEvent>(EventType.PEEK_MODE_CHANGED, () => {
+                        if (this.enabled) this.scheduleRefresh();
+                    })
+                );
+
+                // 书签插件可能在布局加载后才启用
+                this.plugin.registerEvent(this.plugin.app.workspace.on('layout-change', () => {
+                    if (this.enabled && this.syncPatch()) {
+                        this.scheduleRefresh();
+                    }
+                }));
+
+                this.plugin.app.workspace.onLayoutReady(() => this.updateView());
+            },
+            'BookmarksView',
+            '初始化书签视图失败',
+            ErrorCategory.LIFECYCLE,
+            ErrorLevel.ERROR,
+            { action: 'initialize' }
+        );
+
+        this.logInfo(`[${BookmarksView.VIEW_ID}] 初始化完成`);
+    }
+
+    /**
+     * 卸载书签视图
+     */
+    unload(): void {
+        this.logInfo(`[${BookmarksView.VIEW_ID}] 正在卸载...`);
+
+        this.updateScheduler.cancelScheduledUpdate(BookmarksView.VIEW_ID);
+        this.subscriptionIds.forEach(id => this.eventBus.unsubscribe(id));
+        this.subscriptionIds = [];
+        this.restoreOriginalTitles();
+
+        this.logInfo(`[${BookmarksView.VIEW_ID}] 卸载完成`);
+    }
+
+    /**
+     * 更新书签面板
+     */
+    updateView(): void {
+        if (!this.enabled) {
+            this.logDebug(`[${BookmarksView.VIEW_ID}] 视图已禁用，跳过更新`);
+            return;
+        }
+
+        this.safeOperation(
+            () => {
+                this.syncPatch();
+
+                // 设置变化后显示标题可能全部改变
+                this.scheduleRefresh();
+            },
+            'BookmarksView',
+            '更新书签面板失败',
+            ErrorCategory.UI,
+            ErrorLevel.WARNING
+        );
+    }
+
+    /**
+     * 重写onEnable方法，在启用时立即刷新视图
+     */
+    protected override onEnable(): void {
+        super.onEnable();
+        this.logInfo(`[${BookmarksView.VIEW_ID}] 视图已启用，立即刷新`);
+        this.updateView();
+    }
+
+    /**
+     * 重写onDisable方法，在禁用时恢复原始文件名
+     */
+    protected override onDisable(): void {
+        super.onDisable();
+        this.logInfo(`[${BookmarksView.VIEW_ID}] 视图已禁用，恢复原始文件名`);
+
+        this.updateScheduler.cancelScheduledUpdate(BookmarksView.VIEW_ID);
+        this.restoreOriginalTitles();
+    }
+
+    /**
+     * 确保当前启用的书签插件实例已被替换标题方法
+     * @returns 是否新替换了书签插件实例
+     */
+    private syncPatch(): boolean {
+        const instance = this.getBookmarksInstance();
+
+        // 书签插件已关闭或重新启用，实例发生变化
+        if (this.patchedInstance && this.patchedInstance !== instance) {
+            this.restoreOriginalTitles();
+        }
+
+        return instance !== null && !this.patchedInstance && this.patchInstance(instance);
+    }
+
+    /**
+     * 获取书签插件实例
+     * @returns 书签插件实例，插件未启用时返回 null
+     */
+    private getBookmarksInstance(): BookmarksPluginInstance | null {
+        const app = this.plugin.app as unknown as AppWithInternalPlugins;
+        const bookmarks = app.internalPlugins?.getPluginById?.('bookmarks');
+        return bookmarks?.enabled && bookmarks.instance ? bookmarks.instance : null;
+    }
+
+    /**
+     * 替换书签插件的标题方法
+     * @param instance 书签插件实例
+     * @returns 是否替换成功
+     */
+    private patchInstance(instance: BookmarksPluginInstance): boolean {
+        const original = instance.getItemTitle;
+        if (typeof original !== 'function') {
+            this.logDebug(`[${BookmarksView.VIEW_ID}] 当前版本的书签插件不支持自定义标题`);
+            return false;
+        }
+
+        const hadOwnMethod = Object.prototype.hasOwnProperty.call(instance, 'getItemTitle');
+        this.patchedInstance = instance;
+        this.originalGetItemTitle = hadOwnMethod ? original : undefined;
+
+        instance.getItemTitle = (item: BookmarkItem) => {
+            const originalTitle = original.call(instance, item);
+            if (this.uiStateManager.isPeekMode()) return originalTitle;
+            return this.getDisplayTitle(item) ?? originalTitle;
+        };
+        return true;
+    }
+
+    /**
+     * 获取文件书签的显示标题
+     * @param item 书签条目
+     * @returns 显示标题，非文件书签或用户设置了书签标题时返回 null
+     */
+    private getDisplayTitle(item: BookmarkItem): string | null {
+        if (item.type !== 'file' || item.title || !item.path) return null;
+
+        return logErrorsWithoutThrowing(
+            () => {
+                const file = this.plugin.app.vault.getAbstractFileByPath(item.path as string);
+                return file instanceof TFile ? this.cacheManager.processFile(file) : null;
+            },
+            'BookmarksView',
+            this.errorManager,
+            this.logger,
+            {
+                errorMessage: '获取书签显示标题失败',
+                category: ErrorCategory.UI,
+                level: ErrorLevel.DEBUG,
+                details: { path: item.path },
+                defaultValue: null
+            }
+        );
+    }
+
+    /**
+     * 处理标题变更事件
+     * @param path 标题发生变化的文件路径，为空时刷新全部书签
+     */
+    private onTitleChanged(path: string | undefined): void {
+        if (!this.enabled || !this.patchedInstance) return;
+        if (path && !this.isBookmarked(this.patchedInstance.items ?? [], path)) return;
+
+        this.scheduleRefresh();
+    }
+
+    /**
+     * 判断文件是否在书签中（包括书签组内）
+     * @param items 书签条目
+     * @param path 文件路径
+     */
+    private isBookmarked(items: BookmarkItem[], path: string): boolean {
+        return items.some(item =>
+            (item.type === 'file' && item.path === path) ||
+            (item.type === 'group' && this.isBookmarked(item.items ?? [], path))
+        );
+    }
+
+    /**
+     * 延迟通知书签面板重新渲染，不保存书签数据
+     */
+    private scheduleRefresh(): void {
+        if (!this.patchedInstance) return;
+
+        this.updateScheduler.scheduleUpdate(
+            BookmarksView.VIEW_ID,
+            () => this.patchedInstance?.onItemsChanged?.(false),
+            100
+        );
+    }
+
+    /**
+     * 恢复书签插件的标题方法并重新渲染
+     */
+    private restoreOriginalTitles(): void {
+        this.safeOperation(
+            () => {
+                const instance = this.patchedInstance;
+                if (!instance) return;
+
+                if (this.originalGetItemTitle) {
+                    instance.getItemTitle = this.originalGetItemTitle;
+                } else {
+                    // 原方法来自原型，删除实例上的覆盖即可
+                    delete instance.getItemTitle;
+                }
+
+                this.patchedInstance = null;
+                this.originalGetItemTitle = undefined;
+                instance.onItemsChanged?.(false);
+            },
+            'BookmarksView',
+            '恢复书签标题时发生错误',
+            ErrorCategory.UI,
+            ErrorLevel.ERROR
+        );
+    }
+}
@@ -0,0 +1,269 @@
+import { TFile, View } from 'obsidian';
+import { injectable, inject } from 'inversify';
+import { TYPES } from '../types/symbols';
+import type { TitleChangerPlugin } from '../main';
+import { CacheManager } from '../CacheManager';
+import { Logger } from '../utils/logger';
+import { ErrorManagerService, ErrorLevel } from '../services/ErrorManagerService';
+import { ErrorCategory } from '../utils/errors';
+import { logErrorsWithoutThrowing } from '../utils/ErrorHelpers';
+import { AbstractView } from './base/abstract-view';
+import { UpdateScheduler } from '../services/UpdateSchedulerService';
+import { UIStateManager } from '../services/UIStateManager';
+
+/**
+ * 白板中的节点（Obsidian 内部 API）
+ */
+interface CanvasNode {
+    file?: TFile;
+    nodeEl?: HTMLElement;
+}
+
+/**
+ * 白板视图（Obsidian 内部 API）
+ */
+interface CanvasFileView extends View {
+    canvas?: {
+        nodes?: Map<string, CanvasNode>;
+    };
+}
+
+/**
+ * 白板视图，负责将白板中文件卡片的标签替换为显示标题
+ */
+@injectable()
+export class CanvasView extends AbstractView {
+    private static readonly VIEW_ID = 'canvas-view';
+    private static readonly LABEL_SELECTOR = '.canvas-node-label';
+
+    // 已替换的标签元素及其显示标题
+    private processedLabels = new Map<HTMLElement, string>();
+    private observers = new Map<HTMLElement, MutationObserver>();
+
+    constructor(
+        @inject(TYPES.Plugin) plugin: TitleChangerPlugin,
+        @inject(TYPES.Logger) logger: Logger,
+        @inject(TYPES.ErrorManager) errorManager: ErrorManagerService,
+        @inject(TYPES.CacheManager) private cacheManager: CacheManager,
+        @inject(TYPES.UpdateScheduler) private updateScheduler: UpdateScheduler,
+        @inject(TYPES.UIStateManager) private uiStateManager: UIStateManager
+    ) {
+        super(plugin, logger, errorManager);
+    }
+
+    /**
+     * 初始化白板视图
+     */
+    initialize(): void {
+        this.logInfo(`[${CanvasView.VIEW_ID}] 正在初始化...`);
+
+        this.safeOperation(
+            () => {
+                const workspace = this.plugin.app.workspace;
+
+                this.plugin.registerEvent(workspace.on('file-open', () => this.updateView()));
+                this.plugin.registerEvent(workspace.on('layout-change', () => this.updateView()));
+
+                // 标题服务分发标题变更事件后，已替换的标签需要重新计算
+                this.plugin.registerEvent(workspace.on('title-changed', () => this.updateView()));
+
+                workspace.onLayoutReady(() => this.updateView());
+            },
+            'CanvasView',
+            '初始化白板视图失败',
+            ErrorCategory.LIFECYCLE,
+            ErrorLevel.ERROR,
+            { action: 'initialize' }
+        );
+
+        this.logInfo(`[${CanvasView.VIEW_ID}] 初始化完成`);
+    }
+
+    /**
+     * 卸载白板视图
+     */
+    unload(): void {
+        this.logInfo(`[${CanvasView.VIEW_ID}] 正在卸载...`);
+
+        this.updateScheduler.cancelScheduledUpdate(CanvasView.VIEW_ID);
+        this.disconnectObservers();
+        this.restoreOriginalLabels();
+
+        this.logInfo(`[${CanvasView.VIEW_ID}] 卸载完成`);
+    }
+
+    /**
+     * 更新所有白板
+     */
+    updateView(): void {
+        if (!this.enabled) {
+            this.logDebug(`[${CanvasView.VIEW_ID}] 视图已禁用，跳过更新`);
+            return;
+        }
+
+        // 白板节点进入可视区域时才渲染，使用更新调度器进行防抖处理
+        this.updateScheduler.scheduleUpdate(
+            CanvasView.VIEW_ID,
+            () => {
+                this.safeOperation(
+                    () => {
+                        // 清理已移除元素的记录
+                        this.processedLabels.forEach((_displayTitle, labelEl) => {
+                            if (!labelEl.isConnected) {
+                                this.processedLabels.delete(labelEl);
+                            }
+                        });
+
+                        const views = this.getCanvasViews();
+                        this.observeViews(views);
+                        views.forEach(view => this.processCanvas(view));
+                    },
+                    'CanvasView',
+                    '更新白板失败',
+                    ErrorCategory.UI,
+                    ErrorLevel.WARNING
+                );
+            },
+            150
+        );
+    }
+
+    /**
+     * 重写onEnable方法，在启用时立即刷新视图
+     */
+    protected override onEnable(): void {
+        super.onEnable();
+        this.logInfo(`[${CanvasView.VIEW_ID}] 视图已启用，立即刷新`);
+        this.updateView();
+    }
+
+    /**
+     * 重写onDisable方法，在禁用时恢复原始文件名
+     */
+    protected override onDisable(): void {
+        super.onDisable();
+        this.logInfo(`[${CanvasView.VIEW_ID}] 视图已禁用，恢复原始文件名`);
+
+        this.updateScheduler.cancelScheduledUpdate(CanvasView.VIEW_ID);
+        this.disconnectObservers();
+        this.restoreOriginalLabels();
+    }
+
+    /**
+     * 获取所有白板视图
+     */
+    private getCanvasViews(): CanvasFileView[] {
+        return this.plugin.app.workspace
+            .getLeavesOfType('canvas')
+            .map(leaf => leaf.view as CanvasFileView);
+    }
+
+    /**
+     * 监听白板内容变化，节点渲染后再次替换标签
+     * @param views 白板视图
+     */
+    private observeViews(views: CanvasFileView[]): void {
+        // 清理已关闭白板的观察器
+        this.observers.forEach((observer, containerEl) => {
+            if (!containerEl.isConnected) {
+                observer.disconnect();
+                this.observers.delete(containerEl);
+            }
+        });
+
+        views.forEach(view => {
+            if (this.observers.has(view.containerEl)) return;
+
+            const observer = new MutationObserver(() => this.updateView());
+            observer.observe(view.containerEl, { childList: true, subtree: true });
+            this.observers.set(view.containerEl, observer);
+        });
+    }
+
+    /**
+     * 替换白板中文件节点的标签
+     * @param view 白板视图
+     */
+    private processCanvas(view: CanvasFileView): void {
+        const nodes = view.canvas?.nodes;
+        if (!nodes) return;
+
+        nodes.forEach(node => {
+            if (!(node.file instanceof TFile) || !node.nodeEl) return;
+
+            const labelEl = node.nodeEl.querySelector<HTMLElement>(CanvasView.LABEL_SELECTOR);
+            if (labelEl) {
+                this.processLabel(labelEl, node.file);
+            }
+        });
+    }
+
+    /**
+     * 替换单个文件节点的标签
+     * @param labelEl 标签元素
+     * @param file 节点对应的文件
+     */
+    private processLabel(labelEl: HTMLElement, file: TFile): void {
+        logErrorsWithoutThrowing(
+            () => {
+                const current = labelEl.textContent ?? '';
+                if (this.uiStateManager.isPeekMode() && this.uiStateManager.getOriginalText(labelEl) === current) return;
+
+                // 已替换过且未被 Obsidian 重新渲染时，标签中是上一次的显示标题
+                const processed = this.processedLabels.get(labelEl);
+                const isReplaced = processed !== undefined && current === processed;
+                const original = isReplaced ? this.uiStateManager.getOriginalText(labelEl) ?? current : current;
+
+                const displayTitle = this.cacheManager.processFile(file) || original;
+                if (displayTitle === current) return;
+
+                if (displayTitle === original) {
+                    // 标题规则变化后不再需要替换
+                    this.uiStateManager.restoreOriginalText(labelEl);
+                    this.processedLabels.delete(labelEl);
+                    return;
+                }
+
+                this.uiStateManager.applyDisplayText(labelEl, original, displayTitle);
+                this.processedLabels.set(labelEl, displayTitle);
+            },
+            'CanvasView',
+            this.errorManager,
+            this.logger,
+            {
+                errorMessage: '替换白板节点标签失败',
+                category: ErrorCategory.UI,
+                level: ErrorLevel.DEBUG,
+                details: { path: file.path }
+            }
+        );
+    }
+
+    /**
+     * 断开所有观察器
+     */
+    private disconnectObservers(): void {
+        this.observers.forEach(observer => observer.disconnect());
+        this.observers.clear();
+    }
+
+    /**
+     * 恢复所有替换过的标签
+     */
+    private restoreOriginalLabels(): void {
+        this.safeOperation(
+            () => {
+                this.processedLabels.forEach((_displayTitle, labelEl) => {
+                    if (labelEl.isConnected) {
+                        this.uiStateManager.restoreOriginalText(labelEl);
+                    }
+                });
+                this.processedLabels.clear();
+            },
+            'CanvasView',
+            '恢复白板节点标签时发生错误',
+            ErrorCategory.UI,
+            ErrorLevel.ERROR
+        );
+    }
+}
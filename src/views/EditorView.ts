@@ -161,6 +161,7 @@ export class EditorLinkView extends AbstractView {
                     try {
                         // 获取编辑器DOM容器
                         const editorEl = getEditorContainer(leaf) || (leaf.view as MarkdownView).contentEl;
+                        const sourcePath = (leaf.view as MarkdownView).file?.path ?? '';
                         
                         // 查找所有可能的Wiki链接元素
                         const wikiLinkElements = editorEl.querySelectorAll('.cm-hmd-internal-link');
@@ -177,8 +178,8 @@ export class EditorLinkView extends AbstractView {
                                 linkText = linkText.split('|')[0].trim();
                             }
                             
-                            // 获取自定义标题
-                            const displayTitle = this.titleService.getDisplayTitle(linkText);
+                            // 获取自定义标题，按链接所在文件解析同名文件
+                            const displayTitle = this.titleService.getDisplayTitle(linkText, true, sourcePath);
                             
                             // 只有当有自定义标题且与原始文件名不同时才替换
                             if (displayTitle && displayTitle !== linkText) {
@@ -12,6 +12,7 @@ import { VirtualScrollManager } from '../managers/VirtualScrollManager';
 import { DOMObserverManager } from '../managers/DOMObserverManager';
 import { UpdateCoordinator } from '../managers/UpdateCoordinator';
 import { FileItemProcessor } from '../managers/FileItemProcessor';
+import { ExplorerSortManager } from '../managers/ExplorerSortManager';
 
 /**
  * 文件浏览器视图，作为各服务的协调器
@@ -30,7 +31,8 @@ export class ExplorerView extends AbstractView {
         @inject(TYPES.VirtualScrollManager) private virtualScrollManager: VirtualScrollManager,
         @inject(TYPES.DOMObserverManager) private domObserverManager: DOMObserverManager,
         @inject(TYPES.UpdateCoordinator) private updateCoordinator: UpdateCoordinator,
-        @inject(TYPES.FileItemProcessor) private fileItemProcessor: FileItemProcessor
+        @inject(TYPES.FileItemProcessor) private fileItemProcessor: FileItemProcessor,
+        @inject(TYPES.ExplorerSortManager) private explorerSortManager: ExplorerSortManager
     ) {
         super(plugin, logger, errorManager);
     }
@@ -62,6 +64,9 @@ export class ExplorerView extends AbstractView {
                 // 初始化文件项处理器
                 this.fileItemProcessor.initialize();
                 
+                // 初始化排序管理器
+                this.explorerSortManager.initialize();
+                
                 // 立即执行一次更新
                 this.updateCoordinator.immediateUpdate();
             },
@@ -118,6 +123,11 @@ export class ExplorerView extends AbstractView {
                 // 将更新逻辑委托给 FileItemProcessor
                 this.fileItemProcessor.processAllExplorers(this.plugin.settings.enabled);
                 
+                // 应用排序方式，插件禁用时恢复默认排序
+                this.explorerSortManager.applySortMode(
+                    this.plugin.settings.enabled ? this.plugin.settings.explorerSortMode : 'default'
+                );
+                
                 this.logDebug(`[${ExplorerView.VIEW_ID}] 视图更新完成`);
             },
             'ExplorerView',
@@ -146,6 +156,9 @@ export class ExplorerView extends AbstractView {
                 
                 // 清理文件项处理器
                 this.fileItemProcessor.unload();
+                
+                // 恢复默认排序
+                this.explorerSortManager.unload();
             },
             'ExplorerView',
             '卸载文件浏览器视图失败',
@@ -0,0 +1,274 @@
+import { MarkdownView, TFile } from 'obsidian';
+import { injectable, inject } from 'inversify';
+import { TYPES } from '../types/symbols';
+import type { TitleChangerPlugin } from '../main';
+import { CacheManager } from '../CacheManager';
+import { Logger } from '../utils/logger';
+import { ErrorManagerService, ErrorLevel } from '../services/ErrorManagerService';
+import { ErrorCategory } from '../utils/errors';
+import { logErrorsWithoutThrowing } from '../utils/ErrorHelpers';
+import { AbstractView } from './base/abstract-view';
+import { UpdateScheduler } from '../services/UpdateSchedulerService';
+import { UIStateManager } from '../services/UIStateManager';
+
+/**
+ * 链接面板视图，负责处理反向链接、出链和未链接提及面板中的文件标题
+ */
+@injectable()
+export class LinkPanesView extends AbstractView {
+    private static readonly VIEW_ID = 'link-panes-view';
+    private static readonly PANE_TYPES = ['backlink', 'outgoing-link'];
+    private static readonly FILE_TITLE_SELECTOR = '.search-result-file-title .tree-item-inner';
+
+    // 已替换的标题元素及其显示标题
+    private processedTitles = new Map<HTMLElement, string>();
+    private observers = new Map<HTMLElement, MutationObserver>();
+
+    constructor(
+        @inject(TYPES.Plugin) plugin: TitleChangerPlugin,
+        @inject(TYPES.Logger) logger: Logger,
+        @inject(TYPES.ErrorManager) errorManager: ErrorManagerService,
+        @inject(TYPES.CacheManager) private cacheManager: CacheManager,
+        @inject(TYPES.UpdateScheduler) private updateScheduler: UpdateScheduler,
+        @inject(TYPES.UIStateManager) private uiStateManager: UIStateManager
+    ) {
+        super(plugin, logger, errorManager);
+    }
+
+    /**
+     * 初始化链接面板视图
+     */
+    initialize(): void {
+        this.logInfo(`[${LinkPanesView.VIEW_ID}] 正在初始化...`);
+
+        this.safeOperation(
+            () => {
+                const workspace = this.plugin.app.workspace;
+
+                // 面板会在切换文件或布局变化时重新渲染
+                this.plugin.registerEvent(workspace.on('file-open', () => this.updateView()));
+                this.plugin.registerEvent(workspace.on('layout-change', () => this.updateView()));
+                this.plugin.registerEvent(workspace.on('title-changed', () => this.updateView()));
+
+                workspace.onLayoutReady(() => this.updateView());
+            },
+            'LinkPanesView',
+            '初始化链接面板视图失败',
+            ErrorCategory.LIFECYCLE,
+            ErrorLevel.ERROR,
+            { action: 'initialize' }
+        );
+
+        this.logInfo(`[${LinkPanesView.VIEW_ID}] 初始化完成`);
+    }
+
+    /**
+     * 卸载链接面板视图
+     */
+    unload(): void {
+        this.logInfo(`[${LinkPanesView.VIEW_ID}] 正在卸载...`);
+
+        this.updateScheduler.cancelScheduledUpdate(LinkPanesView.VIEW_ID);
+        this.disconnectObservers();
+        this.restoreOriginalTitles();
+
+        this.logInfo(`[${LinkPanesView.VIEW_ID}] 卸载完成`);
+    }
+
+    /**
+     * 更新所有链接面板
+     */
+    updateView(): void {
+        if (!this.enabled) {
+            this.logDebug(`[${LinkPanesView.VIEW_ID}] 视图已禁用，跳过更新`);
+            return;
+        }
+
+        // 面板内容异步渲染，使用更新调度器进行防抖处理
+        this.updateScheduler.scheduleUpdate(
+            LinkPanesView.VIEW_ID,
+            () => {
+                this.safeOperation(
+                    () => {
+                        // 清理已移除元素的记录
+                        this.processedTitles.forEach((_displayTitle, titleEl) => {
+                            if (!titleEl.isConnected) {
+                                this.processedTitles.delete(titleEl);
+                            }
+                        });
+
+                        const panes = this.getPaneContainers();
+                        this.observeContainers(panes.map(pane => pane.container));
+                        panes.forEach(pane => this.processContainer(pane.container, pane.sourcePath));
+                    },
+                    'LinkPanesView',
+                    '更新链接面板失败',
+                    ErrorCategory.UI,
+                    ErrorLevel.WARNING
+                );
+            },
+            150
+        );
+    }
+
+    /**
+     * 重写onEnable方法，在启用时立即刷新视图
+     */
+    protected override onEnable(): void {
+        super.onEnable();
+        this.logInfo(`[${LinkPanesView.VIEW_ID}] 视图已启用，立即刷新`);
+        this.updateView();
+    }
+
+    /**
+     * 重写onDisable方法，在禁用时恢复原始文件名
+     */
+    protected override onDisable(): void {
+        super.onDisable();
+        this.logInfo(`[${LinkPanesView.VIEW_ID}] 视图已禁用，恢复原始文件名`);
+
+        this.updateScheduler.cancelScheduledUpdate(LinkPanesView.VIEW_ID);
+        this.disconnectObservers();
+        this.restoreOriginalTitles();
+    }
+
+    /**
+     * 获取反向链接、出链面板以及笔记底部的反向链接区域
+     * @returns 面板容器及面板所属笔记的路径，用于解析同名文件
+     */
+    private getPaneContainers(): Array<{ container: HTMLElement; sourcePath: string }> {
+        const workspace = this.plugin.app.workspace;
+        const activePath = workspace.getActiveFile()?.path ?? '';
+        const panes: Array<{ container: HTMLElement; sourcePath: string }> = [];
+
+        LinkPanesView.PANE_TYPES.forEach(type => {
+            workspace.getLeavesOfType(type).forEach(leaf => {
+                // 反向链接和出链面板跟随的笔记，未跟随时为当前笔记
+                const file = (leaf.view as unknown as { file?: TFile | null }).file;
+                panes.push({ container: leaf.view.containerEl, sourcePath: file?.path ?? activePath });
+            });
+        });
+
+        workspace.getLeavesOfType('markdown').forEach(leaf => {
+            if (leaf.view instanceof MarkdownView) {
+                const sourcePath = leaf.view.file?.path ?? activePath;
+                leaf.view.containerEl
+                    .querySelectorAll<HTMLElement>('.embedded-backlinks')
+                    .forEach(el => panes.push({ container: el, sourcePath }));
+            }
+        });
+
+        return panes;
+    }
+
+    /**
+     * 监听面板内容变化，面板重新渲染后再次替换标题
+     * @param containers 面板容器
+     */
+    private observeContainers(containers: HTMLElement[]): void {
+        // 清理已关闭面板的观察器
+        this.observers.forEach((observer, container) => {
+            if (!container.isConnected) {
+                observer.disconnect();
+                this.observers.delete(container);
+            }
+        });
+
+        containers.forEach(container => {
+            if (this.observers.has(container)) return;
+
+            const observer = new MutationObserver(() => this.updateView());
+            observer.observe(container, { childList: true, subtree: true });
+            this.observers.set(container, observer);
+        });
+    }
+
+    /**
+     * 替换面板中的文件标题
+     * @param container 面板容器
+     * @param sourcePath 面板所属笔记的路径
+     */
+    private processContainer(container: HTMLElement, sourcePath: string): void {
+        container.querySelectorAll<HTMLElement>(LinkPanesView.FILE_TITLE_SELECTOR).forEach(titleEl => {
+            logErrorsWithoutThrowing(
+                () => {
+                    const current = titleEl.textContent ?? '';
+                    if (this.uiStateManager.isPeekMode() && this.uiStateManager.getOriginalText(titleEl) === current) return;
+
+                    // 已替换过且未被 Obsidian 重新渲染时，元素中是上一次的显示标题，需按原始文件名查找文件
+                    const processed = this.processedTitles.get(titleEl);
+                    const isReplaced = processed !== undefined && current === processed;
+                    const original = isReplaced ? this.uiStateManager.getOriginalText(titleEl) ?? current : current;
+
+                    const file = this.resolveFile(original, sourcePath);
+                    if (!file) return;
+
+                    const title = this.cacheManager.processFile(file);
+                    const displayTitle = title && title !== file.basename ? title : original;
+                    if (displayTitle === current) return;
+
+                    if (displayTitle === original) {
+                        // 标题被移除或规则变化后不再需要替换
+                        this.uiStateManager.restoreOriginalText(titleEl);
+                        this.processedTitles.delete(titleEl);
+                        return;
+                    }
+
+                    this.uiStateManager.applyDisplayText(titleEl, original, displayTitle);
+                    this.processedTitles.set(titleEl, displayTitle);
+                },
+                'LinkPanesView',
+                this.errorManager,
+                this.logger,
+                {
+                    errorMessage: '替换链接面板标题失败',
+                    category: ErrorCategory.UI,
+                    level: ErrorLevel.DEBUG
+                }
+            );
+        });
+    }
+
+    /**
+     * 根据面板中显示的文件名或路径查找文件
+     * 相对于面板所属的笔记解析，与 Obsidian 解析链接的规则一致
+     * @param text 面板中显示的文本
+     * @param sourcePath 面板所属笔记的路径
+     * @returns 对应的文件
+     */
+    private resolveFile(text: string, sourcePath: string): TFile | null {
+        const linkpath = text.trim();
+        if (!linkpath) return null;
+
+        const file = this.plugin.app.metadataCache.getFirstLinkpathDest(linkpath, sourcePath);
+        return file instanceof TFile ? file : null;
+    }
+
+    /**
+     * 断开所有观察器
+     */
+    private disconnectObservers(): void {
+        this.observers.forEach(observer => observer.disconnect());
+        this.observers.clear();
+    }
+
+    /**
+     * 恢复所有替换过的标题
+     */
+    private restoreOriginalTitles(): void {
+        this.safeOperation(
+            () => {
+                this.processedTitles.forEach((_displayTitle, titleEl) => {
+                    if (titleEl.isConnected) {
+                        this.uiStateManager.restoreOriginalText(titleEl);
+                    }
+                });
+                this.processedTitles.clear();
+            },
+            'LinkPanesView',
+            '恢复链接面板标题时发生错误',
+            ErrorCategory.UI,
+            ErrorLevel.ERROR
+        );
+    }
+}
@@ -1,8 +1,10 @@
-import { App, MarkdownView, Events } from 'obsidian';
+import { App, MarkdownView, Events, TFile } from 'obsidian';
 import { inject, injectable } from 'inversify';
 import { TYPES } from '../types/symbols';
 import { AbstractView } from './base/abstract-view';
 import { TitleService } from '../services/TitleService';
+import { UIStateManager } from '../services/UIStateManager';
+import { FileRenameService } from '../services/FileRenameService';
 import type { Logger } from '../utils/logger';
 import type { TitleChangerSettings } from '../settings';
 import type { IEventBusService } from '../types/ObsidianExtensions';
@@ -25,6 +27,8 @@ export class MarkdownViewManager extends AbstractView {
         @inject(TYPES.TitleService) private titleService: TitleService,
         @inject(TYPES.Settings) private settings: TitleChangerSettings,
         @inject(TYPES.EventBusService) private eventBus: IEventBusService,
+        @inject(TYPES.UIStateManager) private uiStateManager: UIStateManager,
+        @inject(TYPES.FileRenameService) private fileRenameService: FileRenameService,
         @inject(TYPES.Logger) logger: Logger,
         @inject(TYPES.ErrorManager) errorManager: ErrorManagerService
     ) {
@@ -112,7 +116,7 @@ export class MarkdownViewManager extends AbstractView {
                     const view = leaf.view as MarkdownView;
                     if (view && view.file) {
                         // 获取文件的自定义标题
-                        const title = this.titleService.getDisplayTitle(view.file.basename, false);
+                        const title = this.titleService.getDisplayTitle(view.file.path, false);
                         
                         if (title) {
                             this.setCustomTitle(view, title);
@@ -154,9 +158,14 @@ export class MarkdownViewManager extends AbstractView {
                     return;
                 }
                 
+                // 正在编辑标题时不覆盖用户输入
+                if (titleEl?.isContentEditable) {
+                    return;
+                }
+                
                 // 创建或更新标题元素
                 titleEl = titleEl || this.createCustomTitleElement(view, container);
-                titleEl.innerText = title;
+                this.uiStateManager.applyDisplayText(titleEl, view.file!.basename, title);
                 titleEl.hidden = false;
                 
                 // 隐藏原始标题
@@ -247,8 +256,19 @@ export class MarkdownViewManager extends AbstractView {
                 el.className = "view-header-title";
                 el.dataset.titleChanger = "true";
                 
-                // 添加点击事件，点击后可以编辑原始标题
+                // 添加点击事件，标题可以反推为文件名时直接编辑显示标题，否则编辑原始标题
                 el.onclick = () => {
+                    if (el.isContentEditable) return;
+                    
+                    const file = view.file;
+                    const editableTitle = file && !this.uiStateManager.isPeekMode()
+                        ? this.fileRenameService.getEditableTitle(file)
+                        : null;
+                    if (file && editableTitle !== null) {
+                        this.startTitleEditing(el, file, editableTitle);
+                        return;
+                    }
+                    
                     el.hidden = true;
                     
                     // 显示原始标题
@@ -277,4 +297,74 @@ export class MarkdownViewManager extends AbstractView {
             { action: 'createCustomTitleElement' }
         ) || document.createElement("div");
     }
-} 
\ No newline at end of file
+    
+    /**
+     * 编辑显示标题，完成后将标题代回文件名并重命名文件
+     * 编辑的是规则生成的未经后处理的标题，按 Enter 确认，按 Esc 或标题未变化时恢复原标题
+     * @param el 自定义标题元素
+     * @param file 标题所属的文件
+     * @param editableTitle 未经后处理的标题
+     */
+    private startTitleEditing(el: HTMLElement, file: TFile, editableTitle: string): void {
+        this.safeOperation(
+            () => {
+                const originalTitle = el.textContent ?? '';
+                let cancelled = false;
+                
+                el.textContent = editableTitle;
+                el.contentEditable = 'plaintext-only';
+                el.addClass('is-editing');
+                el.focus();
+                
+                // 选中全部文本，便于直接输入新标题
+                const selection = window.getSelection();
+                if (selection) {
+                    const range = document.createRange();
+                    range.selectNodeContents(el);
+                    selection.removeAllRanges();
+                    selection.addRange(range);
+                }
+                
+                el.onkeydown = (event: KeyboardEvent) => {
+                    if (event.key === 'Enter') {
+                        event.preventDefault();
+                        el.blur();
+                    } else if (event.key === 'Escape') {
+                        event.preventDefault();
+                        cancelled = true;
+                        el.blur();
+                    }
+                };
+                
+                el.onblur = () => {
+                    el.contentEditable = 'false';
+                    el.removeClass('is-editing');
+                    el.onkeydown = null;
+                    el.onblur = null;
+                    
+                    const title = (el.textContent ?? '').trim();
+                    if (cancelled || title === '' || title === editableTitle) {
+                        el.textContent = originalTitle;
+                        return;
+                    }
+                    
+                    void this.fileRenameService.renameFromTitle(file, title).then(renamed => {
+                        if (!renamed) {
+                            el.textContent = originalTitle;
+                            return;
+                        }
+                        
+                        // 记录新的原始文件名，再按新文件名重新计算标题（后处理可能改变输入的文本）
+                        this.uiStateManager.applyDisplayText(el, file.basename, title);
+                        this.updateView();
+                    });
+                };
+            },
+            'MarkdownViewManager',
+            '编辑显示标题失败',
+            ErrorCategory.UI,
+            ErrorLevel.WARNING,
+            { action: 'startTitleEditing', file: file.path }
+        );
+    }
+}
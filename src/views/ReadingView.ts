@@ -21,15 +21,27 @@ import { AbstractView } from './base/abstract-view';
 import { TitleService } from '../services/TitleService';
 import { FileService } from '../services/FileService';
 import { UpdateScheduler } from '../services/UpdateSchedulerService';
+import { UIStateManager } from '../services/UIStateManager';
+import { LinkTransformerService } from '../services/LinkTransformerService';
+import { parseLinkTarget, getDefaultLinkText, formatLinkTitle } from '../utils/WikiLinkProcessor';
+import { decodeLinkPath, isFileNameLinkText } from '../utils/MarkdownLinkProcessor';
 
 /**
  * 阅读视图组件，负责处理预览模式中的标题显示
+ * 同时处理嵌入笔记的标题和悬停预览窗口中的标题
  */
 @injectable()
 export class ReadingView extends AbstractView {
     private static readonly VIEW_ID = 'reading-view';
+    private static readonly POPOVER_SELECTOR = '.hover-popover';
     private updateTimer: number | null = null;
 
+    // 悬停预览窗口及其内容观察器
+    private popoverObservers = new Map<HTMLElement, MutationObserver>();
+    private bodyObserver: MutationObserver | null = null;
+    // 悬停预览窗口中的原始标题及替代显示的标题元素
+    private popoverTitles = new Map<HTMLElement, HTMLElement>();
+
     constructor(
         @inject(TYPES.Plugin) plugin: TitleChangerPlugin,
         @inject(TYPES.Logger) logger: Logger,
@@ -37,7 +49,9 @@ export class ReadingView extends AbstractView {
         @inject(TYPES.CacheManager) private cacheManager: CacheManager,
         @inject(TYPES.TitleService) private titleService: TitleService,
         @inject(TYPES.FileService) private fileService: FileService,
-        @inject(TYPES.UpdateScheduler) private updateScheduler: UpdateScheduler
+        @inject(TYPES.UpdateScheduler) private updateScheduler: UpdateScheduler,
+        @inject(TYPES.UIStateManager) private uiStateManager: UIStateManager,
+        @inject(TYPES.LinkTransformerService) private linkTransformer: LinkTransformerService
     ) {
         super(plugin, logger, errorManager);
     }
@@ -101,6 +115,9 @@ export class ReadingView extends AbstractView {
                     })
                 );
 
+                // 悬停预览窗口直接添加到 body 中
+                this.observePopovers();
+
                 // 初始化时更新一次
                 this.updateView();
             },
@@ -123,6 +140,13 @@ export class ReadingView extends AbstractView {
         // 取消所有调度的更新
         this.updateScheduler.cancelScheduledUpdate(`${ReadingView.VIEW_ID}-layout`);
         this.updateScheduler.cancelScheduledUpdate(ReadingView.VIEW_ID);
+        this.updateScheduler.cancelScheduledUpdate(`${ReadingView.VIEW_ID}-popover`);
+        
+        this.bodyObserver?.disconnect();
+        this.bodyObserver = null;
+        this.restorePopovers();
+        this.popoverObservers.forEach(observer => observer.disconnect());
+        this.popoverObservers.clear();
         
         this.logInfo(`[${ReadingView.VIEW_ID}] 卸载完成`);
     }
@@ -149,6 +173,9 @@ export class ReadingView extends AbstractView {
                         const activeLeaf = this.plugin.app.workspace.getActiveViewOfType(MarkdownView);
                         if (!activeLeaf) return;
                         
+                        // 阅读模式和实时预览中都可能有嵌入笔记
+                        this.linkTransformer.processEmbedTitles(activeLeaf.contentEl, activeLeaf.file?.path);
+                        
                         // 检查是否处于阅读模式
                         if (activeLeaf.getMode() !== 'preview') return;
 
@@ -157,7 +184,7 @@ export class ReadingView extends AbstractView {
                         if (!previewEl) return;
 
                         // 处理预览模式中的所有链接
-                        this.processPreviewLinks(previewEl);
+                        this.processPreviewLinks(previewEl, activeLeaf.file?.path ?? '');
                     },
                     'ReadingView',
                     100, // 性能阈值(ms)
@@ -171,8 +198,10 @@ export class ReadingView extends AbstractView {
 
     /**
      * 处理预览模式中的所有链接
+     * @param containerEl 预览容器
+     * @param sourcePath 当前文件的路径，用于解析相对链接和同名文件
      */
-    private processPreviewLinks(containerEl: HTMLElement): void {
+    private processPreviewLinks(containerEl: HTMLElement, sourcePath: string): void {
         this.safeOperation(
             () => {
                 // 使用DOM助手函数查找所有内部链接
@@ -220,12 +249,24 @@ export class ReadingView extends AbstractView {
                             
                             if (isProcessed) return;
                             
-                            // 使用TitleService获取显示标题
-                            const displayTitle = this.titleService.getDisplayTitle(originalFileName);
+                            // 使用了别名的链接显示的不是默认文本，保持不变
+                            const target = parseLinkTarget(decodeLinkPath(originalFileName));
+                            if (!target.fileName) return;
                             
-                            if (displayTitle && displayTitle !== originalFileName) {
-                                // 更新链接显示文本
-                                (linkEl as HTMLElement).textContent = displayTitle;
+                            // Markdown链接的文本是文件名（可带扩展名或路径）时同样替换，自定义文本保持不变
+                            const isDefaultText = linkEl.textContent === getDefaultLinkText(target);
+                            if (!isDefaultText && !isFileNameLinkText(linkEl.textContent ?? '', target.fileName)) return;
+                            
+                            // 使用TitleService获取显示标题，Markdown链接没有标题时保持原文
+                            const fileTitle = this.titleService.getDisplayTitle(target.fileName, isDefaultText, sourcePath);
+                            
+                            if (fileTitle && fileTitle !== target.fileName) {
+                                // 更新链接显示文本，标题链接显示为"显示标题 › 标题"
+                                this.uiStateManager.applyDisplayText(
+                                    linkEl,
+                                    linkEl.textContent ?? '',
+                                    formatLinkTitle(fileTitle, target.subPath)
+                                );
                                 
                                 // 保留原始文本作为提示
                                 (linkEl as HTMLElement).title = originalFileName;
@@ -270,6 +311,152 @@ export class ReadingView extends AbstractView {
         );
     }
 
+    /**
+     * 监听悬停预览窗口的创建
+     */
+    private observePopovers(): void {
+        this.bodyObserver?.disconnect();
+        this.bodyObserver = new MutationObserver(mutations => {
+            if (!this.enabled) return;
+
+            mutations.forEach(mutation => {
+                mutation.addedNodes.forEach(node => {
+                    if (node instanceof HTMLElement && node.matches(ReadingView.POPOVER_SELECTOR)) {
+                        this.watchPopover(node);
+                    }
+                });
+            });
+        });
+        this.bodyObserver.observe(document.body, { childList: true });
+    }
+
+    /**
+     * 监听悬停预览窗口的内容，预览内容异步渲染
+     * @param popoverEl 悬停预览窗口
+     */
+    private watchPopover(popoverEl: HTMLElement): void {
+        if (!this.popoverObservers.has(popoverEl)) {
+            const observer = new MutationObserver(() => this.schedulePopoverUpdate());
+            observer.observe(popoverEl, { childList: true, subtree: true });
+            this.popoverObservers.set(popoverEl, observer);
+        }
+        this.schedulePopoverUpdate();
+    }
+
+    /**
+     * 延迟处理所有悬停预览窗口
+     */
+    private schedulePopoverUpdate(): void {
+        this.updateScheduler.scheduleUpdate(
+            `${ReadingView.VIEW_ID}-popover`,
+            () => this.processPopovers(),
+            50
+        );
+    }
+
+    /**
+     * 处理所有悬停预览窗口中的标题
+     */
+    private processPopovers(): void {
+        if (!this.enabled) return;
+
+        this.safeOperation(
+            () => {
+                // 清理已关闭的预览窗口
+                this.popoverObservers.forEach((observer, popoverEl) => {
+                    if (!popoverEl.isConnected) {
+                        observer.disconnect();
+                        this.popoverObservers.delete(popoverEl);
+                    }
+                });
+                this.popoverTitles.forEach((_customEl, titleEl) => {
+                    if (!titleEl.isConnected) {
+                        this.popoverTitles.delete(titleEl);
+                    }
+                });
+
+                this.popoverObservers.forEach((_observer, popoverEl) => {
+                    this.linkTransformer.processEmbedTitles(popoverEl);
+                    querySelectorAll(
+                        popoverEl,
+                        '.inline-title:not([data-title-changer])',
+                        'ReadingView',
+                        this.errorManager,
+                        this.logger
+                    ).forEach(titleEl => this.processPopoverTitle(titleEl as HTMLElement));
+                });
+            },
+            'ReadingView',
+            '处理悬停预览标题失败',
+            ErrorCategory.UI,
+            ErrorLevel.WARNING
+        );
+    }
+
+    /**
+     * 处理悬停预览窗口中的笔记标题
+     * 原标题可编辑，编辑后会重命名文件，因此隐藏原标题并显示替代元素
+     * @param titleEl 原标题元素
+     */
+    private processPopoverTitle(titleEl: HTMLElement): void {
+        logErrorsWithoutThrowing(
+            () => {
+                const originalText = titleEl.textContent?.trim() ?? '';
+                const file = originalText
+                    ? this.plugin.app.metadataCache.getFirstLinkpathDest(originalText, '')
+                    : null;
+                const displayTitle = file instanceof TFile ? this.cacheManager.processFile(file) : null;
+
+                let customEl = this.popoverTitles.get(titleEl);
+                if (!displayTitle || displayTitle === originalText) {
+                    // 标题不再需要替换
+                    if (customEl) {
+                        customEl.remove();
+                        titleEl.hidden = false;
+                        this.popoverTitles.delete(titleEl);
+                    }
+                    return;
+                }
+
+                if (!customEl) {
+                    customEl = document.createElement('div');
+                    customEl.className = titleEl.className;
+                    customEl.setAttribute('data-title-changer', 'true');
+                    titleEl.before(customEl);
+                    this.popoverTitles.set(titleEl, customEl);
+                }
+
+                this.uiStateManager.applyDisplayText(customEl, originalText, displayTitle);
+                titleEl.hidden = true;
+            },
+            'ReadingView',
+            this.errorManager,
+            this.logger,
+            {
+                errorMessage: '替换悬停预览标题失败',
+                category: ErrorCategory.UI,
+                level: ErrorLevel.DEBUG
+            }
+        );
+    }
+
+    /**
+     * 恢复悬停预览窗口中的原始标题
+     */
+    private restorePopovers(): void {
+        this.popoverTitles.forEach((customEl, titleEl) => {
+            customEl.remove();
+            titleEl.hidden = false;
+        });
+        this.popoverTitles.clear();
+
+        this.popoverObservers.forEach((_observer, popoverEl) => {
+            if (popoverEl.isConnected) {
+                this.linkTransformer.restoreEmbedTitles(popoverEl);
+            }
+        });
+    }
+
     /**
      * 重写onEnable方法，在启用时立即刷新视图
      */
@@ -298,6 +485,14 @@ export class ReadingView extends AbstractView {
     private restoreOriginalTitles(): void {
         this.safeOperation(
             () => {
+                // 恢复所有笔记和悬停预览窗口中的嵌入标题
+                this.plugin.app.workspace.getLeavesOfType('markdown').forEach(leaf => {
+                    if (leaf.view instanceof MarkdownView) {
+                        this.linkTransformer.restoreEmbedTitles(leaf.view.contentEl);
+                    }
+                });
+                this.restorePopovers();
+
                 // 获取当前活动叶子
                 const activeLeaf = this.plugin.app.workspace.getActiveViewOfType(MarkdownView);
                 if (!activeLeaf) return;
@@ -330,10 +525,14 @@ export class ReadingView extends AbstractView {
                                 this.logger
                             );
                             
-                            if (originalFileName) {
+                            // 优先恢复替换前的链接文本，标题链接的默认文本与文件名不同
+                            const restored = this.uiStateManager.restoreOriginalText(linkEl);
+                            if (!restored && originalFileName) {
                                 // 恢复原始文件名作为显示文本
                                 (linkEl as HTMLElement).textContent = originalFileName;
-                                
+                            }
+                            
+                            if (restored || originalFileName) {
                                 // 移除已处理标记
                                 (linkEl as HTMLElement).removeAttribute('data-title-processed');
                             }
@@ -0,0 +1,356 @@
+import { TFile, View } from 'obsidian';
+import { injectable, inject } from 'inversify';
+import { TYPES } from '../types/symbols';
+import type { TitleChangerPlugin } from '../main';
+import type { IDOMSelectorService } from '../types/ObsidianExtensions';
+import { CacheManager } from '../CacheManager';
+import { Logger } from '../utils/logger';
+import { ErrorManagerService, ErrorLevel } from '../services/ErrorManagerService';
+import { ErrorCategory, UIError } from '../utils/errors';
+import { logErrorsWithoutThrowing } from '../utils/ErrorHelpers';
+import { AbstractView } from './base/abstract-view';
+import { UpdateScheduler } from '../services/UpdateSchedulerService';
+import { UIStateManager } from '../services/UIStateManager';
+
+/**
+ * 搜索结果中单个文件的 DOM（Obsidian 内部 API）
+ */
+interface SearchResultDom {
+    el: HTMLElement;
+}
+
+/**
+ * 搜索视图（Obsidian 内部 API）
+ * resultDomLookup 记录了每个结果对应的文件，可以准确区分同名文件
+ */
+interface SearchView extends View {
+    dom?: {
+        resultDomLookup?: Map<TFile, SearchResultDom>;
+    };
+}
+
+/**
+ * 已替换的搜索结果标题
+ */
+interface ProcessedSearchTitle {
+    displayTitle: string;
+    // 替换前的悬停提示，恢复时写回
+    ariaLabel: string | null;
+}
+
+/**
+ * 搜索结果视图，负责将全局搜索结果中的文件标题替换为显示标题
+ * 悬停时显示文件的原始路径
+ */
+@injectable()
+export class SearchResultsView extends AbstractView {
+    private static readonly VIEW_ID = 'search-results-view';
+
+    private processedTitles = new Map<HTMLElement, ProcessedSearchTitle>();
+    private observers = new Map<HTMLElement, MutationObserver>();
+    // 选择器失效的警告只记录一次，避免刷屏
+    private selectorWarningLogged = false;
+
+    constructor(
+        @inject(TYPES.Plugin) plugin: TitleChangerPlugin,
+        @inject(TYPES.Logger) logger: Logger,
+        @inject(TYPES.ErrorManager) errorManager: ErrorManagerService,
+        @inject(TYPES.CacheManager) private cacheManager: CacheManager,
+        @inject(TYPES.UpdateScheduler) private updateScheduler: UpdateScheduler,
+        @inject(TYPES.UIStateManager) private uiStateManager: UIStateManager,
+        @inject(TYPES.DOMSelectorService) private domSelector: IDOMSelectorService
+    ) {
+        super(plugin, logger, errorManager);
+    }
+
+    /**
+     * 初始化搜索结果视图
+     */
+    initialize(): void {
+        this.logInfo(`[${SearchResultsView.VIEW_ID}] 正在初始化...`);
+
+        this.safeOperation(
+            () => {
+                const workspace = this.plugin.app.workspace;
+
+                // 搜索面板打开或布局变化时重新查找面板
+                this.plugin.registerEvent(workspace.on('layout-change', () => this.updateView()));
+                this.plugin.registerEvent(workspace.on('title-changed', () => this.updateView()));
+
+                workspace.onLayoutReady(() => this.updateView());
+            },
+            'SearchResultsView',
+            '初始化搜索结果视图失败',
+            ErrorCategory.LIFECYCLE,
+            ErrorLevel.ERROR,
+            { action: 'initialize' }
+        );
+
+        this.logInfo(`[${SearchResultsView.VIEW_ID}] 初始化完成`);
+    }
+
+    /**
+     * 卸载搜索结果视图
+     */
+    unload(): void {
+        this.logInfo(`[${SearchResultsView.VIEW_ID}] 正在卸载...`);
+
+        this.updateScheduler.cancelScheduledUpdate(SearchResultsView.VIEW_ID);
+        this.disconnectObservers();
+        this.restoreOriginalTitles();
+
+        this.logInfo(`[${SearchResultsView.VIEW_ID}] 卸载完成`);
+    }
+
+    /**
+     * 更新所有搜索面板
+     */
+    updateView(): void {
+        if (!this.enabled) {
+            this.logDebug(`[${SearchResultsView.VIEW_ID}] 视图已禁用，跳过更新`);
+            return;
+        }
+
+        // 搜索结果分批渲染，使用更新调度器进行防抖处理
+        this.updateScheduler.scheduleUpdate(
+            SearchResultsView.VIEW_ID,
+            () => {
+                this.safeOperation(
+                    () => {
+                        // 清理已移除元素的记录
+                        this.processedTitles.forEach((_processed, titleEl) => {
+                            if (!titleEl.isConnected) {
+                                this.processedTitles.delete(titleEl);
+                            }
+                        });
+
+                        const panes = this.domSelector.getSearchPanes();
+                        this.observePanes(panes);
+                        panes.forEach(pane => this.processPane(pane));
+                    },
+                    'SearchResultsView',
+                    '更新搜索结果失败',
+                    ErrorCategory.UI,
+                    ErrorLevel.WARNING
+                );
+            },
+            150
+        );
+    }
+
+    /**
+     * 重写onEnable方法，在启用时立即刷新视图
+     */
+    protected override onEnable(): void {
+        super.onEnable();
+        this.logInfo(`[${SearchResultsView.VIEW_ID}] 视图已启用，立即刷新`);
+        this.updateView();
+    }
+
+    /**
+     * 重写onDisable方法，在禁用时恢复原始文件名
+     */
+    protected override onDisable(): void {
+        super.onDisable();
+        this.logInfo(`[${SearchResultsView.VIEW_ID}] 视图已禁用，恢复原始文件名`);
+
+        this.updateScheduler.cancelScheduledUpdate(SearchResultsView.VIEW_ID);
+        this.disconnectObservers();
+        this.restoreOriginalTitles();
+    }
+
+    /**
+     * 监听搜索面板内容变化，搜索结果更新后再次替换标题
+     * @param panes 搜索面板
+     */
+    private observePanes(panes: HTMLElement[]): void {
+        // 清理已关闭面板的观察器
+        this.observers.forEach((observer, pane) => {
+            if (!pane.isConnected) {
+                observer.disconnect();
+                this.observers.delete(pane);
+            }
+        });
+
+        panes.forEach(pane => {
+            if (this.observers.has(pane)) return;
+
+            const observer = new MutationObserver(() => this.updateView());
+            observer.observe(pane, { childList: true, subtree: true });
+            this.observers.set(pane, observer);
+        });
+    }
+
+    /**
+     * 替换搜索面板中的文件标题
+     * @param pane 搜索面板
+     */
+    private processPane(pane: HTMLElement): void {
+        const lookup = this.getResultLookup(pane);
+        let titles = this.domSelector.getSearchResultTitles(pane);
+
+        // 有搜索结果却找不到标题，说明 Obsidian 的界面结构发生了变化
+        if (titles.length === 0 && this.hasResults(pane, lookup)) {
+            this.domSelector.refreshSelectors();
+            titles = this.domSelector.getSearchResultTitles(pane);
+
+            if (titles.length === 0) {
+                this.warnSelectorMismatch();
+                return;
+            }
+        }
+
+        titles.forEach(titleEl => {
+            logErrorsWithoutThrowing(
+                () => {
+                    const current = titleEl.textContent ?? '';
+                    if (this.uiStateManager.isPeekMode() && this.uiStateManager.getOriginalText(titleEl) === current) return;
+
+                    // 已替换过且未被 Obsidian 重新渲染时，元素中是上一次的显示标题，需按原始文件名查找文件
+                    const processed = this.processedTitles.get(titleEl);
+                    const isReplaced = processed !== undefined && current === processed.displayTitle;
+                    const original = isReplaced ? this.uiStateManager.getOriginalText(titleEl) ?? current : current;
+
+                    const file = this.findFileForTitle(titleEl, original, lookup);
+                    if (!file) return;
+
+                    const title = this.cacheManager.processFile(file);
+                    const displayTitle = title && title !== file.basename ? title : original;
+                    if (displayTitle === current) return;
+
+                    if (displayTitle === original) {
+                        // 标题被移除或规则变化后不再需要替换
+                        if (processed) this.restoreTitle(titleEl, processed);
+                        this.processedTitles.delete(titleEl);
+                        return;
+                    }
+
+                    this.uiStateManager.applyDisplayText(titleEl, original, displayTitle);
+                    this.processedTitles.set(titleEl, {
+                        displayTitle,
+                        ariaLabel: processed ? processed.ariaLabel : titleEl.getAttribute('aria-label')
+                    });
+                    titleEl.setAttribute('aria-label', file.path);
+                },
+                'SearchResultsView',
+                this.errorManager,
+                this.logger,
+                {
+                    errorMessage: '替换搜索结果标题失败',
+                    category: ErrorCategory.UI,
+                    level: ErrorLevel.DEBUG
+                }
+            );
+        });
+    }
+
+    /**
+     * 获取搜索视图中结果与文件的对应关系
+     * @param pane 搜索面板
+     * @returns 结果元素到文件的映射，当前版本不支持时返回空映射
+     */
+    private getResultLookup(pane: HTMLElement): Map<HTMLElement, TFile> {
+        const lookup = new Map<HTMLElement, TFile>();
+
+        this.plugin.app.workspace.getLeavesOfType('search').forEach(leaf => {
+            const view = leaf.view as SearchView;
+            if (view.containerEl !== pane) return;
+
+            view.dom?.resultDomLookup?.forEach((resultDom, file) => {
+                if (file instanceof TFile && resultDom?.el) {
+                    lookup.set(resultDom.el, file);
+                }
+            });
+        });
+
+        return lookup;
+    }
+
+    /**
+     * 查找标题对应的文件
+     * 优先使用搜索视图记录的结果，否则按标题文本解析
+     * @param titleEl 标题元素
+     * @param text 标题文本
+     * @param lookup 结果元素到文件的映射
+     */
+    private findFileForTitle(titleEl: HTMLElement, text: string, lookup: Map<HTMLElement, TFile>): TFile | null {
+        for (let el = titleEl.parentElement; el; el = el.parentElement) {
+            const file = lookup.get(el);
+            if (file) return file;
+        }
+
+        const linkpath = text.trim();
+        if (!linkpath) return null;
+
+        const file = this.plugin.app.metadataCache.getFirstLinkpathDest(linkpath, '');
+        return file instanceof TFile ? file : null;
+    }
+
+    /**
+     * 判断搜索面板中是否有结果
+     * @param pane 搜索面板
+     * @param lookup 结果元素到文件的映射
+     */
+    private hasResults(pane: HTMLElement, lookup: Map<HTMLElement, TFile>): boolean {
+        return lookup.size > 0 || pane.querySelector('.search-result') !== null;
+    }
+
+    /**
+     * 记录选择器失效的警告
+     */
+    private warnSelectorMismatch(): void {
+        if (this.selectorWarningLogged) return;
+        this.selectorWarningLogged = true;
+
+        this.errorManager.handleError(
+            new UIError('搜索结果中未找到文件标题元素，当前 Obsidian 版本的界面结构可能已变化', {
+                sourceComponent: 'SearchResultsView',
+                details: { action: 'processPane' },
+                userVisible: false
+            }),
+            ErrorLevel.WARNING
+        );
+    }
+
+    /**
+     * 断开所有观察器
+     */
+    private disconnectObservers(): void {
+        this.observers.forEach(observer => observer.disconnect());
+        this.observers.clear();
+    }
+
+    /**
+     * 恢复所有替换过的标题和悬停提示
+     */
+    private restoreOriginalTitles(): void {
+        this.safeOperation(
+            () => {
+                this.processedTitles.forEach((processed, titleEl) => {
+                    if (titleEl.isConnected) {
+                        this.restoreTitle(titleEl, processed);
+                    }
+                });
+                this.processedTitles.clear();
+            },
+            'SearchResultsView',
+            '恢复搜索结果标题时发生错误',
+            ErrorCategory.UI,
+            ErrorLevel.ERROR
+        );
+    }
+
+    /**
+     * 恢复单个标题和悬停提示
+     * @param titleEl 标题元素
+     * @param processed 替换记录
+     */
+    private restoreTitle(titleEl: HTMLElement, processed: ProcessedSearchTitle): void {
+        this.uiStateManager.restoreOriginalText(titleEl);
+        if (processed.ariaLabel === null) {
+            titleEl.removeAttribute('aria-label');
+        } else {
+            titleEl.setAttribute('aria-label', processed.ariaLabel);
+        }
+    }
+}
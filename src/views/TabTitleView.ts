@@ -0,0 +1,252 @@
+import { FileView, TFile, WorkspaceLeaf } from 'obsidian';
+import { injectable, inject } from 'inversify';
+import { TYPES } from '../types/symbols';
+import type { TitleChangerPlugin } from '../main';
+import { CacheManager } from '../CacheManager';
+import { Logger } from '../utils/logger';
+import { ErrorManagerService, ErrorLevel } from '../services/ErrorManagerService';
+import { ErrorCategory } from '../utils/errors';
+import { logErrorsWithoutThrowing } from '../utils/ErrorHelpers';
+import { AbstractView } from './base/abstract-view';
+import { UpdateScheduler } from '../services/UpdateSchedulerService';
+import { UIStateManager } from '../services/UIStateManager';
+
+/**
+ * 带标签页标题元素的叶子（Obsidian 内部 API）
+ */
+interface LeafWithTabHeader extends WorkspaceLeaf {
+    tabHeaderInnerTitleEl?: HTMLElement;
+}
+
+/**
+ * 被替换的文本及其原始值
+ */
+interface ReplacedText {
+    original: string;
+    applied: string;
+}
+
+/**
+ * 标签页标题视图，负责替换标签页标题和窗口标题
+ */
+@injectable()
+export class TabTitleView extends AbstractView {
+    private static readonly VIEW_ID = 'tab-title-view';
+    private replacedTabs = new Map<HTMLElement, ReplacedText>();
+    private replacedDocumentTitle: ReplacedText | null = null;
+
+    constructor(
+        @inject(TYPES.Plugin) plugin: TitleChangerPlugin,
+        @inject(TYPES.Logger) logger: Logger,
+        @inject(TYPES.ErrorManager) errorManager: ErrorManagerService,
+        @inject(TYPES.CacheManager) private cacheManager: CacheManager,
+        @inject(TYPES.UpdateScheduler) private updateScheduler: UpdateScheduler,
+        @inject(TYPES.UIStateManager) private uiStateManager: UIStateManager
+    ) {
+        super(plugin, logger, errorManager);
+    }
+
+    /**
+     * 初始化标签页标题视图
+     */
+    initialize(): void {
+        this.logInfo(`[${TabTitleView.VIEW_ID}] 正在初始化...`);
+
+        this.safeOperation(
+            () => {
+                const workspace = this.plugin.app.workspace;
+
+                // Obsidian 会在这些事件中重写标签页标题和窗口标题，需要重新替换
+                this.plugin.registerEvent(workspace.on('file-open', () => this.updateView()));
+                this.plugin.registerEvent(workspace.on('active-leaf-change', () => this.updateView()));
+                this.plugin.registerEvent(workspace.on('layout-change', () => this.updateView()));
+                this.plugin.registerEvent(workspace.on('title-changed', () => this.updateView()));
+                this.plugin.registerEvent(this.plugin.app.vault.on('rename', () => this.updateView()));
+
+                // 等待工作区布局就绪后更新一次
+                workspace.onLayoutReady(() => this.updateView());
+            },
+            'TabTitleView',
+            '初始化标签页标题视图失败',
+            ErrorCategory.LIFECYCLE,
+            ErrorLevel.ERROR,
+            { action: 'initialize' }
+        );
+
+        this.logInfo(`[${TabTitleView.VIEW_ID}] 初始化完成`);
+    }
+
+    /**
+     * 卸载标签页标题视图
+     */
+    unload(): void {
+        this.logInfo(`[${TabTitleView.VIEW_ID}] 正在卸载...`);
+
+        this.updateScheduler.cancelScheduledUpdate(TabTitleView.VIEW_ID);
+        this.restoreOriginalTitles();
+
+        this.logInfo(`[${TabTitleView.VIEW_ID}] 卸载完成`);
+    }
+
+    /**
+     * 更新所有标签页标题和窗口标题
+     */
+    updateView(): void {
+        if (!this.enabled) {
+            this.logDebug(`[${TabTitleView.VIEW_ID}] 视图已禁用，跳过更新`);
+            return;
+        }
+
+        // 延迟执行，确保在 Obsidian 自身更新标题之后再替换
+        this.updateScheduler.scheduleUpdate(
+            TabTitleView.VIEW_ID,
+            () => {
+                this.safeOperation(
+                    () => {
+                        this.updateTabHeaders();
+                        this.updateDocumentTitle();
+                    },
+                    'TabTitleView',
+                    '更新标签页标题失败',
+                    ErrorCategory.UI,
+                    ErrorLevel.WARNING
+                );
+            },
+            50
+        );
+    }
+
+    /**
+     * 重写onEnable方法，在启用时立即刷新视图
+     */
+    protected override onEnable(): void {
+        super.onEnable();
+        this.logInfo(`[${TabTitleView.VIEW_ID}] 视图已启用，立即刷新`);
+        this.updateView();
+    }
+
+    /**
+     * 重写onDisable方法，在禁用时恢复原始文件名
+     */
+    protected override onDisable(): void {
+        super.onDisable();
+        this.logInfo(`[${TabTitleView.VIEW_ID}] 视图已禁用，恢复原始文件名`);
+        this.updateScheduler.cancelScheduledUpdate(TabTitleView.VIEW_ID);
+        this.restoreOriginalTitles();
+    }
+
+    /**
+     * 替换所有标签页的标题
+     */
+    private updateTabHeaders(): void {
+        // 清理已关闭标签页的记录
+        this.replacedTabs.forEach((_value, el) => {
+            if (!el.isConnected) {
+                this.replacedTabs.delete(el);
+            }
+        });
+
+        this.plugin.app.workspace.iterateAllLeaves((leaf: LeafWithTabHeader) => {
+            logErrorsWithoutThrowing(
+                () => {
+                    const titleEl = leaf.tabHeaderInnerTitleEl;
+                    if (!titleEl) return;
+
+                    const file = leaf.view instanceof FileView ? leaf.view.file : null;
+                    const current = titleEl.textContent ?? '';
+                    const { text, record } = this.resolveText(this.replacedTabs.get(titleEl) ?? null, current, file);
+
+                    if (record) {
+                        this.replacedTabs.set(titleEl, record);
+                        this.uiStateManager.applyDisplayText(titleEl, record.original, record.applied);
+                    } else {
+                        this.replacedTabs.delete(titleEl);
+                        if (text !== current) {
+                            titleEl.textContent = text;
+                        }
+                    }
+                },
+                'TabTitleView',
+                this.errorManager,
+                this.logger,
+                {
+                    errorMessage: '替换单个标签页标题失败',
+                    category: ErrorCategory.UI,
+                    level: ErrorLevel.DEBUG
+                }
+            );
+        });
+    }
+
+    /**
+     * 替换窗口标题中的文件名
+     * 通过 <title> 元素设置，与标签页标题一样在预览原始文件名时切换
+     */
+    private updateDocumentTitle(): void {
+        const current = document.title;
+        const { text, record } = this.resolveText(
+            this.replacedDocumentTitle,
+            current,
+            this.plugin.app.workspace.getActiveFile()
+        );
+
+        this.replacedDocumentTitle = record;
+        const titleEl = document.head.querySelector('title');
+        if (record && titleEl) {
+            this.uiStateManager.applyDisplayText(titleEl, record.original, record.applied);
+        } else if (text !== current) {
+            document.title = text;
+        }
+    }
+
+    /**
+     * 计算应显示的文本
+     * 当前文本与上次替换结果不同时，说明 Obsidian 已重写该文本，以当前文本作为新的原始值
+     * @param previous 上次的替换记录
+     * @param current 当前文本
+     * @param file 对应的文件
+     * @returns 应显示的文本及新的替换记录，无需替换时记录为 null
+     */
+    private resolveText(
+        previous: ReplacedText | null,
+        current: string,
+        file: TFile | null
+    ): { text: string; record: ReplacedText | null } {
+        const original = previous && previous.applied === current ? previous.original : current;
+        const displayTitle = file && original.startsWith(file.basename)
+            ? this.cacheManager.processFile(file)
+            : null;
+
+        if (!file || !displayTitle || displayTitle === file.basename) {
+            return { text: original, record: null };
+        }
+
+        const applied = displayTitle + original.substring(file.basename.length);
+        return { text: applied, record: { original, applied } };
+    }
+
+    /**
+     * 恢复所有标签页标题和窗口标题
+     */
+    private restoreOriginalTitles(): void {
+        this.safeOperation(
+            () => {
+                this.replacedTabs.forEach((record, el) => {
+                    if (el.textContent === record.applied) {
+                        el.textContent = record.original;
+                    }
+                });
+                this.replacedTabs.clear();
+
+                if (this.replacedDocumentTitle && document.title === this.replacedDocumentTitle.applied) {
+                    document.title = this.replacedDocumentTitle.original;
+                }
+                this.replacedDocumentTitle = null;
+            },
+            'TabTitleView',
+            '恢复标签页标题时发生错误',
+            ErrorCategory.UI,
+            ErrorLevel.ERROR
+        );
+    }
+}
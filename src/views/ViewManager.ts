@@ -6,6 +6,11 @@ import type { EditorLinkView } from './EditorView';
 import type { ReadingView } from './ReadingView';
 import type { GraphView } from './GraphView';
 import type { MarkdownViewManager } from './MarkdownViewManager';
+import type { TabTitleView } from './TabTitleView';
+import type { LinkPanesView } from './LinkPanesView';
+import type { SearchResultsView } from './SearchResultsView';
+import type { BookmarksView } from './BookmarksView';
+import type { CanvasView } from './CanvasView';
 import type { IViewManager } from '../types/ObsidianExtensions';
 import { Logger } from '../utils/logger';
 import { ErrorManagerService, ErrorLevel } from '../services/ErrorManagerService';
@@ -27,6 +32,11 @@ export class ViewManager implements IViewManager {
     private readingView: ReadingView;
     private graphView: GraphView;
     private markdownViewManager: MarkdownViewManager;
+    private tabTitleView: TabTitleView;
+    private linkPanesView: LinkPanesView;
+    private searchResultsView: SearchResultsView;
+    private bookmarksView: BookmarksView;
+    private canvasView: CanvasView;
 
     /**
      * 构造函数
@@ -39,6 +49,11 @@ export class ViewManager implements IViewManager {
         @inject(TYPES.ReadingView) readingView: ReadingView,
         @inject(TYPES.GraphView) graphView: GraphView,
         @inject(TYPES.MarkdownViewManager) markdownViewManager: MarkdownViewManager,
+        @inject(TYPES.TabTitleView) tabTitleView: TabTitleView,
+        @inject(TYPES.LinkPanesView) linkPanesView: LinkPanesView,
+        @inject(TYPES.SearchResultsView) searchResultsView: SearchResultsView,
+        @inject(TYPES.BookmarksView) bookmarksView: BookmarksView,
+        @inject(TYPES.CanvasView) canvasView: CanvasView,
         @inject(TYPES.Logger) private logger: Logger,
         @inject(TYPES.ErrorManager) private errorManager: ErrorManagerService
     ) {
@@ -47,6 +62,11 @@ export class ViewManager implements IViewManager {
         this.readingView = readingView;
         this.graphView = graphView;
         this.markdownViewManager = markdownViewManager;
+        this.tabTitleView = tabTitleView;
+        this.linkPanesView = linkPanesView;
+        this.searchResultsView = searchResultsView;
+        this.bookmarksView = bookmarksView;
+        this.canvasView = canvasView;
     }
 
     /**
@@ -60,6 +80,11 @@ export class ViewManager implements IViewManager {
                 this.editorLinkView.initialize();
                 this.readingView.initialize();
                 this.graphView.initialize();
+                this.tabTitleView.initialize();
+                this.linkPanesView.initialize();
+                this.searchResultsView.initialize();
+                this.bookmarksView.initialize();
+                this.canvasView.initialize();
                 
                 // 初始化MarkdownViewManager
                 if (this.plugin.settings.enableMarkdownView) {
@@ -92,6 +117,11 @@ export class ViewManager implements IViewManager {
                 this.editorLinkView.unload();
                 this.readingView.unload();
                 this.graphView.unload();
+                this.tabTitleView.unload();
+                this.linkPanesView.unload();
+                this.searchResultsView.unload();
+                this.bookmarksView.unload();
+                this.canvasView.unload();
                 
                 this.logger.info('视图管理器已卸载');
             },
@@ -183,6 +213,76 @@ export class ViewManager implements IViewManager {
                     }
                 );
                 
+                // 更新标签页标题
+                tryCatchWrapper(
+                    () => this.tabTitleView.updateView(),
+                    'ViewManager',
+                    this.errorManager,
+                    this.logger,
+                    {
+                        errorMessage: '更新标签页标题失败',
+                        category: ErrorCategory.UI,
+                        level: ErrorLevel.WARNING,
+                        details: { component: 'tabTitleView' }
+                    }
+                );
+                
+                // 更新反向链接和出链面板
+                tryCatchWrapper(
+                    () => this.linkPanesView.updateView(),
+                    'ViewManager',
+                    this.errorManager,
+                    this.logger,
+                    {
+                        errorMessage: '更新链接面板失败',
+                        category: ErrorCategory.UI,
+                        level: ErrorLevel.WARNING,
+                        details: { component: 'linkPanesView' }
+                    }
+                );
+                
+                // 更新搜索结果面板
+                tryCatchWrapper(
+                    () => this.searchResultsView.updateView(),
+                    'ViewManager',
+                    this.errorManager,
+                    this.logger,
+                    {
+                        errorMessage: '更新搜索结果失败',
+                        category: ErrorCategory.UI,
+                        level: ErrorLevel.WARNING,
+                        details: { component: 'searchResultsView' }
+                    }
+                );
+                
+                // 更新书签面板
+                tryCatchWrapper(
+                    () => this.bookmarksView.updateView(),
+                    'ViewManager',
+                    this.errorManager,
+                    this.logger,
+                    {
+                        errorMessage: '更新书签面板失败',
+                        category: ErrorCategory.UI,
+                        level: ErrorLevel.WARNING,
+                        details: { component: 'bookmarksView' }
+                    }
+                );
+                
+                // 更新白板文件节点
+                tryCatchWrapper(
+                    () => this.canvasView.updateView(),
+                    'ViewManager',
+                    this.errorManager,
+                    this.logger,
+                    {
+                        errorMessage: '更新白板失败',
+                        category: ErrorCategory.UI,
+                        level: ErrorLevel.WARNING,
+                        details: { component: 'canvasView' }
+                    }
+                );
+                
                 // 对于可能尚未完全加载的阅读视图内容，延迟再次更新
                 requestAnimationFrame(() => {
                     logErrorsWithoutThrowing(
@@ -365,6 +465,16 @@ export class ViewManager implements IViewManager {
                 return this.graphView;
             case 'markdown':
                 return this.markdownViewManager;
+            case 'tab':
+                return this.tabTitleView;
+            case 'links':
+                return this.linkPanesView;
+            case 'search':
+                return this.searchResultsView;
+            case 'bookmarks':
+                return this.bookmarksView;
+            case 'canvas':
+                return this.canvasView;
             default:
                 this.logger.debug(`未找到视图 ${viewId}`);
                 return null;
@@ -0,0 +1,130 @@
+/**
+ * 文件命名模板工具测试
+ */
+import {
+    createTemplateId,
+    getFolderNamingTemplate,
+    getNextCounter,
+    planRenames,
+    renderFileNameTemplate,
+    replaceBaseName,
+    sanitizeFileName
+} from '../../../src/utils/FileNameTemplate';
+
+describe('文件命名模板工具', () => {
+    const formatDate = (format: string) => format.replace('YYYY', '2024').replace('MM', '03').replace('DD', '29');
+
+    describe('renderFileNameTemplate', () => {
+        it('应替换标题和指定格式的日期', () => {
+            expect(renderFileNameTemplate('{{date:YYYY_MM_DD}}_{{title}}', { title: '会议记录', formatDate })).toBe('2024_03_29_会议记录');
+        });
+
+        it('未指定格式时应使用默认日期格式', () => {
+            expect(renderFileNameTemplate('{{ date }} {{title}}', { title: 'Client', formatDate })).toBe('2024_03_29 Client');
+        });
+
+        it('应保留未知的占位符和其他文本', () => {
+            expect(renderFileNameTemplate('{{author}}-{{title}}', { title: 'note', formatDate })).toBe('{{author}}-note');
+        });
+
+        it('应按位数补零编号并生成指定长度的 ID', () => {
+            const context = { title: 'note', formatDate, counter: 7, createId: (length: number) => 'x'.repeat(length) };
+            expect(renderFileNameTemplate('{{counter:3}}-{{id:4}}-{{title}}', context)).toBe('007-xxxx-note');
+            expect(renderFileNameTemplate('{{counter}}-{{id}}', context)).toBe('7-xxxxxx');
+        });
+
+        it('未提供编号和 ID 时应保留占位符', () => {
+            expect(renderFileNameTemplate('{{counter}}_{{id}}_{{title}}', { title: 'note', formatDate })).toBe('{{counter}}_{{id}}_note');
+        });
+
+        it('标题中的非法字符应被清理', () => {
+            expect(renderFileNameTemplate('{{title}}', { title: 'A/B: [草稿]?', formatDate })).toBe('A B 草稿');
+        });
+    });
+
+    describe('sanitizeFileName', () => {
+        it('应去掉首尾的空格和点', () => {
+            expect(sanitizeFileName('  .hidden.  ')).toBe('hidden');
+            expect(sanitizeFileName(' # ')).toBe('');
+        });
+    });
+
+    describe('replaceBaseName', () => {
+        it('应保留文件夹和扩展名', () => {
+            expect(replaceBaseName('notes/old.md', 'new')).toBe('notes/new.md');
+            expect(replaceBaseName('old.md', 'v1.2 new')).toBe('v1.2 new.md');
+        });
+    });
+
+    describe('getNextCounter', () => {
+        it('应返回同一日期的最大编号加一', () => {
+            const baseNames = ['2024_03_29_01_早会', '2024_03_29_03_周报', '2024_03_28_09_旧笔记', '随手记'];
+            expect(getNextCounter('{{date}}_{{counter:2}}_{{title}}', formatDate, baseNames)).toBe(4);
+        });
+
+        it('没有匹配的文件或模板中没有编号时应返回 1', () => {
+            expect(getNextCounter('{{counter}}. {{title}}', formatDate, ['note'])).toBe(1);
+            expect(getNextCounter('{{title}}', formatDate, ['5. note'])).toBe(1);
+        });
+    });
+
+    describe('createTemplateId', () => {
+        it('应生成指定长度的小写字母和数字', () => {
+            expect(createTemplateId(8)).toMatch(/^[0-9a-z]{8}$/);
+            expect(createTemplateId(3, () => 0.999)).toBe('zzz');
+        });
+    });
+
+    describe('getFolderNamingTemplate', () => {
+        const templates = [
+            { folder: '', template: 'root' },
+            { folder: 'Projects/', template: 'projects' },
+            { folder: 'Projects/Client', template: 'client' },
+            { folder: 'Empty', template: '  ' }
+        ];
+
+        it('应使用路径最具体的文件夹模板', () => {
+            expect(getFolderNamingTemplate(templates, 'Projects/Client/2024', 'default')).toBe('client');
+            expect(getFolderNamingTemplate(templates, 'Projects', 'default')).toBe('projects');
+            expect(getFolderNamingTemplate(templates, 'ProjectsArchive', 'default')).toBe('root');
+        });
+
+        it('没有适用的文件夹模板时应使用默认模板', () => {
+            expect(getFolderNamingTemplate(templates.slice(1), 'Empty', 'default')).toBe('default');
+            expect(getFolderNamingTemplate(undefined, '', 'default')).toBe('default');
+        });
+    });
+
+    describe('planRenames', () => {
+        it('应区分重命名、未变化和无法生成的文件', () => {
+            const result = planRenames([
+                { path: 'a/old.md', baseName: 'new' },
+                { path: 'a/same.md', baseName: 'same' },
+                { path: 'a/empty.md', baseName: '' }
+            ], () => false);
+
+            expect(result.map(target => target.status)).toEqual(['rename', 'unchanged', 'invalid']);
+            expect(result[0].newPath).toBe('a/new.md');
+        });
+
+        it('目标已存在时应标记为冲突，只改变大小写时除外', () => {
+            const existing = new Set(['a/taken.md', 'a/note.md']);
+            const result = planRenames([
+                { path: 'a/x.md', baseName: 'Taken' },
+                { path: 'a/note.md', baseName: 'Note' }
+            ], path => existing.has(path.toLowerCase()));
+
+            expect(result.map(target => target.status)).toEqual(['collision', 'rename']);
+        });
+
+        it('多个文件的目标相同时只保留第一个', () => {
+            const result = planRenames([
+                { path: 'a/1.md', baseName: 'title' },
+                { path: 'a/2.md', baseName: 'Title' },
+                { path: 'b/3.md', baseName: 'title' }
+            ], () => false);
+
+            expect(result.map(target => target.status)).toEqual(['rename', 'collision', 'rename']);
+        });
+    });
+});
@@ -0,0 +1,165 @@
+/**
+ * 文件夹检查器测试
+ */
+import { TFile } from 'obsidian';
+import { FolderChecker } from '../../../src/utils/FolderChecker';
+import { migrateSettings } from '../../../src/settings/TitleChangerSettings';
+import { createRegexRule } from '../../../src/utils/RegexRules';
+
+function file(path: string): TFile {
+    const name = path.split('/').pop() || '';
+    const dot = name.lastIndexOf('.');
+    return {
+        path,
+        basename: dot > 0 ? name.slice(0, dot) : name,
+        extension: dot > 0 ? name.slice(dot + 1) : ''
+    } as TFile;
+}
+
+describe('FolderChecker', () => {
+    beforeEach(() => {
+        FolderChecker.clearCache();
+    });
+
+    describe('shouldApplyToFile', () => {
+        it('应在没有包含和排除文件夹时处理所有文件', () => {
+            const settings = migrateSettings({});
+
+            expect(FolderChecker.shouldApplyToFile(file('a/b.md'), settings)).toBe(true);
+        });
+
+        it('应排除指定文件夹中的文件', () => {
+            const settings = migrateSettings({ excludedFolders: ['Archive'] });
+
+            expect(FolderChecker.shouldApplyToFile(file('Archive/old.md'), settings)).toBe(false);
+            expect(FolderChecker.shouldApplyToFile(file('Notes/new.md'), settings)).toBe(true);
+        });
+
+        it('应使用路径最具体的包含或排除设置', () => {
+            const settings = migrateSettings({
+                includedFolders: ['Notes', 'Notes/Archive/Keep'],
+                excludedFolders: ['Notes/Archive']
+            });
+
+            expect(FolderChecker.shouldApplyToFile(file('Notes/a.md'), settings)).toBe(true);
+            expect(FolderChecker.shouldApplyToFile(file('Notes/Archive/b.md'), settings)).toBe(false);
+            expect(FolderChecker.shouldApplyToFile(file('Notes/Archive/Keep/c.md'), settings)).toBe(true);
+            expect(FolderChecker.shouldApplyToFile(file('Other/d.md'), settings)).toBe(false);
+        });
+
+        it('* 应匹配任意子文件夹，同级的具体文件夹设置同时生效', () => {
+            const settings = migrateSettings({ includedFolders: ['Journal/*'], excludedFolders: ['Journal/Private'] });
+
+            expect(FolderChecker.shouldApplyToFile(file('Journal/2024/a.md'), settings)).toBe(true);
+            expect(FolderChecker.shouldApplyToFile(file('Journal/Private/b.md'), settings)).toBe(false);
+            expect(FolderChecker.shouldApplyToFile(file('Journal/c.md'), settings)).toBe(false);
+        });
+
+        it('应在设置被原地修改后重新计算结果', () => {
+            const settings = migrateSettings({});
+            expect(FolderChecker.shouldApplyToFile(file('Archive/a.md'), settings)).toBe(true);
+
+            settings.excludedFolders.push('Archive');
+
+            expect(FolderChecker.shouldApplyToFile(file('Archive/a.md'), settings)).toBe(false);
+        });
+    });
+
+    describe('排除规则', () => {
+        it('应按文件名正则排除文件', () => {
+            const settings = migrateSettings({ excludedFilenamePatterns: ['^README', '('] });
+
+            expect(FolderChecker.shouldApplyToFile(file('docs/README_2024.md'), settings)).toBe(false);
+            expect(FolderChecker.shouldApplyToFile(file('docs/guide.md'), settings)).toBe(true);
+        });
+
+        it('应按扩展名排除文件', () => {
+            const settings = migrateSettings({ excludedExtensions: ['.Canvas'] });
+
+            expect(FolderChecker.shouldApplyToFile(file('board.canvas'), settings)).toBe(false);
+            expect(FolderChecker.shouldApplyToFile(file('note.md'), settings)).toBe(true);
+        });
+
+        it('应按标签及其嵌套标签排除文件', () => {
+            const settings = migrateSettings({ excludedTags: ['#keep-name'] });
+            const tags: Record<string, string[]> = {
+                'a.md': ['#keep-name'],
+                'b.md': ['#Keep-Name/sub'],
+                'c.md': ['#keep-names']
+            };
+            const getTags = (target: TFile) => tags[target.path] || [];
+
+            expect(FolderChecker.shouldApplyToFile(file('a.md'), settings, getTags)).toBe(false);
+            expect(FolderChecker.shouldApplyToFile(file('b.md'), settings, getTags)).toBe(false);
+            expect(FolderChecker.shouldApplyToFile(file('c.md'), settings, getTags)).toBe(true);
+        });
+
+        it('应在路径失效后重新检查标签', () => {
+            const settings = migrateSettings({ excludedTags: ['keep'] });
+            let tags: string[] = [];
+            const getTags = () => tags;
+
+            expect(FolderChecker.shouldApplyToFile(file('a.md'), settings, getTags)).toBe(true);
+
+            tags = ['#keep'];
+            expect(FolderChecker.shouldApplyToFile(file('a.md'), settings, getTags)).toBe(true);
+
+            FolderChecker.invalidatePath('a.md');
+            expect(FolderChecker.shouldApplyToFile(file('a.md'), settings, getTags)).toBe(false);
+        });
+
+        it('设置了标签排除但未提供标签时不应缓存结果', () => {
+            const settings = migrateSettings({ excludedTags: ['keep'] });
+            const getTags = () => ['#keep'];
+
+            expect(FolderChecker.batchCheckFiles([file('a.md')], settings).get('a.md')).toBe(true);
+            expect(FolderChecker.shouldApplyToFile(file('a.md'), settings, getTags)).toBe(false);
+        });
+
+        it('应在批量检查中应用排除规则', () => {
+            const settings = migrateSettings({ excludedExtensions: ['canvas'] });
+            const results = FolderChecker.batchCheckFiles([file('a.md'), file('b.canvas')], settings);
+
+            expect(results.get('a.md')).toBe(true);
+            expect(results.get('b.canvas')).toBe(false);
+        });
+    });
+
+    describe('getApplicableRules', () => {
+        it('应按原有顺序返回未限定和作用域内的规则', () => {
+            const global = createRegexRule('^g(.+)$');
+            const work = { ...createRegexRule('^w(.+)$'), folders: ['Work'] };
+            const journal = { ...createRegexRule('^j(.+)$'), folders: ['Journal'] };
+            const settings = migrateSettings({ regexRules: [work, global, journal] });
+
+            expect(FolderChecker.getApplicableRules(file('Work/Sub/x.md'), settings)).toEqual([work, global]);
+            expect(FolderChecker.getApplicableRules(file('Journal/x.md'), settings)).toEqual([global, journal]);
+            expect(FolderChecker.getApplicableRules(file('x.md'), settings)).toEqual([global]);
+        });
+
+        it('规则作用域中的 * 应匹配任意文件夹', () => {
+            const projects = { ...createRegexRule('^p(.+)$'), folders: ['Projects/*'] };
+            const settings = migrateSettings({ regexRules: [projects] });
+
+            expect(FolderChecker.getApplicableRules(file('Projects/Alpha/x.md'), settings)).toEqual([projects]);
+            expect(FolderChecker.getApplicableRules(file('Archive/Alpha/x.md'), settings)).toEqual([]);
+        });
+
+        it('* 作用域应与同级的具体文件夹作用域同时生效', () => {
+            const journal = { ...createRegexRule('^j(.+)$'), folders: ['Journal/*'] };
+            const year = { ...createRegexRule('^y(.+)$'), folders: ['Journal/2024'] };
+            const settings = migrateSettings({ regexRules: [journal, year] });
+
+            expect(FolderChecker.getApplicableRules(file('Journal/2024/x.md'), settings)).toEqual([journal, year]);
+            expect(FolderChecker.getApplicableRules(file('Journal/2023/x.md'), settings)).toEqual([journal]);
+        });
+
+        it('* 作用域不应包含直接位于上级文件夹中的文件', () => {
+            const journal = { ...createRegexRule('^j(.+)$'), folders: ['Journal/*'] };
+            const settings = migrateSettings({ regexRules: [journal] });
+
+            expect(FolderChecker.getApplicableRules(file('Journal/x.md'), settings)).toEqual([]);
+            expect(FolderChecker.getApplicableRules(file('Journal/Sub/Deep/x.md'), settings)).toEqual([journal]);
+        });
+    });
+});
@@ -0,0 +1,105 @@
+/**
+ * 链接别名转换工具测试
+ */
+import {
+    applyAliasChanges,
+    planAliasChanges,
+    revertAliasChanges
+} from '../../../src/utils/LinkAliasConverter';
+import type { WikiLink } from '../../../src/utils/WikiLinkProcessor';
+
+const titles: Record<string, string> = {
+    '20240329_meeting_Client': 'Client',
+    '20240401_plan': '计划'
+};
+
+const getAlias = (link: WikiLink): string | null => titles[link.fileName] ?? null;
+
+describe('链接别名转换工具', () => {
+    describe('planAliasChanges', () => {
+        it('应为没有别名的链接添加显示标题', () => {
+            const content = '会议记录 [[20240329_meeting_Client]] 和 [[unknown]]';
+            const changes = planAliasChanges(content, getAlias);
+
+            expect(changes).toHaveLength(1);
+            expect(changes[0].original).toBe('[[20240329_meeting_Client]]');
+            expect(changes[0].replacement).toBe('[[20240329_meeting_Client|Client]]');
+            expect(changes[0].start).toBe(content.indexOf('[['));
+            expect(changes[0].line).toBe(0);
+        });
+
+        it('应保留子路径并使用别名生成函数的结果', () => {
+            const changes = planAliasChanges('[[20240401_plan#目标]]', link => `${titles[link.fileName]} › ${link.subPath}`);
+            expect(changes[0].replacement).toBe('[[20240401_plan#目标|计划 › 目标]]');
+        });
+
+        it('表格中应使用转义的分隔符', () => {
+            const changes = planAliasChanges('| 日期 | [[20240401_plan]] |', getAlias);
+            expect(changes[0].replacement).toBe('[[20240401_plan\\|计划]]');
+        });
+
+        it('应跳过已有别名、嵌入、代码和 frontmatter 中的链接', () => {
+            const content = [
+                '---',
+                'related: "[[20240401_plan]]"',
+                '---',
+                '[[20240401_plan|已有别名]] ![[20240401_plan]] `[[20240401_plan]]`',
+                '```',
+                '[[20240401_plan]]',
+                '```',
+                '[[20240401_plan]]'
+            ].join('\n');
+            const changes = planAliasChanges(content, getAlias);
+
+            expect(changes).toHaveLength(1);
+            expect(changes[0].line).toBe(7);
+        });
+
+        it('应跳过包含分隔符的别名', () => {
+            expect(planAliasChanges('[[20240401_plan]]', () => 'a|b')).toHaveLength(0);
+        });
+    });
+
+    describe('applyAliasChanges / revertAliasChanges', () => {
+        it('应用后应能完整撤销', () => {
+            const content = '[[20240329_meeting_Client]]\n见 [[20240401_plan]]';
+            const { content: converted, applied } = applyAliasChanges(content, planAliasChanges(content, getAlias));
+
+            expect(converted).toBe('[[20240329_meeting_Client|Client]]\n见 [[20240401_plan|计划]]');
+            expect(converted.slice(applied[1].start, applied[1].start + applied[1].replacement.length))
+                .toBe('[[20240401_plan|计划]]');
+
+            const reverted = revertAliasChanges(converted, applied);
+            expect(reverted.content).toBe(content);
+            expect(reverted.reverted).toBe(2);
+            expect(reverted.skipped).toBe(0);
+        });
+
+        it('预览后被修改的链接应跳过', () => {
+            const content = '[[20240401_plan]]';
+            const changes = planAliasChanges(content, getAlias);
+            const result = applyAliasChanges('新内容 [[other]]', changes);
+
+            expect(result.content).toBe('新内容 [[other]]');
+            expect(result.applied).toHaveLength(0);
+        });
+
+        it('撤销时位置已变化的链接应跳过，不恢复其他位置的同名链接', () => {
+            const content = '[[20240329_meeting_Client]] [[20240401_plan]]';
+            const { content: converted, applied } = applyAliasChanges(content, planAliasChanges(content, getAlias));
+
+            // 第一个链接被等长的空白替换，第二个链接保持原位，文末手动添加了同样的链接
+            const blank = ' '.repeat(applied[0].replacement.length);
+            const edited = `${blank}${converted.slice(blank.length)}\n[[20240329_meeting_Client|Client]]`;
+            const reverted = revertAliasChanges(edited, applied);
+            expect(reverted.content).toBe(`${blank} [[20240401_plan]]\n[[20240329_meeting_Client|Client]]`);
+            expect(reverted.reverted).toBe(1);
+            expect(reverted.skipped).toBe(1);
+
+            const moved = revertAliasChanges(`前言\n${converted}`, applied);
+            expect(moved.content).toBe(`前言\n${converted}`);
+            expect(moved.reverted).toBe(0);
+            expect(moved.skipped).toBe(2);
+        });
+    });
+});
@@ -0,0 +1,71 @@
+/**
+ * Markdown链接处理工具测试
+ */
+import {
+    decodeLinkPath,
+    extractMarkdownLinks,
+    isFileNameLinkText,
+    shouldReplaceMarkdownLinkText
+} from '../../../src/utils/MarkdownLinkProcessor';
+
+describe('Markdown链接处理工具', () => {
+    describe('extractMarkdownLinks', () => {
+        it('应提取指向笔记的链接并计算文本位置', () => {
+            const text = '参见 [20240329_note](path/to/20240329_note.md) 了解详情';
+            const links = extractMarkdownLinks(text, 10);
+
+            expect(links).toHaveLength(1);
+            expect(links[0].text).toBe('20240329_note');
+            expect(links[0].linkpath).toBe('path/to/20240329_note.md');
+            expect(links[0].subPath).toBeUndefined();
+            expect(links[0].start).toBe(10 + text.indexOf('['));
+            expect(text.slice(links[0].textStart - 10, links[0].textEnd - 10)).toBe('20240329_note');
+        });
+
+        it('应解码 URL 编码并支持尖括号地址', () => {
+            const links = extractMarkdownLinks('[a](My%20Note.md) [b](<../My Note.md#第一 章>)');
+
+            expect(links.map(link => link.linkpath)).toEqual(['My Note.md', '../My Note.md']);
+            expect(links[1].subPath).toBe('第一 章');
+        });
+
+        it('应跳过图片、外部链接和页内锚点', () => {
+            const text = '![图](image.png) [网站](https://example.com) [邮件](mailto:a@b.c) [锚点](#标题)';
+            expect(extractMarkdownLinks(text)).toHaveLength(0);
+        });
+
+        it('应忽略链接后的标题文本', () => {
+            const links = extractMarkdownLinks('[note](note.md "提示")');
+            expect(links).toHaveLength(1);
+            expect(links[0].linkpath).toBe('note.md');
+        });
+    });
+
+    describe('decodeLinkPath', () => {
+        it('无效编码时应返回原文', () => {
+            expect(decodeLinkPath('100%.md')).toBe('100%.md');
+        });
+    });
+
+    describe('isFileNameLinkText', () => {
+        it('文件名、带扩展名的文件名和路径都视为原始文件名', () => {
+            expect(isFileNameLinkText('note', 'dir/note.md')).toBe(true);
+            expect(isFileNameLinkText('note.md', 'dir/note.md')).toBe(true);
+            expect(isFileNameLinkText('dir/note', './dir/note.md')).toBe(true);
+        });
+
+        it('自定义文本不应替换', () => {
+            expect(isFileNameLinkText('我的笔记', 'dir/note.md')).toBe(false);
+            expect(isFileNameLinkText('', 'dir/note.md')).toBe(false);
+        });
+    });
+
+    describe('shouldReplaceMarkdownLinkText', () => {
+        it('应根据链接文本判断是否替换', () => {
+            const [raw, custom] = extractMarkdownLinks('[My Note](My%20Note.md) [说明](My%20Note.md)');
+
+            expect(shouldReplaceMarkdownLinkText(raw)).toBe(true);
+            expect(shouldReplaceMarkdownLinkText(custom)).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,59 @@
+/**
+ * 元数据标题工具测试
+ */
+import { getFirstHeadingTitle, getFrontmatterTitle, parseFrontmatterKeys } from '../../../src/utils/MetadataTitle';
+
+describe('元数据标题工具', () => {
+    describe('parseFrontmatterKeys', () => {
+        it('应按逗号分隔并去除空白', () => {
+            expect(parseFrontmatterKeys(' title, aliases ,, ')).toEqual(['title', 'aliases']);
+            expect(parseFrontmatterKeys('')).toEqual([]);
+        });
+    });
+
+    describe('getFrontmatterTitle', () => {
+        it('应读取指定键的字符串值', () => {
+            expect(getFrontmatterTitle({ title: ' 项目计划 ' }, 'title')).toBe('项目计划');
+        });
+
+        it('应按顺序尝试多个键', () => {
+            expect(getFrontmatterTitle({ title: '', aliases: ['别名'] }, 'title, aliases')).toBe('别名');
+        });
+
+        it('应使用列表中第一个非空项', () => {
+            expect(getFrontmatterTitle({ aliases: [null, ' ', '第二个'] }, 'aliases')).toBe('第二个');
+        });
+
+        it('应将数字转换为字符串', () => {
+            expect(getFrontmatterTitle({ title: 2024 }, 'title')).toBe('2024');
+        });
+
+        it('应在没有可用值时返回 null', () => {
+            expect(getFrontmatterTitle(undefined, 'title')).toBeNull();
+            expect(getFrontmatterTitle({ title: { nested: true } }, 'title')).toBeNull();
+            expect(getFrontmatterTitle({ other: 'x' }, 'title')).toBeNull();
+        });
+    });
+
+    describe('getFirstHeadingTitle', () => {
+        it('应返回第一个一级标题', () => {
+            const headings = [
+                { heading: '简介', level: 2 },
+                { heading: ' 项目计划 ', level: 1 },
+                { heading: '另一个', level: 1 }
+            ];
+
+            expect(getFirstHeadingTitle(headings)).toBe('项目计划');
+        });
+
+        it('应只保留内部链接的显示文本', () => {
+            expect(getFirstHeadingTitle([{ heading: '[[Project|项目]] 与 [[Plan]]', level: 1 }])).toBe('项目 与 Plan');
+        });
+
+        it('应在没有一级标题时返回 null', () => {
+            expect(getFirstHeadingTitle(undefined)).toBeNull();
+            expect(getFirstHeadingTitle([{ heading: '小节', level: 2 }])).toBeNull();
+            expect(getFirstHeadingTitle([{ heading: '  ', level: 1 }])).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,154 @@
+/**
+ * 正则规则工具测试
+ */
+import {
+    createRegexRule,
+    normalizeRegexFlags,
+    getActiveRules,
+    findFirstMatchingRule,
+    extractMatchText,
+    renderTemplate,
+    applyRuleTemplate,
+    getRuleDisplayName
+} from '../../../src/utils/RegexRules';
+import { migrateSettings, DEFAULT_SETTINGS } from '../../../src/settings/TitleChangerSettings';
+
+describe('正则规则工具', () => {
+    describe('normalizeRegexFlags', () => {
+        it('应去除 g、y 标志和重复标志', () => {
+            expect(normalizeRegexFlags('gimiy')).toBe('im');
+        });
+
+        it('应处理空标志', () => {
+            expect(normalizeRegexFlags('')).toBe('');
+            expect(normalizeRegexFlags(undefined)).toBe('');
+        });
+    });
+
+    describe('getActiveRules', () => {
+        it('应只返回启用且模式非空的规则', () => {
+            const enabled = createRegexRule('a(.+)');
+            const disabled = { ...createRegexRule('b(.+)'), enabled: false };
+            const empty = createRegexRule('  ');
+
+            expect(getActiveRules([enabled, disabled, empty])).toEqual([enabled]);
+        });
+    });
+
+    describe('findFirstMatchingRule', () => {
+        const rules = [
+            createRegexRule('^\\d{8}_[^_]+_(.+)$', '', '日期前缀'),
+            createRegexRule('^\\[[^\\]]+\\]_([^_]+)_\\d{8}$', '', '项目前缀')
+        ];
+
+        it('应使用第一条匹配的规则', () => {
+            const result = findFirstMatchingRule('20240329_meeting_client', rules);
+
+            expect(result?.index).toBe(0);
+            expect(extractMatchText(result!.match)).toBe('client');
+        });
+
+        it('应在前面的规则不匹配时尝试后续规则', () => {
+            const result = findFirstMatchingRule('[Project]_Task_20240329', rules);
+
+            expect(result?.index).toBe(1);
+            expect(extractMatchText(result!.match)).toBe('Task');
+        });
+
+        it('应跳过禁用和无效的规则', () => {
+            const result = findFirstMatchingRule('abc', [
+                { ...createRegexRule('(abc)'), enabled: false },
+                createRegexRule('('),
+                createRegexRule('a(b)c')
+            ]);
+
+            expect(result?.index).toBe(2);
+            expect(extractMatchText(result!.match)).toBe('b');
+        });
+
+        it('应支持正则表达式标志', () => {
+            const result = findFirstMatchingRule('ABC', [createRegexRule('a(b)c', 'gi')]);
+
+            expect(result).not.toBeNull();
+            expect(extractMatchText(result!.match)).toBe('B');
+        });
+
+        it('应在没有规则匹配时返回 null', () => {
+            expect(findFirstMatchingRule('no-match', rules)).toBeNull();
+        });
+    });
+
+    describe('renderTemplate', () => {
+        it('应替换编号捕获组', () => {
+            const match = '20240329_meeting_client'.match(/^(\d{8})_([^_]+)_(.+)$/)!;
+
+            expect(renderTemplate('$3 ($1)', match)).toBe('client (20240329)');
+            expect(renderTemplate('${2}-${3}', match)).toBe('meeting-client');
+        });
+
+        it('应替换命名捕获组并保留字面文本', () => {
+            const match = '20240329_client'.match(/^(?<date>\d{8})_(?<title>.+)$/)!;
+
+            expect(renderTemplate('${title} · ${date}', match)).toBe('client · 20240329');
+        });
+
+        it('应保留不存在的捕获组引用并支持 $$ 转义', () => {
+            const match = 'a_b'.match(/^(a)_(b)$/)!;
+
+            expect(renderTemplate('$5 ${missing} $$1', match)).toBe('$5 ${missing} $1');
+        });
+
+        it('应将未参与匹配的捕获组替换为空字符串', () => {
+            const match = 'abc'.match(/^(x)?(abc)$/)!;
+
+            expect(renderTemplate('[$1]$2', match)).toBe('[]abc');
+        });
+    });
+
+    describe('applyRuleTemplate', () => {
+        it('应在没有模板时提取第一个捕获组', () => {
+            const match = 'x_title'.match(/^x_(.+)$/)!;
+
+            expect(applyRuleTemplate(createRegexRule('^x_(.+)$'), match)).toBe('title');
+        });
+
+        it('应使用模板并去除首尾空白', () => {
+            const rule = { ...createRegexRule('^(\\d+)_(.+)$'), template: ' $2 ($1) ' };
+            const match = '42_answer'.match(/^(\d+)_(.+)$/)!;
+
+            expect(applyRuleTemplate(rule, match)).toBe('answer (42)');
+        });
+    });
+
+    describe('getRuleDisplayName', () => {
+        it('应优先使用规则名称', () => {
+            expect(getRuleDisplayName(createRegexRule('a', '', '名称'), 0)).toBe('名称');
+            expect(getRuleDisplayName(createRegexRule('a'), 2)).toBe('规则 3');
+        });
+    });
+
+    describe('migrateSettings', () => {
+        it('应将旧版 regexPattern 迁移为单条规则', () => {
+            const settings = migrateSettings({ regexPattern: '^x_(.+)$' });
+
+            expect(settings.regexRules).toHaveLength(1);
+            expect(settings.regexRules[0].pattern).toBe('^x_(.+)$');
+            expect(settings.regexRules[0].enabled).toBe(true);
+            expect('regexPattern' in settings).toBe(false);
+        });
+
+        it('应保留已有的规则列表', () => {
+            const rules = [createRegexRule('^a(.+)$')];
+            const settings = migrateSettings({ regexRules: rules, regexPattern: 'ignored' });
+
+            expect(settings.regexRules).toEqual(rules);
+        });
+
+        it('应在没有保存数据时使用默认规则的副本', () => {
+            const settings = migrateSettings(null);
+
+            expect(settings.regexRules).toEqual(DEFAULT_SETTINGS.regexRules);
+            expect(settings.regexRules).not.toBe(DEFAULT_SETTINGS.regexRules);
+        });
+    });
+});
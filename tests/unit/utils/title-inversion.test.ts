@@ -0,0 +1,52 @@
+/**
+ * 标题反推工具测试
+ */
+import { findTitleInversion, invertDisplayTitle } from '../../../src/utils/TitleInversion';
+import { createRegexRule } from '../../../src/utils/RegexRules';
+import type { RegexRule } from '../../../src/settings/TitleChangerSettings';
+
+describe('标题反推工具', () => {
+    const dateRule = createRegexRule('^\\d{4}_\\d{2}_\\d{2}_(.+)$', '', '日期', 'date');
+
+    describe('findTitleInversion', () => {
+        it('未设置模板时应定位第一个捕获组', () => {
+            const inversion = findTitleInversion('2024_03_29_meeting', [dateRule]);
+            expect(inversion).toMatchObject({ start: 11, end: 18, prefix: '', suffix: '' });
+        });
+
+        it('没有捕获组时应使用整个匹配', () => {
+            const rule = createRegexRule('[a-z]+$', '', undefined, 'tail');
+            expect(findTitleInversion('001 note', [rule])).toMatchObject({ start: 4, end: 8 });
+        });
+
+        it('模板只引用一个捕获组时应记录前后的文本', () => {
+            const rule: RegexRule = { ...createRegexRule('^(?<num>\\d+)-(?<name>.+)$', '', undefined, 'named'), template: '第 ${name} 章' };
+            expect(findTitleInversion('12-intro', [rule])).toMatchObject({ start: 3, end: 8, prefix: '第 ', suffix: ' 章' });
+        });
+
+        it('模板引用多个捕获组或没有规则匹配时无法反推', () => {
+            const rule: RegexRule = { ...createRegexRule('^(\\d+)_(.+)$', '', undefined, 'multi'), template: '$2 ($1)' };
+            expect(findTitleInversion('12_intro', [rule])).toBeNull();
+            expect(findTitleInversion('intro', [dateRule])).toBeNull();
+        });
+    });
+
+    describe('invertDisplayTitle', () => {
+        it('应保留日期前缀并替换标题部分', () => {
+            expect(invertDisplayTitle('2024_03_29_meeting', '客户会议', [dateRule])).toBe('2024_03_29_客户会议');
+        });
+
+        it('应去掉模板中的字面文本', () => {
+            const rule: RegexRule = { ...createRegexRule('^(\\d+)-(.+)$', '', undefined, 'chapter'), template: '第 $2 章' };
+            expect(invertDisplayTitle('12-intro', '第 总结 章', [rule])).toBe('12-总结');
+            expect(invertDisplayTitle('12-intro', '总结', [rule])).toBeNull();
+        });
+
+        it('新文件名生成的标题与输入不一致时无法反推', () => {
+            // 规则只匹配末尾的小写字母，带空格的新标题只有最后一个单词会被匹配
+            const rule = createRegexRule('[a-z]+$', '', undefined, 'tail');
+            expect(invertDisplayTitle('001 note', 'new note', [rule])).toBeNull();
+            expect(invertDisplayTitle('001 note', '   ', [rule])).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,53 @@
+/**
+ * 手动标题工具测试
+ */
+import { findTitleOverride, getTitleOverride, renameTitleOverride } from '../../../src/utils/TitleOverrides';
+import { migrateSettings, DEFAULT_SETTINGS } from '../../../src/settings/TitleChangerSettings';
+
+describe('手动标题工具', () => {
+    describe('getTitleOverride', () => {
+        it('应按路径返回手动标题并忽略空标题', () => {
+            const overrides = { 'a/b.md': '标题', 'c.md': '  ' };
+
+            expect(getTitleOverride(overrides, 'a/b.md')).toBe('标题');
+            expect(getTitleOverride(overrides, 'c.md')).toBeNull();
+            expect(getTitleOverride(overrides, 'toString')).toBeNull();
+            expect(getTitleOverride(undefined, 'a/b.md')).toBeNull();
+        });
+    });
+
+    describe('findTitleOverride', () => {
+        const overrides = { 'notes/2024_01_01_plan.md': '计划' };
+
+        it('应支持完整路径、省略扩展名的路径和文件名', () => {
+            expect(findTitleOverride(overrides, 'notes/2024_01_01_plan.md')).toBe('计划');
+            expect(findTitleOverride(overrides, 'notes/2024_01_01_plan')).toBe('计划');
+            expect(findTitleOverride(overrides, '2024_01_01_plan')).toBe('计划');
+        });
+
+        it('应在没有匹配时返回 null', () => {
+            expect(findTitleOverride(overrides, 'other')).toBeNull();
+        });
+    });
+
+    describe('renameTitleOverride', () => {
+        it('应将手动标题迁移到新路径', () => {
+            const overrides: Record<string, string> = { 'a.md': '标题' };
+
+            expect(renameTitleOverride(overrides, 'a.md', 'dir/a.md')).toBe(true);
+            expect(overrides).toEqual({ 'dir/a.md': '标题' });
+            expect(renameTitleOverride(overrides, 'missing.md', 'x.md')).toBe(false);
+        });
+    });
+
+    describe('migrateSettings', () => {
+        it('应复制默认的对象和数组，避免修改默认设置', () => {
+            const settings = migrateSettings({});
+            settings.titleOverrides['a.md'] = '标题';
+            settings.excludedFolders.push('Archive');
+
+            expect(DEFAULT_SETTINGS.titleOverrides).toEqual({});
+            expect(DEFAULT_SETTINGS.excludedFolders).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,40 @@
+/**
+ * 标题属性工具测试
+ */
+import { getTitlePropertyAction, isTitleSourceKey } from '../../../src/utils/TitleProperty';
+
+describe('标题属性工具', () => {
+    describe('getTitlePropertyAction', () => {
+        it('属性不存在或为空时应添加', () => {
+            expect(getTitlePropertyAction(undefined, '计划', undefined, false)).toBe('add');
+            expect(getTitlePropertyAction(null, '计划', undefined, false)).toBe('add');
+            expect(getTitlePropertyAction('  ', '计划', undefined, false)).toBe('add');
+        });
+
+        it('属性已是显示标题时不变', () => {
+            expect(getTitlePropertyAction('计划', '计划', undefined, false)).toBe('unchanged');
+        });
+
+        it('属性是插件上次写入的值时应更新', () => {
+            expect(getTitlePropertyAction('旧计划', '计划', '旧计划', false)).toBe('update');
+        });
+
+        it('属性是用户填写的值时应跳过，允许覆盖时更新', () => {
+            expect(getTitlePropertyAction('用户标题', '计划', '旧计划', false)).toBe('conflict');
+            expect(getTitlePropertyAction(['列表'], '计划', undefined, false)).toBe('conflict');
+            expect(getTitlePropertyAction('用户标题', '计划', undefined, true)).toBe('update');
+        });
+    });
+
+    describe('isTitleSourceKey', () => {
+        it('启用 frontmatter 标题时应识别读取标题的键', () => {
+            const settings = { useFrontmatterTitle: true, frontmatterTitleKey: 'title, aliases' };
+            expect(isTitleSourceKey('aliases', settings)).toBe(true);
+            expect(isTitleSourceKey('display_title', settings)).toBe(false);
+        });
+
+        it('未启用 frontmatter 标题时任何键都可以写入', () => {
+            expect(isTitleSourceKey('title', { useFrontmatterTitle: false, frontmatterTitleKey: 'title' })).toBe(false);
+        });
+    });
+});
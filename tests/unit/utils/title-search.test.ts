@@ -0,0 +1,52 @@
+/**
+ * 显示标题搜索工具测试
+ */
+import { searchByTitle, TitleMatcher } from '../../../src/utils/TitleSearch';
+
+/**
+ * 简单的子串匹配，分数为负的匹配位置，越靠前分数越高
+ */
+function substringMatcher(query: string): TitleMatcher {
+    const lower = query.toLowerCase();
+    return (text: string) => {
+        const index = text.toLowerCase().indexOf(lower);
+        return index === -1 ? null : { score: -index, matches: [[index, index + lower.length]] };
+    };
+}
+
+describe('显示标题搜索', () => {
+    const candidates = [
+        { item: 1, title: '会议记录', path: 'daily/2024_01_01_meeting.md' },
+        { item: 2, title: '客户反馈', path: 'work/20240329_feedback.md' },
+        { item: 3, title: 'Meeting notes', path: 'work/notes.md' }
+    ];
+
+    it('应同时按显示标题和文件路径匹配', () => {
+        const results = searchByTitle(candidates, 'meeting', substringMatcher('meeting'));
+
+        expect(results.map(result => result.item)).toEqual([3, 1]);
+        expect(results[0].titleMatches).toEqual([[0, 7]]);
+        expect(results[0].pathMatches).toBeNull();
+        expect(results[1].titleMatches).toBeNull();
+        expect(results[1].pathMatches).toEqual([[17, 24]]);
+    });
+
+    it('应按显示标题找到文件名中不存在的内容', () => {
+        const results = searchByTitle(candidates, '客户', substringMatcher('客户'));
+
+        expect(results.map(result => result.item)).toEqual([2]);
+    });
+
+    it('空查询时应按原顺序返回并限制数量', () => {
+        const results = searchByTitle(candidates, '  ', substringMatcher(''), 2);
+
+        expect(results.map(result => result.item)).toEqual([1, 2]);
+        expect(results[0].score).toBe(0);
+    });
+
+    it('分数相同时应保持原顺序', () => {
+        const results = searchByTitle(candidates, 'work', substringMatcher('work'));
+
+        expect(results.map(result => result.item)).toEqual([2, 3]);
+    });
+});
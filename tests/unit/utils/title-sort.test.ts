@@ -0,0 +1,42 @@
+/**
+ * 显示标题排序工具测试
+ */
+import { compareByDisplayTitle, sortByDisplayTitle } from '../../../src/utils/TitleSort';
+
+describe('显示标题排序', () => {
+    const files = [
+        { title: 'Zebra', name: '20240101_Zebra.md' },
+        { title: 'Apple', name: '20240202_Apple.md' },
+        { title: '第10章', name: 'c10.md' },
+        { title: '第2章', name: 'c2.md' }
+    ];
+
+    it('应按显示标题而不是原始文件名排序', () => {
+        const sorted = sortByDisplayTitle(files, file => file, 'titleAsc');
+
+        expect(sorted.map(file => file.title)).toEqual(['Apple', 'Zebra', '第2章', '第10章']);
+    });
+
+    it('应按数值比较标题中的数字', () => {
+        expect(compareByDisplayTitle({ title: 'Note 2', name: 'a' }, { title: 'Note 10', name: 'b' })).toBeLessThan(0);
+    });
+
+    it('显示标题相同时应按原始文件名排序', () => {
+        const sameTitle = [
+            { title: '会议', name: 'b.md' },
+            { title: '会议', name: 'a.md' }
+        ];
+
+        expect(sortByDisplayTitle(sameTitle, file => file, 'titleAsc').map(file => file.name)).toEqual(['a.md', 'b.md']);
+    });
+
+    it('应支持降序，默认模式保持原顺序且不修改输入', () => {
+        const desc = sortByDisplayTitle(files, file => file, 'titleDesc');
+        const original = sortByDisplayTitle(files, file => file, 'default');
+
+        expect(desc.map(file => file.title)).toEqual(['第10章', '第2章', 'Zebra', 'Apple']);
+        expect(original).toEqual(files);
+        expect(original).not.toBe(files);
+        expect(files[0].title).toBe('Zebra');
+    });
+});
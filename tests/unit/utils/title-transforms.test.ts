@@ -0,0 +1,79 @@
+/**
+ * 标题后处理工具测试
+ */
+import {
+    applyTitleTransform,
+    applyTitleTransforms,
+    createDefaultTransforms,
+    normalizeTransforms,
+    previewTitleTransforms,
+    TitleTransformStep
+} from '../../../src/utils/TitleTransforms';
+
+describe('标题后处理工具', () => {
+    describe('applyTitleTransform', () => {
+        it('应将下划线和短横线替换为空格', () => {
+            expect(applyTitleTransform('replaceSeparators', 'project_plan--draft')).toBe('project plan draft');
+        });
+
+        it('应移除表情符号', () => {
+            expect(applyTitleTransform('stripEmoji', '🚀 发布 👍🏽 计划 🇨🇳')).toBe(' 发布  计划 ');
+        });
+
+        it('应合并空白并去除首尾空白', () => {
+            expect(applyTitleTransform('collapseWhitespace', ' a \t  b ')).toBe(' a b ');
+            expect(applyTitleTransform('trim', '  a b  ')).toBe('a b');
+        });
+
+        it('应将每个单词的首字母大写并保留其余字母', () => {
+            expect(applyTitleTransform('titleCase', 'meeting with NASA team')).toBe('Meeting With NASA Team');
+        });
+    });
+
+    describe('applyTitleTransforms', () => {
+        it('应按顺序执行启用的步骤', () => {
+            const steps: TitleTransformStep[] = [
+                { type: 'replaceSeparators', enabled: true },
+                { type: 'titleCase', enabled: true },
+                { type: 'stripEmoji', enabled: false }
+            ];
+
+            expect(applyTitleTransforms('weekly_review_🚀', steps)).toBe('Weekly Review 🚀');
+        });
+
+        it('应在没有启用步骤时返回原文本', () => {
+            expect(applyTitleTransforms('a_b', createDefaultTransforms())).toBe('a_b');
+            expect(applyTitleTransforms('a_b', undefined)).toBe('a_b');
+        });
+    });
+
+    describe('previewTitleTransforms', () => {
+        it('应返回每个启用步骤的结果', () => {
+            const steps: TitleTransformStep[] = [
+                { type: 'replaceSeparators', enabled: true },
+                { type: 'collapseWhitespace', enabled: false },
+                { type: 'trim', enabled: true }
+            ];
+
+            expect(previewTitleTransforms('_a_', steps)).toEqual([
+                { type: 'replaceSeparators', output: ' a ' },
+                { type: 'trim', output: 'a' }
+            ]);
+        });
+    });
+
+    describe('normalizeTransforms', () => {
+        it('应保留已保存的顺序并追加缺少的步骤', () => {
+            const steps = normalizeTransforms([
+                { type: 'trim', enabled: true },
+                { type: 'unknown', enabled: true },
+                { type: 'toString', enabled: true },
+                { type: 'trim', enabled: false }
+            ]);
+
+            expect(steps[0]).toEqual({ type: 'trim', enabled: true });
+            expect(steps).toHaveLength(createDefaultTransforms().length);
+            expect(steps.slice(1).every(step => !step.enabled)).toBe(true);
+        });
+    });
+});
@@ -2,6 +2,9 @@ import {
     extractWikiLinks, 
     extractSimpleWikiLinks, 
     shouldReplaceTitle,
+    formatLinkTitle,
+    getDefaultLinkText,
+    getLinkTargetRange,
     WikiLink
 } from '../../../src/utils/WikiLinkProcessor';
 
@@ -50,6 +53,32 @@ describe('Wiki Link Processor', () => {
             expect(links[2].subPath).toBe('section');
         });
         
+        it('should parse heading links with alias in Obsidian order', () => {
+            const links = extractWikiLinks('See [[fileName#Section|Alias]].');
+            
+            expect(links).toHaveLength(1);
+            expect(links[0].fileName).toBe('fileName');
+            expect(links[0].subPath).toBe('Section');
+            expect(links[0].displayText).toBe('Alias');
+        });
+        
+        it('should parse block links and nested headings', () => {
+            const links = extractWikiLinks('[[fileName#^abc123]] and [[fileName#H1#H2]]');
+            
+            expect(links[0].fileName).toBe('fileName');
+            expect(links[0].subPath).toBe('^abc123');
+            expect(links[1].subPath).toBe('H1#H2');
+        });
+        
+        it('should treat escaped pipes in tables as alias separators', () => {
+            const links = extractWikiLinks('| [[fileName#Section\\|Alias]] | cell |');
+            
+            expect(links).toHaveLength(1);
+            expect(links[0].fileName).toBe('fileName');
+            expect(links[0].subPath).toBe('Section');
+            expect(links[0].displayText).toBe('Alias');
+        });
+        
         it('should compute correct positions with lineStart', () => {
             const text = 'Text [[link]] more.';
             const links = extractWikiLinks(text, 100);
@@ -69,6 +98,34 @@ describe('Wiki Link Processor', () => {
         });
     });
     
+    describe('getLinkTargetRange', () => {
+        it('should cover file name and subpath but not brackets or alias', () => {
+            const text = 'x [[fileName#Section]]';
+            const { from, to } = getLinkTargetRange(extractWikiLinks(text)[0]);
+            
+            expect(text.slice(from, to)).toBe('fileName#Section');
+        });
+    });
+    
+    describe('formatLinkTitle', () => {
+        it('should append headings after the display title', () => {
+            expect(formatLinkTitle('Display', 'Section')).toBe('Display › Section');
+            expect(formatLinkTitle('Display', 'H1#H2')).toBe('Display › H1 › H2');
+        });
+        
+        it('should show only the display title for plain and block links', () => {
+            expect(formatLinkTitle('Display')).toBe('Display');
+            expect(formatLinkTitle('Display', '^abc123')).toBe('Display');
+        });
+    });
+    
+    describe('getDefaultLinkText', () => {
+        it('should match the text Obsidian renders for links without alias', () => {
+            expect(getDefaultLinkText({ fileName: 'fileName' })).toBe('fileName');
+            expect(getDefaultLinkText({ fileName: 'fileName', subPath: 'H1#H2' })).toBe('fileName > H1 > H2');
+        });
+    });
+    
     describe('shouldReplaceTitle', () => {
         it('should return true for links without display text', () => {
             const link: WikiLink = {
@@ -92,5 +149,13 @@ describe('Wiki Link Processor', () => {
             
             expect(shouldReplaceTitle(link)).toBe(false);
         });
+        
+        it('should respect aliases on heading links and skip same-file links', () => {
+            const [aliased, sameFile, heading] = extractWikiLinks('[[file#Section|Alias]] [[#Section]] [[file#Section]]');
+            
+            expect(shouldReplaceTitle(aliased)).toBe(false);
+            expect(shouldReplaceTitle(sameFile)).toBe(false);
+            expect(shouldReplaceTitle(heading)).toBe(true);
+        });
     });
 }); 
\ No newline at end of file
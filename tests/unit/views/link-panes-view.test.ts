@@ -0,0 +1,69 @@
+/**
+ * 链接面板视图测试
+ */
+import { TFile } from 'obsidian';
+import { LinkPanesView } from '../../../src/views/LinkPanesView';
+import { UIStateManager } from '../../../src/services/UIStateManager';
+
+// 插件入口会加载全部服务，视图测试不需要
+jest.mock('../../../src/main', () => ({}));
+
+function file(path: string): TFile {
+    const name = path.split('/').pop() || '';
+    return Object.assign(new TFile(), { path, basename: name.replace(/\.md$/, '') });
+}
+
+describe('LinkPanesView', () => {
+    const note = file('Notes/20240401_plan.md');
+    const titles = new Map<string, string | null>();
+    let view: LinkPanesView;
+    let container: HTMLElement;
+    let titleEl: HTMLElement;
+
+    const process = () => (view as any).processContainer(container, 'Notes/index.md');
+
+    beforeEach(() => {
+        titles.clear();
+
+        const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() } as any;
+        const errorManager = { handleError: jest.fn() } as any;
+        const plugin = {
+            app: {
+                metadataCache: {
+                    getFirstLinkpathDest: (linkpath: string) => linkpath === note.basename ? note : null
+                }
+            }
+        } as any;
+        const cacheManager = { processFile: (target: TFile) => titles.get(target.path) ?? null } as any;
+        const uiStateManager = new UIStateManager(errorManager, logger, {} as any);
+
+        view = new LinkPanesView(plugin, logger, errorManager, cacheManager, {} as any, uiStateManager);
+
+        container = document.createElement('div');
+        container.innerHTML = '<div class="search-result-file-title"><div class="tree-item-inner">20240401_plan</div></div>';
+        titleEl = container.querySelector('.tree-item-inner') as HTMLElement;
+    });
+
+    it('已替换的标题应在显示标题变化后更新', () => {
+        titles.set(note.path, '计划');
+        process();
+        expect(titleEl.textContent).toBe('计划');
+
+        titles.set(note.path, '新计划');
+        process();
+        expect(titleEl.textContent).toBe('新计划');
+    });
+
+    it('显示标题被移除后应恢复原始文件名', () => {
+        titles.set(note.path, '计划');
+        process();
+
+        titles.set(note.path, null);
+        process();
+        expect(titleEl.textContent).toBe('20240401_plan');
+
+        titles.set(note.path, '计划');
+        process();
+        expect(titleEl.textContent).toBe('计划');
+    });
+});
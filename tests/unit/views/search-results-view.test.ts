@@ -0,0 +1,69 @@
+/**
+ * 搜索结果视图测试
+ */
+import { TFile } from 'obsidian';
+import { SearchResultsView } from '../../../src/views/SearchResultsView';
+import { UIStateManager } from '../../../src/services/UIStateManager';
+
+// 插件入口会加载全部服务，视图测试不需要
+jest.mock('../../../src/main', () => ({}));
+
+function file(path: string): TFile {
+    const name = path.split('/').pop() || '';
+    return Object.assign(new TFile(), { path, basename: name.replace(/\.md$/, '') });
+}
+
+describe('SearchResultsView', () => {
+    const note = file('Notes/20240401_plan.md');
+    const titles = new Map<string, string | null>();
+    let view: SearchResultsView;
+    let pane: HTMLElement;
+    let titleEl: HTMLElement;
+
+    const process = () => (view as any).processPane(pane);
+
+    beforeEach(() => {
+        titles.clear();
+
+        const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() } as any;
+        const errorManager = { handleError: jest.fn() } as any;
+        const plugin = {
+            app: {
+                workspace: { getLeavesOfType: () => [] },
+                metadataCache: {
+                    getFirstLinkpathDest: (linkpath: string) => linkpath === note.basename ? note : null
+                }
+            }
+        } as any;
+        const cacheManager = { processFile: (target: TFile) => titles.get(target.path) ?? null } as any;
+        const domSelector = { getSearchResultTitles: () => [titleEl] } as any;
+        const uiStateManager = new UIStateManager(errorManager, logger, domSelector);
+
+        view = new SearchResultsView(plugin, logger, errorManager, cacheManager, {} as any, uiStateManager, domSelector);
+
+        pane = document.createElement('div');
+        pane.innerHTML = '<div class="search-result"><div class="tree-item-inner">20240401_plan</div></div>';
+        titleEl = pane.querySelector('.tree-item-inner') as HTMLElement;
+    });
+
+    it('已替换的标题应在显示标题变化后更新', () => {
+        titles.set(note.path, '计划');
+        process();
+        expect(titleEl.textContent).toBe('计划');
+        expect(titleEl.getAttribute('aria-label')).toBe(note.path);
+
+        titles.set(note.path, '新计划');
+        process();
+        expect(titleEl.textContent).toBe('新计划');
+    });
+
+    it('显示标题被移除后应恢复原始文件名和悬停提示', () => {
+        titles.set(note.path, '计划');
+        process();
+
+        titles.set(note.path, null);
+        process();
+        expect(titleEl.textContent).toBe('20240401_plan');
+        expect(titleEl.hasAttribute('aria-label')).toBe(false);
+    });
+});